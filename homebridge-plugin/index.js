@@ -0,0 +1,6 @@
+/**
+ * Homebridge plugin entry point
+ * Homebridge requires the package main and calls the exported function with its API
+ */
+
+module.exports = require('trane-thermostat-api/homebridge').registerPlatform;
@@ -0,0 +1,384 @@
+/**
+ * CLI command implementations
+ * Each command returns structured data for --json output alongside a human-readable rendering
+ */
+
+import { TraneClient } from '../client/trane-client';
+import { ITraneThermostat, ITraneZone, ITraneSensor } from '../types/interfaces';
+import { OperationMode, PresetMode, FanMode } from '../types/constants';
+import { TemperatureOptions, HumidityOptions, HoldOptions } from '../types/api';
+import { ValidationError, DeviceNotFoundError } from '../utils/errors';
+import { GeneralValidator } from '../utils/validation';
+
+// Option values shared by all commands (parsed from --flags)
+export interface CommandOptions {
+  thermostat?: string;
+  zone?: string;
+  heat?: string;
+  cool?: string;
+  temp?: string;
+  speed?: string;
+  humidify?: string;
+  dehumidify?: string;
+  minutes?: string;
+  until?: string;
+  next?: boolean;
+}
+
+export interface CommandResult {
+  data: unknown;
+  text: string;
+}
+
+export type CommandHandler = (
+  client: TraneClient,
+  args: string[],
+  options: CommandOptions
+) => Promise<CommandResult>;
+
+/**
+ * Command table keyed by "command" or "command subcommand"
+ */
+export const COMMANDS: Record<string, CommandHandler> = {
+  'login': login,
+  'logout': logout,
+  'houses': houses,
+  'status': status,
+  'zone set': zoneSet,
+  'zone mode': zoneMode,
+  'zone hold': zoneHold,
+  'zone resume': zoneResume,
+  'zone preset': zonePreset,
+  'fan': fan,
+  'humidity': humidity,
+  'sensors list': sensorsList,
+  'sensors select': sensorsSelect,
+  'diagnostics': diagnostics
+};
+
+async function login(client: TraneClient): Promise<CommandResult> {
+  await client.login();
+
+  const data = { username: client.username, houseId: client.getHouseId(), houseName: client.getHouseName() };
+  return { data, text: `Logged in as ${data.username} (${data.houseName ?? 'house'} ${data.houseId})` };
+}
+
+async function logout(client: TraneClient): Promise<CommandResult> {
+  await client.logout();
+  return { data: { loggedOut: true }, text: 'Logged out' };
+}
+
+async function houses(client: TraneClient): Promise<CommandResult> {
+  const list = (await client.getHouses()).map(house => ({ houseId: house.id, houseName: house.name }));
+  const text = list.length > 0
+    ? list.map(house => `${house.houseId}\t${house.houseName}`).join('\n')
+    : 'No houses found';
+  return { data: list, text };
+}
+
+async function status(client: TraneClient, _args: string[], options: CommandOptions): Promise<CommandResult> {
+  const thermostats = options.thermostat
+    ? [await resolveThermostat(client, options)]
+    : await client.getThermostats();
+
+  const data = thermostats.map(thermostat => ({
+    ...summarize(thermostat),
+    zones: thermostat.zones.map(zone => ({
+      ...summarize(zone),
+      sensors: zone.sensors.map(summarize)
+    }))
+  }));
+
+  return { data, text: thermostats.map(formatThermostat).join('\n\n') };
+}
+
+async function zoneSet(client: TraneClient, _args: string[], options: CommandOptions): Promise<CommandResult> {
+  const zone = await resolveZone(client, options);
+  const temperatures = parseTemperatures(options);
+
+  if (Object.keys(temperatures).length === 0) {
+    throw new ValidationError('zone set requires --heat, --cool or --temp', 'temperatures');
+  }
+
+  await zone.setTemperatures(temperatures);
+  return zoneResult(zone);
+}
+
+async function zoneMode(client: TraneClient, args: string[], options: CommandOptions): Promise<CommandResult> {
+  const mode = parseChoice(args[0], Object.values(OperationMode), 'mode');
+  const zone = await resolveZone(client, options);
+
+  await zone.setMode(mode);
+  return zoneResult(zone);
+}
+
+async function zoneHold(client: TraneClient, _args: string[], options: CommandOptions): Promise<CommandResult> {
+  const zone = await resolveZone(client, options);
+  const temperatures = parseTemperatures(options);
+  const hold: HoldOptions = Object.keys(temperatures).length > 0 ? { temperatures } : {};
+
+  // Timed holds are saved; the next run (or a running client) returns the zone to its schedule
+  const minutes = parseNumber(options.minutes, 'minutes');
+  if (minutes !== undefined) {
+    hold.minutes = minutes;
+  }
+  if (options.until !== undefined) {
+    hold.endTime = GeneralValidator.validateDate(options.until, 'until');
+  }
+  if (options.next) {
+    hold.duration = 'temporary';
+  }
+
+  await zone.setPermanentHold(hold);
+  return zoneResult(zone);
+}
+
+async function zoneResume(client: TraneClient, _args: string[], options: CommandOptions): Promise<CommandResult> {
+  const zone = await resolveZone(client, options);
+
+  await zone.returnToSchedule();
+  return zoneResult(zone);
+}
+
+async function zonePreset(client: TraneClient, args: string[], options: CommandOptions): Promise<CommandResult> {
+  const preset = parseChoice(args[0], Object.values(PresetMode), 'preset');
+  const zone = await resolveZone(client, options);
+
+  await zone.setPreset(preset);
+  return zoneResult(zone);
+}
+
+async function fan(client: TraneClient, args: string[], options: CommandOptions): Promise<CommandResult> {
+  const thermostat = await resolveThermostat(client, options);
+  const mode = args[0] !== undefined ? parseChoice(args[0], Object.values(FanMode), 'fan mode') : undefined;
+  const speed = parseNumber(options.speed, 'speed');
+
+  if (mode === undefined && speed === undefined) {
+    throw new ValidationError('fan requires a mode or --speed', 'fan');
+  }
+
+  await thermostat.setFanOptions({ mode, speed });
+
+  const data = { id: thermostat.id, fanMode: thermostat.currentFanMode, fanSpeed: thermostat.currentFanSpeed };
+  return { data, text: `${thermostat.name}: fan ${data.fanMode ?? 'unknown'}, speed ${data.fanSpeed}` };
+}
+
+async function humidity(client: TraneClient, _args: string[], options: CommandOptions): Promise<CommandResult> {
+  const thermostat = await resolveThermostat(client, options);
+  const setpoints: HumidityOptions = {};
+
+  const humidify = parseNumber(options.humidify, 'humidify');
+  const dehumidify = parseNumber(options.dehumidify, 'dehumidify');
+  if (humidify !== undefined) {
+    setpoints.humidify = toFraction(humidify);
+  }
+  if (dehumidify !== undefined) {
+    setpoints.dehumidify = toFraction(dehumidify);
+  }
+
+  if (Object.keys(setpoints).length > 0) {
+    await thermostat.setHumiditySetpoints(setpoints);
+  }
+
+  const data = {
+    id: thermostat.id,
+    relativeHumidity: thermostat.relativeHumidity,
+    humidifySetpoint: thermostat.humidifySetpoint,
+    dehumidifySetpoint: thermostat.dehumidifySetpoint
+  };
+  const text = [
+    `${thermostat.name}: indoor ${percent(data.relativeHumidity)}`,
+    `humidify ${percent(data.humidifySetpoint)}`,
+    `dehumidify ${percent(data.dehumidifySetpoint)}`
+  ].join(', ');
+
+  return { data, text };
+}
+
+async function sensorsList(client: TraneClient, _args: string[], options: CommandOptions): Promise<CommandResult> {
+  const zone = await resolveZone(client, options);
+  return {
+    data: zone.sensors.map(summarize),
+    text: zone.sensors.length > 0
+      ? zone.sensors.map(sensor => formatSensor(sensor, zone)).join('\n')
+      : `${zone.name} has no sensors`
+  };
+}
+
+async function sensorsSelect(client: TraneClient, args: string[], options: CommandOptions): Promise<CommandResult> {
+  if (args.length === 0) {
+    throw new ValidationError('sensors select requires one or more sensor ids', 'activeSensorIds');
+  }
+
+  const activeSensorIds = args.map(arg => parseNumber(arg, 'sensor id') as number);
+  const zone = await resolveZone(client, options);
+
+  await zone.selectActiveSensors({ activeSensorIds });
+  return sensorsList(client, [], options);
+}
+
+/**
+ * Redacted client report for bug reports, printed as JSON either way
+ * A failed load is part of the report rather than a reason to skip it
+ */
+async function diagnostics(client: TraneClient): Promise<CommandResult> {
+  try {
+    await client.getThermostats();
+  } catch {
+    // Recorded in the report's recent errors
+  }
+
+  const data = client.getDiagnostics();
+  return { data, text: JSON.stringify(data, null, 2) };
+}
+
+/**
+ * Find the thermostat named by --thermostat, or the only thermostat in the house
+ */
+async function resolveThermostat(client: TraneClient, options: CommandOptions): Promise<ITraneThermostat> {
+  const thermostats = await client.getThermostats();
+
+  if (options.thermostat) {
+    const thermostat = thermostats.find(t => t.id === options.thermostat);
+    if (!thermostat) {
+      throw new DeviceNotFoundError(`Thermostat ${options.thermostat} not found`, options.thermostat, 'thermostat');
+    }
+    return thermostat;
+  }
+
+  if (thermostats.length !== 1) {
+    throw new ValidationError(
+      `Found ${thermostats.length} thermostats; choose one with --thermostat (${thermostats.map(t => t.id).join(', ')})`,
+      'thermostat'
+    );
+  }
+
+  return thermostats[0]!;
+}
+
+/**
+ * Find the zone named by --zone, or the only zone on the selected thermostats
+ */
+async function resolveZone(client: TraneClient, options: CommandOptions): Promise<ITraneZone> {
+  const thermostats = options.thermostat
+    ? [await resolveThermostat(client, options)]
+    : await client.getThermostats();
+  const zones = thermostats.flatMap(thermostat => thermostat.zones);
+
+  if (options.zone) {
+    const zone = zones.find(z => z.id === options.zone);
+    if (!zone) {
+      throw new DeviceNotFoundError(`Zone ${options.zone} not found`, options.zone, 'zone');
+    }
+    return zone;
+  }
+
+  if (zones.length !== 1) {
+    throw new ValidationError(
+      `Found ${zones.length} zones; choose one with --zone (${zones.map(z => z.id).join(', ')})`,
+      'zone'
+    );
+  }
+
+  return zones[0]!;
+}
+
+function parseTemperatures(options: CommandOptions): TemperatureOptions {
+  const temperatures: TemperatureOptions = {};
+
+  const heat = parseNumber(options.heat, 'heat');
+  const cool = parseNumber(options.cool, 'cool');
+  const temp = parseNumber(options.temp, 'temp');
+  if (heat !== undefined) {
+    temperatures.heatingSetpoint = heat;
+  }
+  if (cool !== undefined) {
+    temperatures.coolingSetpoint = cool;
+  }
+  if (temp !== undefined) {
+    temperatures.setTemp = temp;
+  }
+
+  return temperatures;
+}
+
+function parseNumber(value: string | undefined, fieldName: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return GeneralValidator.validateRequiredNumber(Number(value.replace(/%$/, '')), fieldName);
+}
+
+/**
+ * Match a choice case-insensitively, returning the canonical value
+ */
+function parseChoice<T extends string>(value: string | undefined, choices: T[], fieldName: string): T {
+  const match = choices.find(choice => choice.toLowerCase() === value?.toLowerCase());
+  if (!match) {
+    throw new ValidationError(`${fieldName} must be one of: ${choices.join(', ')}`, fieldName, value);
+  }
+  return match;
+}
+
+// Humidity is given as a percentage on the command line; the API uses 0-1 fractions
+function toFraction(value: number): number {
+  return value > 1 ? value / 100 : value;
+}
+
+function percent(fraction: number | null): string {
+  return fraction === null ? 'n/a' : `${Math.round(fraction * 100)}%`;
+}
+
+function summarize(device: ITraneThermostat | ITraneZone | ITraneSensor): Record<string, any> {
+  return device.getStatusSummary();
+}
+
+function zoneResult(zone: ITraneZone): CommandResult {
+  return { data: summarize(zone), text: formatZone(zone) };
+}
+
+function formatThermostat(thermostat: ITraneThermostat): string {
+  const lines = [
+    `${thermostat.name} [${thermostat.id}] ${thermostat.model} - ` +
+      `${thermostat.isOnline ? thermostat.systemStatus.systemStatus : 'offline'}`
+  ];
+
+  if (thermostat.outdoorTemperature !== null) {
+    lines.push(`  Outdoor: ${thermostat.outdoorTemperature}°${thermostat.temperatureUnit}`);
+  }
+  if (thermostat.relativeHumidity !== null) {
+    lines.push(`  Humidity: ${percent(thermostat.relativeHumidity)}`);
+  }
+  lines.push(`  Fan: ${thermostat.currentFanMode ?? 'unknown'}`);
+
+  for (const zone of thermostat.zones) {
+    lines.push(`  ${formatZone(zone)}`);
+    for (const sensor of zone.sensors) {
+      lines.push(`    ${formatSensor(sensor, zone)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatZone(zone: ITraneZone): string {
+  const unit = zone.thermostat.temperatureUnit;
+  return `Zone ${zone.name} [${zone.id}]: ${zone.currentTemperature}°${unit}, ` +
+    `heat ${zone.heatingSetpoint} / cool ${zone.coolingSetpoint}, ` +
+    `${zone.currentMode}, ${zone.setpointStatus}` +
+    (zone.holdRemainingMinutes !== null ? ` (${zone.holdRemainingMinutes} min left)` : '') +
+    (zone.damperPosition !== null ? `, ${zone.damperPosition}` : '');
+}
+
+function formatSensor(sensor: ITraneSensor, zone: ITraneZone): string {
+  const parts = [`${sensor.temperature}°${zone.thermostat.temperatureUnit}`];
+  if (sensor.humidityValid) {
+    parts.push(`${sensor.humidity}% humidity`);
+  }
+  if (sensor.batteryLevel !== null) {
+    parts.push(`battery ${sensor.batteryLevel}%`);
+  }
+  parts.push(sensor.isActive ? 'active' : 'inactive');
+
+  return `Sensor ${sensor.name} [${sensor.id}]: ${parts.join(', ')}`;
+}
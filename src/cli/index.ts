@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+/**
+ * trane - command-line interface for Trane thermostats
+ * Credentials come from --username/--password or TRANE_USERNAME/TRANE_PASSWORD; the
+ * AuthManager state file is reused so repeated invocations don't sign in again
+ */
+
+import { parseArgs } from 'util';
+import { TraneClient } from '../client/trane-client';
+import { TraneClientConfig } from '../types/api';
+import { TraneError, ValidationError, ConfigurationError } from '../utils/errors';
+import { GeneralValidator } from '../utils/validation';
+import { COMMANDS, CommandOptions } from './commands';
+
+const USAGE = `Usage: trane <command> [options]
+
+Commands:
+  login                                  Sign in and save the session
+  logout                                 Sign out and clear the saved session
+  houses                                 List houses on the account
+  status                                 Show thermostats, zones and sensors
+  zone set [--heat F] [--cool F] [--temp F]
+  zone mode <auto|heat|cool|off>
+  zone hold [--heat F] [--cool F] [--minutes N | --until TIME | --next]
+                                         Hold current or given setpoints, permanently,
+                                         for N minutes, until an ISO time or until
+                                         the next schedule change
+  zone resume                            Return to schedule
+  zone preset <home|away|sleep>
+  fan [auto|on|circulate] [--speed N]
+  humidity [--humidify %] [--dehumidify %]
+  sensors list
+  sensors select <sensorId...>           Set the zone's active RoomIQ sensors
+  diagnostics                            Print a redacted report to attach to bug reports
+
+Options:
+  --username, --password   Account credentials (or TRANE_USERNAME / TRANE_PASSWORD)
+  --house ID               House to use (or TRANE_HOUSE_ID)
+  --state-file PATH        Session state file (or TRANE_STATE_FILE)
+  --thermostat ID          Thermostat to act on (required with multiple thermostats)
+  --zone ID                Zone to act on (required with multiple zones)
+  --record DIR             Save sanitized API requests and responses to DIR (for bug reports)
+  --json                   Print machine-readable JSON
+  -h, --help               Show this help`;
+
+const OPTIONS = {
+  'json': { type: 'boolean' },
+  'help': { type: 'boolean', short: 'h' },
+  'username': { type: 'string' },
+  'password': { type: 'string' },
+  'house': { type: 'string' },
+  'state-file': { type: 'string' },
+  'thermostat': { type: 'string' },
+  'zone': { type: 'string' },
+  'record': { type: 'string' },
+  'heat': { type: 'string' },
+  'cool': { type: 'string' },
+  'temp': { type: 'string' },
+  'speed': { type: 'string' },
+  'humidify': { type: 'string' },
+  'dehumidify': { type: 'string' },
+  'minutes': { type: 'string' },
+  'until': { type: 'string' },
+  'next': { type: 'boolean' }
+} as const;
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * Run the CLI with the given arguments, returning the process exit code
+ */
+export async function main(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env,
+  createClient: (config: TraneClientConfig) => TraneClient = config => new TraneClient(config)
+): Promise<number> {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(argv);
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+
+  const { values, positionals } = parsed;
+  const { name, args } = resolveCommand(positionals);
+
+  if (values.help || !name) {
+    process.stdout.write(`${USAGE}\n`);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const handler = COMMANDS[name];
+  if (!handler) {
+    process.stderr.write(`Unknown command: ${positionals.join(' ')}\n\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    const username = values.username ?? env['TRANE_USERNAME'];
+    const password = values.password ?? env['TRANE_PASSWORD'];
+    if (!username || !password) {
+      throw new ConfigurationError('Credentials required: use --username/--password or TRANE_USERNAME/TRANE_PASSWORD', 'username');
+    }
+
+    const house = values.house ?? env['TRANE_HOUSE_ID'];
+    const client = createClient({
+      username,
+      password,
+      houseId: house !== undefined ? GeneralValidator.validateRequiredNumber(Number(house), 'house') : undefined,
+      stateFile: values['state-file'] ?? env['TRANE_STATE_FILE'],
+      deviceName: 'Trane CLI',
+      recordFixtures: values.record
+    });
+
+    const options: CommandOptions = {
+      thermostat: values.thermostat,
+      zone: values.zone,
+      heat: values.heat,
+      cool: values.cool,
+      temp: values.temp,
+      speed: values.speed,
+      humidify: values.humidify,
+      dehumidify: values.dehumidify,
+      minutes: values.minutes,
+      until: values.until,
+      next: values.next
+    };
+
+    const result = await handler(client, args, options);
+    process.stdout.write(values.json ? `${JSON.stringify(result.data, null, 2)}\n` : `${result.text}\n`);
+    return EXIT_OK;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (values.json) {
+      const code = error instanceof TraneError ? error.code : 'UNKNOWN_ERROR';
+      process.stderr.write(`${JSON.stringify({ error: { code, message } })}\n`);
+    } else {
+      process.stderr.write(`Error: ${message}\n`);
+    }
+
+    return error instanceof ValidationError || error instanceof ConfigurationError ? EXIT_USAGE : EXIT_FAILURE;
+  }
+}
+
+function parseCommandLine(argv: string[]) {
+  return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+}
+
+/**
+ * Split positionals into a command name ("zone set") and its arguments
+ */
+function resolveCommand(positionals: string[]): { name?: string; args: string[] } {
+  const [first, second, ...rest] = positionals;
+  if (first === undefined) {
+    return { args: [] };
+  }
+
+  if (second !== undefined && COMMANDS[`${first} ${second}`]) {
+    return { name: `${first} ${second}`, args: rest };
+  }
+
+  return { name: first, args: positionals.slice(1) };
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -3,18 +3,22 @@
  * Handles login, session management, device UUID persistence, and rate limiting
  */
 
-import { promises as fs } from 'fs';
-import { join, dirname } from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { BrandType, API_CONSTANTS, API_ENDPOINTS } from '../types/constants';
-import { AuthTokens, LoginRequest, LoginResponse, SessionResponse } from '../types/api';
+import { AuthStatus, AuthTokens, HouseInfo, LoginRequest, LoginResponse, SessionResponse, ResponseValidationMode } from '../types/api';
+import { LOGIN_RESPONSE_SCHEMA, SESSION_RESPONSE_SCHEMA } from '../types/schemas';
 import { HttpClient } from '../utils/http-utils';
+import { ConsoleLogger } from '../utils/logger';
+import { ILogger } from '../types/interfaces';
+import { SessionStore, FileSessionStore, EncryptedFileSessionStore } from './session-store';
+import { ResponseValidator } from './response-validator';
 import {
   AuthenticationError,
   RateLimitError,
   // SessionExpiredError,
   ConfigurationError,
   // ValidationError,
+  ParseError,
   ErrorHandler
 } from '../utils/errors';
 
@@ -24,7 +28,11 @@ export interface AuthConfig {
   deviceName?: string;
   brand: BrandType;
   stateFile?: string;
+  statePassphrase?: string;
+  sessionStore?: SessionStore;
   houseId?: number;
+  logger?: ILogger;
+  responseValidation?: ResponseValidationMode;
 }
 
 export interface AuthState {
@@ -39,13 +47,17 @@ export interface AuthState {
 export class AuthManager {
   private readonly config: AuthConfig;
   private readonly httpClient: HttpClient;
-  private readonly stateFilePath: string;
+  private readonly sessionStore: SessionStore;
+  private readonly logger: ILogger;
+  private readonly validator: ResponseValidator;
   private authState: AuthState;
 
   constructor(httpClient: HttpClient, config: AuthConfig) {
     this.httpClient = httpClient;
     this.config = this.validateConfig(config);
-    this.stateFilePath = this.getStateFilePath();
+    this.logger = config.logger ?? new ConsoleLogger();
+    this.validator = new ResponseValidator(config.responseValidation ?? 'strict', this.logger);
+    this.sessionStore = this.createSessionStore();
     this.authState = {
       deviceUuid: uuidv4(),
       loginAttempts: 0
@@ -54,13 +66,19 @@ export class AuthManager {
 
   /**
    * Initialize authentication manager by loading existing state
+   * A session the store cannot read (e.g. a wrong passphrase) is an error rather than a
+   * reason to start fresh, which would overwrite it
    */
   public async initialize(): Promise<void> {
     try {
       await this.loadState();
     } catch (error) {
+      if (error instanceof ConfigurationError) {
+        throw error;
+      }
+
       // If state loading fails, we'll start fresh
-      console.warn('Failed to load auth state, starting fresh:', error);
+      this.logger.warn('Failed to load auth state, starting fresh:', error);
       await this.generateNewDeviceUuid();
     }
   }
@@ -101,7 +119,7 @@ export class AuthManager {
     } catch (error) {
       this.handleLoginFailure();
 
-      if (error instanceof AuthenticationError) {
+      if (error instanceof AuthenticationError || error instanceof ParseError) {
         throw error;
       }
 
@@ -166,6 +184,19 @@ export class AuthManager {
     return !this.isSessionValid();
   }
 
+  /**
+   * Session state for diagnostics; never includes the API key, mobile id or device UUID
+   */
+  public getStatus(): AuthStatus {
+    const { sessionExpiry, lastLoginAttempt, loginAttempts } = this.authState;
+    return {
+      authenticated: this.isSessionValid(),
+      sessionExpiresAt: sessionExpiry ? new Date(sessionExpiry).toISOString() : null,
+      loginAttempts: loginAttempts || 0,
+      lastLoginAttempt: lastLoginAttempt ? new Date(lastLoginAttempt).toISOString() : null
+    };
+  }
+
   /**
    * Logout and clear session
    */
@@ -192,23 +223,24 @@ export class AuthManager {
   }
 
   /**
-   * Get session discovery info (house ID if not provided in config)
+   * List every home available to the authenticated account
    */
-  public async getSessionInfo(): Promise<{ houseId: number; houseName: string }> {
+  public async listHouses(): Promise<HouseInfo[]> {
     if (!this.isSessionValid()) {
       await this.authenticate();
     }
 
     try {
-      const response = await this.httpClient.post<SessionResponse>(API_ENDPOINTS.SESSION, {});
+      const response = await this.httpClient.post<unknown>(API_ENDPOINTS.SESSION, {});
+      const session = this.validator.validate<SessionResponse>(response.data, SESSION_RESPONSE_SCHEMA, 'session');
 
-      if (response.data.success && response.data.result) {
-        const result = response.data.result;
+      if (session.success && session.result) {
+        const result = session.result;
 
         // Parse homes from the _links.child array (current API format)
         // Each child with type "application/vnd.nexia.location+json" is a home
         // Note: The API uses "nexia" in content types regardless of brand
-        const homes: Array<{ house_id: number; name: string }> = [];
+        const homes: Array<{ house_id: number; name: string | null }> = [];
 
         if (result._links?.child) {
           for (const child of result._links.child) {
@@ -226,30 +258,12 @@ export class AuthManager {
           homes.push(...result.homes);
         }
 
-        if (homes.length === 0) {
-          throw new AuthenticationError('No homes found in account');
-        }
-
-        // Use configured house ID or first available home
-        const targetHouse = this.config.houseId
-          ? homes.find(h => h.house_id === this.config.houseId)
-          : homes[0];
-
-        if (!targetHouse) {
-          throw new AuthenticationError(
-            `House ID ${this.config.houseId} not found. Available houses: ${homes.map(h => h.house_id).join(', ')}`
-          );
-        }
-
-        return {
-          houseId: targetHouse.house_id,
-          houseName: targetHouse.name
-        };
+        return homes.map(home => ({ houseId: home.house_id, houseName: home.name || 'Home' }));
       } else {
         throw new AuthenticationError('Failed to retrieve session information');
       }
     } catch (error) {
-      if (error instanceof AuthenticationError) {
+      if (error instanceof AuthenticationError || error instanceof ParseError) {
         throw error;
       }
 
@@ -258,6 +272,30 @@ export class AuthManager {
     }
   }
 
+  /**
+   * Get session discovery info (house ID if not provided in config)
+   */
+  public async getSessionInfo(): Promise<HouseInfo> {
+    const homes = await this.listHouses();
+
+    if (homes.length === 0) {
+      throw new AuthenticationError('No homes found in account');
+    }
+
+    // Use configured house ID or first available home
+    const targetHouse = this.config.houseId
+      ? homes.find(h => h.houseId === this.config.houseId)
+      : homes[0];
+
+    if (!targetHouse) {
+      throw new AuthenticationError(
+        `House ID ${this.config.houseId} not found. Available houses: ${homes.map(h => h.houseId).join(', ')}`
+      );
+    }
+
+    return targetHouse;
+  }
+
   /**
    * Validate authentication configuration
    */
@@ -281,59 +319,54 @@ export class AuthManager {
   }
 
   /**
-   * Get state file path with proper defaults
+   * Pick the session store: an injected one, else an (optionally encrypted) state file
    */
-  private getStateFilePath(): string {
-    if (this.config.stateFile) {
-      return this.config.stateFile;
+  private createSessionStore(): SessionStore {
+    if (this.config.sessionStore) {
+      return this.config.sessionStore;
     }
 
-    // Default to user's home directory or current working directory
-    const homeDir = process.env['HOME'] || process.env['USERPROFILE'] || process.cwd();
-    return join(homeDir, '.trane', 'auth-state.json');
+    return this.config.statePassphrase
+      ? new EncryptedFileSessionStore(this.config.statePassphrase, this.config.stateFile)
+      : new FileSessionStore(this.config.stateFile);
   }
 
   /**
-   * Load authentication state from file
+   * Load authentication state from the session store
    */
   private async loadState(): Promise<void> {
-    try {
-      const stateData = await fs.readFile(this.stateFilePath, 'utf8');
-      const state = JSON.parse(stateData) as AuthState;
-
-      // Validate loaded state
-      if (state.deviceUuid && typeof state.deviceUuid === 'string') {
-        this.authState = {
-          ...this.authState,
-          ...state
-        };
+    const state = await this.sessionStore.load();
 
-        // Restore HTTP headers if session is still valid
-        if (this.isSessionValid() && state.apiKey && state.mobileId) {
-          this.httpClient.setAuthHeaders(state.apiKey, state.mobileId, this.config.brand);
-        }
-      } else {
-        throw new Error('Invalid state file format');
-      }
-    } catch {
-      // File doesn't exist or is invalid, generate new UUID
+    // Nothing saved yet, generate new UUID
+    if (!state) {
       await this.generateNewDeviceUuid();
+      return;
+    }
+
+    // Validate loaded state
+    if (!state.deviceUuid || typeof state.deviceUuid !== 'string') {
+      throw new Error('Invalid auth state format');
+    }
+
+    this.authState = {
+      ...this.authState,
+      ...state
+    };
+
+    // Restore HTTP headers if session is still valid
+    if (this.isSessionValid() && state.apiKey && state.mobileId) {
+      this.httpClient.setAuthHeaders(state.apiKey, state.mobileId, this.config.brand);
     }
   }
 
   /**
-   * Save authentication state to file
+   * Save authentication state to the session store
    */
   private async saveState(): Promise<void> {
     try {
-      // Ensure directory exists
-      await fs.mkdir(dirname(this.stateFilePath), { recursive: true });
-
-      // Save state
-      const stateData = JSON.stringify(this.authState, null, 2);
-      await fs.writeFile(this.stateFilePath, stateData, 'utf8');
+      await this.sessionStore.save(this.authState);
     } catch (error) {
-      console.warn('Failed to save auth state:', error);
+      this.logger.warn('Failed to save auth state:', error);
       // Don't throw error for save failures
     }
   }
@@ -389,14 +422,14 @@ export class AuthManager {
       is_commercial: false
     };
 
-    const response = await this.httpClient.post<LoginResponse>(API_ENDPOINTS.SIGN_IN, loginData);
+    const response = await this.httpClient.post<unknown>(API_ENDPOINTS.SIGN_IN, loginData);
 
     // Handle redirect response (usually indicates invalid credentials)
     if (response.status === 302) {
       throw new AuthenticationError('Invalid credentials');
     }
 
-    return response.data;
+    return this.validator.validate<LoginResponse>(response.data, LOGIN_RESPONSE_SCHEMA, 'sign-in');
   }
 
   /**
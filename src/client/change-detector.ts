@@ -0,0 +1,188 @@
+/**
+ * Change detection between successive house data refreshes
+ * Snapshots device state before an update and reports per-property differences
+ */
+
+import {
+  ITraneThermostat,
+  ITraneZone,
+  ITraneSensor,
+  DeviceChangeEvent,
+  DeviceChangeEventType
+} from '../types/interfaces';
+
+// A watched property and the event raised when it changes
+interface WatchedProperty<T> {
+  property: string;
+  event: DeviceChangeEventType;
+  read: (device: T) => unknown;
+  // Optional filter; by default any difference triggers the event
+  triggers?: (oldValue: unknown, newValue: unknown) => boolean;
+}
+
+type PropertyValues = Map<string, unknown>;
+type PropertyChange = Pick<DeviceChangeEvent, 'type' | 'property' | 'oldValue' | 'newValue'>;
+
+// Point-in-time values of every watched property, keyed by device
+export interface DeviceSnapshot {
+  thermostats: Map<string, PropertyValues>;
+  zones: Map<string, PropertyValues>;
+  sensors: Map<string, PropertyValues>;
+}
+
+const BATTERY_SEVERITY: Record<string, number> = {
+  unknown: 0,
+  good: 0,
+  low: 1,
+  critical: 2
+};
+
+const THERMOSTAT_PROPERTIES: WatchedProperty<ITraneThermostat>[] = [
+  { property: 'systemStatus', event: 'thermostat.systemStatusChanged', read: t => t.systemStatus.systemStatus },
+  { property: 'isOnline', event: 'thermostat.onlineChanged', read: t => t.isOnline },
+  { property: 'currentFanMode', event: 'thermostat.fanModeChanged', read: t => t.currentFanMode },
+  { property: 'relativeHumidity', event: 'thermostat.humidityChanged', read: t => t.relativeHumidity },
+  { property: 'outdoorTemperature', event: 'thermostat.outdoorTemperatureChanged', read: t => t.outdoorTemperature },
+  { property: 'isEmergencyHeatActive', event: 'thermostat.emergencyHeatChanged', read: t => t.isEmergencyHeatActive }
+];
+
+const ZONE_PROPERTIES: WatchedProperty<ITraneZone>[] = [
+  { property: 'currentTemperature', event: 'zone.temperatureChanged', read: z => z.currentTemperature },
+  { property: 'heatingSetpoint', event: 'zone.setpointChanged', read: z => z.heatingSetpoint },
+  { property: 'coolingSetpoint', event: 'zone.setpointChanged', read: z => z.coolingSetpoint },
+  { property: 'currentMode', event: 'zone.modeChanged', read: z => z.currentMode },
+  { property: 'setpointStatus', event: 'zone.holdChanged', read: z => z.setpointStatus },
+  { property: 'currentPreset', event: 'zone.presetChanged', read: z => z.currentPreset },
+  { property: 'isCalling', event: 'zone.callingChanged', read: z => z.isCalling }
+];
+
+const SENSOR_PROPERTIES: WatchedProperty<ITraneSensor>[] = [
+  { property: 'temperature', event: 'sensor.temperatureChanged', read: s => s.temperature },
+  { property: 'humidity', event: 'sensor.humidityChanged', read: s => s.humidity },
+  { property: 'isConnected', event: 'sensor.connectionChanged', read: s => s.isConnected },
+  { property: 'isActive', event: 'sensor.activeChanged', read: s => s.isActive },
+  {
+    property: 'batteryStatus',
+    event: 'sensor.batteryLow',
+    read: s => s.batteryStatus,
+    // Only report a worsening battery, not recoveries or unknown readings
+    triggers: (oldValue, newValue) => {
+      const oldSeverity = BATTERY_SEVERITY[String(oldValue)] ?? 0;
+      const newSeverity = BATTERY_SEVERITY[String(newValue)] ?? 0;
+      return newSeverity > 0 && newSeverity > oldSeverity;
+    }
+  }
+];
+
+export class ChangeDetector {
+  /**
+   * Capture watched property values for all devices
+   */
+  public static capture(thermostats: Iterable<ITraneThermostat>): DeviceSnapshot {
+    const snapshot: DeviceSnapshot = {
+      thermostats: new Map(),
+      zones: new Map(),
+      sensors: new Map()
+    };
+
+    for (const thermostat of thermostats) {
+      snapshot.thermostats.set(thermostat.id, this.readValues(thermostat, THERMOSTAT_PROPERTIES));
+
+      for (const zone of thermostat.zones) {
+        snapshot.zones.set(this.zoneKey(thermostat, zone), this.readValues(zone, ZONE_PROPERTIES));
+
+        for (const sensor of zone.sensors) {
+          snapshot.sensors.set(this.sensorKey(thermostat, zone, sensor), this.readValues(sensor, SENSOR_PROPERTIES));
+        }
+      }
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Compare a previous snapshot against the current devices
+   * Devices that did not exist in the snapshot produce no change events
+   */
+  public static diff(previous: DeviceSnapshot, thermostats: Iterable<ITraneThermostat>): DeviceChangeEvent[] {
+    const changes: DeviceChangeEvent[] = [];
+    const timestamp = new Date();
+
+    for (const thermostat of thermostats) {
+      const base = { timestamp, thermostatId: thermostat.id };
+
+      const thermostatValues = previous.thermostats.get(thermostat.id);
+      for (const change of this.compare(thermostatValues, thermostat, THERMOSTAT_PROPERTIES)) {
+        changes.push({ ...base, ...change, deviceType: 'thermostat', deviceId: thermostat.id, device: thermostat });
+      }
+
+      for (const zone of thermostat.zones) {
+        const zoneValues = previous.zones.get(this.zoneKey(thermostat, zone));
+        for (const change of this.compare(zoneValues, zone, ZONE_PROPERTIES)) {
+          changes.push({ ...base, ...change, deviceType: 'zone', deviceId: zone.id, zoneId: zone.id, device: zone });
+        }
+
+        for (const sensor of zone.sensors) {
+          const sensorValues = previous.sensors.get(this.sensorKey(thermostat, zone, sensor));
+          for (const change of this.compare(sensorValues, sensor, SENSOR_PROPERTIES)) {
+            changes.push({
+              ...base,
+              ...change,
+              deviceType: 'sensor',
+              deviceId: String(sensor.id),
+              zoneId: zone.id,
+              device: sensor
+            });
+          }
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  private static readValues<T>(device: T, properties: WatchedProperty<T>[]): PropertyValues {
+    const values: PropertyValues = new Map();
+    for (const watched of properties) {
+      values.set(watched.property, watched.read(device));
+    }
+    return values;
+  }
+
+  private static compare<T>(
+    previousValues: PropertyValues | undefined,
+    device: T,
+    properties: WatchedProperty<T>[]
+  ): PropertyChange[] {
+    if (!previousValues) {
+      return [];
+    }
+
+    const changes: PropertyChange[] = [];
+
+    for (const watched of properties) {
+      const oldValue = previousValues.get(watched.property);
+      const newValue = watched.read(device);
+
+      if (Object.is(oldValue, newValue)) {
+        continue;
+      }
+
+      if (watched.triggers && !watched.triggers(oldValue, newValue)) {
+        continue;
+      }
+
+      changes.push({ type: watched.event, property: watched.property, oldValue, newValue });
+    }
+
+    return changes;
+  }
+
+  private static zoneKey(thermostat: ITraneThermostat, zone: ITraneZone): string {
+    return `${thermostat.id}/${zone.id}`;
+  }
+
+  private static sensorKey(thermostat: ITraneThermostat, zone: ITraneZone, sensor: ITraneSensor): string {
+    return `${thermostat.id}/${zone.id}/${sensor.id}`;
+  }
+}
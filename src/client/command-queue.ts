@@ -0,0 +1,202 @@
+/**
+ * Per-device command queue
+ * Coalesces rapid writes to the same endpoint, sends them one at a time and
+ * confirms each batch with shared refreshes
+ * A batch is confirmed in the background, so writes queued meanwhile are sent
+ * without waiting for it; a later write to an endpoint that is still being
+ * confirmed takes over the keys it overwrites
+ */
+
+import { WriteConfirmer, WriteHandle, PendingWrite, WriteRequest } from './write-confirmer';
+
+// A caller waiting on a write that may since have been merged into a later one
+interface Waiter {
+  sent: () => void;
+  confirm: (state: unknown) => void;
+  fail: (error: unknown) => void;
+}
+
+// Applied-check of one write, with the payload keys it still owns
+interface QueuedCheck {
+  keys: string[];
+  isApplied: (keys: string[]) => boolean;
+}
+
+interface QueuedCommand {
+  request: WriteRequest;
+  description: string;
+  checks: QueuedCheck[];
+  read: () => unknown;
+  waiters: Waiter[];
+}
+
+export class CommandQueue {
+  private readonly send: (request: WriteRequest) => Promise<unknown>;
+  private readonly confirmer: WriteConfirmer;
+  private readonly houseId?: number;
+  private readonly queued: Map<string, QueuedCommand> = new Map();
+  private readonly confirming: Map<string, QueuedCommand> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: boolean = false;
+
+  constructor(
+    send: (request: WriteRequest) => Promise<unknown>,
+    confirmer: WriteConfirmer,
+    houseId?: number
+  ) {
+    this.send = send;
+    this.confirmer = confirmer;
+    this.houseId = houseId;
+  }
+
+  /**
+   * Number of writes waiting to be sent
+   */
+  public get size(): number {
+    return this.queued.size;
+  }
+
+  /**
+   * Queue a write; a queued write to the same endpoint absorbs it
+   */
+  public enqueue<T>(write: PendingWrite<T>): WriteHandle<T> {
+    let resolveSent!: () => void;
+    let rejectSent!: (error: unknown) => void;
+    let resolveConfirmed!: (state: T) => void;
+    let rejectConfirmed!: (error: unknown) => void;
+
+    const sent = new Promise<void>((resolve, reject) => {
+      resolveSent = resolve;
+      rejectSent = reject;
+    });
+    const confirmed = new Promise<T>((resolve, reject) => {
+      resolveConfirmed = resolve;
+      rejectConfirmed = reject;
+    });
+
+    const waiter: Waiter = {
+      sent: resolveSent,
+      confirm: (state) => resolveConfirmed(state as T),
+      fail: (error) => {
+        rejectSent(error);
+        rejectConfirmed(error);
+      }
+    };
+
+    write.prepare().then(
+      (request) => this.add(write, request, waiter),
+      (error) => waiter.fail(error)
+    );
+
+    return new WriteHandle(write.description, sent, confirmed);
+  }
+
+  private add<T>(write: PendingWrite<T>, request: WriteRequest, waiter: Waiter): void {
+    const keys = Object.keys(request.payload);
+    const check: QueuedCheck = { keys, isApplied: write.isApplied };
+    const existing = this.queued.get(request.endpoint);
+
+    if (existing) {
+      // Later values win; earlier checks keep only the keys that were not overwritten
+      existing.request.payload = { ...existing.request.payload, ...request.payload };
+      existing.checks = CommandQueue.without(existing.checks, keys).concat(check);
+      existing.description = write.description;
+      existing.read = write.read;
+      existing.waiters.push(waiter);
+    } else {
+      this.queued.set(request.endpoint, {
+        request: { ...request, payload: { ...request.payload } },
+        description: write.description,
+        checks: [check],
+        read: write.read,
+        waiters: [waiter]
+      });
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Restart the debounce timer; writes queued while sending join the next batch
+   */
+  private schedule(): void {
+    if (this.flushing) {
+      return;
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.confirmer.debounce);
+  }
+
+  private async flush(): Promise<void> {
+    this.flushing = true;
+
+    try {
+      while (this.queued.size > 0) {
+        const batch = Array.from(this.queued.values());
+        this.queued.clear();
+
+        const sent: QueuedCommand[] = [];
+        for (const command of batch) {
+          try {
+            await this.send(command.request);
+            command.waiters.forEach(waiter => waiter.sent());
+            this.supersede(command);
+            sent.push(command);
+          } catch (error) {
+            command.waiters.forEach(waiter => waiter.fail(error));
+          }
+        }
+
+        void this.confirmer.confirm(this.houseId, sent.map(command => ({
+          description: command.description,
+          isApplied: () => command.checks.every(check => check.isApplied(check.keys)),
+          resolve: () => {
+            this.settle(command);
+            const state = command.read();
+            command.waiters.forEach(waiter => waiter.confirm(state));
+          },
+          reject: (error) => {
+            this.settle(command);
+            command.waiters.forEach(waiter => waiter.fail(error));
+          }
+        })));
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * Track a sent command, taking the overwritten keys from the one still confirming its endpoint
+   */
+  private supersede(command: QueuedCommand): void {
+    const endpoint = command.request.endpoint;
+    const previous = this.confirming.get(endpoint);
+    if (previous) {
+      previous.checks = CommandQueue.without(previous.checks, Object.keys(command.request.payload));
+    }
+    this.confirming.set(endpoint, command);
+  }
+
+  private settle(command: QueuedCommand): void {
+    const endpoint = command.request.endpoint;
+    if (this.confirming.get(endpoint) === command) {
+      this.confirming.delete(endpoint);
+    }
+  }
+
+  /**
+   * Checks with the given keys removed; checks left without keys are dropped
+   */
+  private static without(checks: QueuedCheck[], keys: string[]): QueuedCheck[] {
+    return checks
+      .map(check => ({ ...check, keys: check.keys.filter(key => !keys.includes(key)) }))
+      .filter(check => check.keys.length > 0);
+  }
+}
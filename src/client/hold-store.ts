@@ -0,0 +1,88 @@
+/**
+ * Timed hold storage
+ * Persist the end times of timed holds so a restarted process still resumes the schedule
+ */
+
+import { promises as fs } from 'fs';
+import { join, dirname, basename, extname } from 'path';
+import { getDefaultStateFilePath } from './session-store';
+
+/**
+ * A zone held until a set time, after which the client returns it to its schedule
+ */
+export interface TimedHold {
+  zoneId: string;
+  thermostatId: string;
+  houseId?: number;
+  endTime: string; // ISO 8601
+}
+
+/**
+ * Storage for timed holds; implement this to keep them somewhere else
+ */
+export interface HoldStore {
+  /**
+   * Load the saved holds (empty if nothing has been saved yet)
+   */
+  load(): Promise<TimedHold[]>;
+
+  /**
+   * Replace the saved holds
+   */
+  save(holds: TimedHold[]): Promise<void>;
+}
+
+/**
+ * Default location of the hold file: next to the auth state file
+ * (e.g. ~/.trane/auth-state.json -> ~/.trane/auth-state.holds.json)
+ */
+export function getDefaultHoldFilePath(stateFile: string = getDefaultStateFilePath()): string {
+  return join(dirname(stateFile), `${basename(stateFile, extname(stateFile))}.holds.json`);
+}
+
+/**
+ * Plain JSON file store (the default)
+ */
+export class FileHoldStore implements HoldStore {
+  public readonly filePath: string;
+
+  constructor(filePath: string = getDefaultHoldFilePath()) {
+    this.filePath = filePath;
+  }
+
+  public async load(): Promise<TimedHold[]> {
+    try {
+      const holds = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      return Array.isArray(holds) ? holds as TimedHold[] : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  public async save(holds: TimedHold[]): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(holds, null, 2), 'utf8');
+  }
+}
+
+/**
+ * In-memory store; holds are forgotten when the process exits
+ */
+export class MemoryHoldStore implements HoldStore {
+  private holds: TimedHold[];
+
+  constructor(initialHolds: TimedHold[] = []) {
+    this.holds = initialHolds.map(hold => ({ ...hold }));
+  }
+
+  public async load(): Promise<TimedHold[]> {
+    return this.holds.map(hold => ({ ...hold }));
+  }
+
+  public async save(holds: TimedHold[]): Promise<void> {
+    this.holds = holds.map(hold => ({ ...hold }));
+  }
+}
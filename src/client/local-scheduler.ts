@@ -0,0 +1,253 @@
+/**
+ * Local scheduler
+ * Drives zone setpoints from weekly plans kept by this library instead of the
+ * thermostat's own schedule: at each transition the zone is held at the new
+ * period's setpoints. Transitions follow the plan's time zone, including DST changes
+ */
+
+import { ScheduleDay, SchedulePeriod } from '../types/api';
+import { ITraneZone } from '../types/interfaces';
+import { LOCAL_SCHEDULER_DEFAULTS, Weekday } from '../types/constants';
+import { ZoneSchedule } from '../devices/zone-schedule';
+import { FileSchedulerStore, SchedulerState, SchedulerStore } from './scheduler-store';
+import type { TraneClient } from './trane-client';
+import { TimeZoneUtils } from '../utils/time-zone';
+import { GeneralValidator, TraneValidator } from '../utils/validation';
+import { DeviceNotFoundError, ValidationError } from '../utils/errors';
+
+/**
+ * Weekly plan for one zone
+ */
+export interface LocalSchedulePlan {
+  zoneId: string;
+  houseId?: number; // Defaults to the client's default house
+  timeZone?: string; // IANA name, e.g. "America/Denver"; defaults to the system time zone
+  schedule: ZoneSchedule | ScheduleDay[];
+}
+
+export interface LocalSchedulerOptions {
+  plans: LocalSchedulePlan[];
+  store?: SchedulerStore; // Defaults to a FileSchedulerStore
+}
+
+/**
+ * Where a zone's plan stands at a given time
+ */
+export interface LocalScheduleStatus {
+  zoneId: string;
+  timeZone: string;
+  period: SchedulePeriod | null; // Null if the plan has no periods before now
+  startedAt: Date | null;
+  nextPeriod: SchedulePeriod;
+  nextTransition: Date;
+}
+
+interface Transition {
+  at: number;
+  period: SchedulePeriod;
+}
+
+interface ActivePlan {
+  zoneId: string;
+  houseId?: number;
+  timeZone: string;
+  schedule: ZoneSchedule;
+  timer: NodeJS.Timeout | null;
+}
+
+const WEEKDAYS = Object.values(Weekday);
+
+export class LocalScheduler {
+  private readonly client: TraneClient;
+  private readonly store: SchedulerStore;
+  private readonly plans: Map<string, ActivePlan> = new Map();
+  private state: SchedulerState = {};
+  private running: boolean = false;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(client: TraneClient, options: LocalSchedulerOptions) {
+    this.client = client;
+    this.store = options.store ?? new FileSchedulerStore();
+
+    for (const plan of options.plans) {
+      const zoneId = GeneralValidator.validateRequiredString(plan.zoneId, 'zoneId');
+      if (this.plans.has(zoneId)) {
+        throw new ValidationError(`Zone ${zoneId} has more than one plan`, 'zoneId', zoneId);
+      }
+
+      const schedule = plan.schedule instanceof ZoneSchedule ? plan.schedule : new ZoneSchedule(plan.schedule);
+      if (schedule.days.every(day => day.periods.length === 0)) {
+        throw new ValidationError(`The plan for zone ${zoneId} has no periods`, 'schedule');
+      }
+
+      this.plans.set(zoneId, {
+        zoneId,
+        houseId: plan.houseId,
+        timeZone: TimeZoneUtils.validateTimeZone(plan.timeZone ?? TimeZoneUtils.systemTimeZone()),
+        schedule,
+        timer: null
+      });
+    }
+  }
+
+  public get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Validate the plans against their zones and start applying them
+   * A zone that missed transitions while the scheduler was stopped gets the current period right away
+   */
+  public async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    for (const plan of this.plans.values()) {
+      const zone = await this.findZone(plan);
+      TraneValidator.validateSchedule({
+        days: plan.schedule.days,
+        deadband: zone.thermostat.deadband,
+        unit: zone.thermostat.temperatureUnit,
+        limits: zone.setpointLimits
+      });
+    }
+
+    this.state = await this.store.load();
+    this.running = true;
+
+    for (const plan of this.plans.values()) {
+      await this.tick(plan);
+    }
+  }
+
+  /**
+   * Stop applying plans; zones keep their current hold
+   */
+  public stop(): void {
+    this.running = false;
+    for (const plan of this.plans.values()) {
+      if (plan.timer) {
+        clearTimeout(plan.timer);
+        plan.timer = null;
+      }
+    }
+  }
+
+  /**
+   * Current and next period of each plan
+   */
+  public getStatus(now: Date = new Date()): LocalScheduleStatus[] {
+    return Array.from(this.plans.values()).map(plan => {
+      const { current, next } = this.transitionsAt(plan, now.getTime());
+      return {
+        zoneId: plan.zoneId,
+        timeZone: plan.timeZone,
+        period: current?.period ?? null,
+        startedAt: current ? new Date(current.at) : null,
+        nextPeriod: next.period,
+        nextTransition: new Date(next.at)
+      };
+    });
+  }
+
+  /**
+   * Apply the current period if it has not been applied yet, then wait for the next transition
+   */
+  private async tick(plan: ActivePlan): Promise<void> {
+    plan.timer = null;
+
+    const { current, next } = this.transitionsAt(plan, Date.now());
+    let delay = next.at - Date.now();
+
+    if (current && this.state[plan.zoneId]?.at !== new Date(current.at).toISOString()) {
+      try {
+        await this.apply(plan, current);
+      } catch (error) {
+        this.client.logger.warn(`Local schedule failed to update zone ${plan.zoneId}, retrying:`, error);
+        delay = Math.min(delay, LOCAL_SCHEDULER_DEFAULTS.RETRY_MS);
+      }
+    }
+
+    if (this.running) {
+      plan.timer = setTimeout(() => void this.tick(plan), Math.max(0, delay));
+    }
+  }
+
+  private async apply(plan: ActivePlan, transition: Transition): Promise<void> {
+    const zone = await this.findZone(plan);
+    const { period } = transition;
+    const temperatures = { heatingSetpoint: period.heatingSetpoint, coolingSetpoint: period.coolingSetpoint };
+
+    this.client.logger.info(
+      `Local schedule: zone ${zone.name} -> ${period.name} (heat ${period.heatingSetpoint}, cool ${period.coolingSetpoint})`
+    );
+
+    // Hold so the thermostat's own schedule does not take over again
+    if (zone.isInPermanentHold) {
+      await zone.setTemperatures(temperatures);
+    } else {
+      await zone.setPermanentHold({ temperatures });
+    }
+
+    this.state[plan.zoneId] = { at: new Date(transition.at).toISOString(), period: period.name };
+    await this.persist();
+  }
+
+  /**
+   * The latest transition at or before now, and the first one after it
+   */
+  private transitionsAt(plan: ActivePlan, now: number): { current: Transition | null; next: Transition } {
+    const today = TimeZoneUtils.toZonedTime(now, plan.timeZone);
+    const todayIndex = WEEKDAYS.indexOf(today.weekday);
+    const transitions: Transition[] = [];
+
+    // A week either side always contains the previous and next transition
+    for (let offset = -7; offset <= 7; offset++) {
+      const date = TimeZoneUtils.addDays(today, offset);
+      const weekday = WEEKDAYS[(((todayIndex + offset) % 7) + 7) % 7]!;
+
+      for (const period of plan.schedule.getPeriods(weekday)) {
+        const [hour, minute] = period.startTime.split(':').map(Number);
+        transitions.push({
+          at: TimeZoneUtils.fromZonedTime({ ...date, hour: hour!, minute: minute! }, plan.timeZone),
+          period
+        });
+      }
+    }
+
+    transitions.sort((a, b) => a.at - b.at);
+    const nextIndex = transitions.findIndex(transition => transition.at > now);
+
+    return {
+      current: nextIndex > 0 ? transitions[nextIndex - 1]! : null,
+      next: transitions[nextIndex]!
+    };
+  }
+
+  private async findZone(plan: ActivePlan): Promise<ITraneZone> {
+    const thermostats = plan.houseId !== undefined
+      ? await this.client.house(plan.houseId).getThermostats()
+      : await this.client.getThermostats();
+
+    for (const thermostat of thermostats) {
+      const zone = thermostat.getZoneById(plan.zoneId);
+      if (zone) {
+        return zone;
+      }
+    }
+
+    throw new DeviceNotFoundError(`Zone ${plan.zoneId} not found for local schedule`, plan.zoneId, 'zone');
+  }
+
+  /**
+   * Save the state; saves run one after another so the last one wins
+   */
+  private persist(): Promise<void> {
+    const state = { ...this.state };
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => this.store.save(state));
+    return this.saving;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Background poller for TraneClient
+ * Runs a poll callback on a fixed interval with exponential backoff on failure
+ */
+
+import { PollingOptions } from '../types/api';
+import { POLLING_DEFAULTS } from '../types/constants';
+import { GeneralValidator } from '../utils/validation';
+
+export interface PollerCallbacks {
+  poll: () => Promise<void>;
+  onSuccess: () => void;
+  onFailure: (error: unknown, nextDelayMs: number) => void;
+}
+
+export class Poller {
+  private readonly callbacks: PollerCallbacks;
+  private readonly options: Required<PollingOptions>;
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  private inFlight: boolean = false;
+  private failures: number = 0;
+
+  constructor(callbacks: PollerCallbacks, options: PollingOptions = {}) {
+    this.callbacks = callbacks;
+    this.options = Poller.resolveOptions(options);
+  }
+
+  /**
+   * Start polling; a no-op if already running
+   */
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.failures = 0;
+    this.schedule(this.options.immediate ? 0 : this.options.interval);
+  }
+
+  /**
+   * Stop polling and cancel any pending poll
+   */
+  public stop(): void {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public get isRunning(): boolean {
+    return this.running;
+  }
+
+  public get consecutiveFailures(): number {
+    return this.failures;
+  }
+
+  /**
+   * Delay before the next poll given the current failure count
+   */
+  public get currentDelay(): number {
+    const { interval, maxInterval, backoffMultiplier } = this.options;
+    if (this.failures === 0) {
+      return interval;
+    }
+
+    return Math.min(interval * Math.pow(backoffMultiplier, this.failures), maxInterval);
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.tick();
+    }, delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    // Skip overlapping polls if a slow request is still outstanding
+    if (this.inFlight || !this.running) {
+      return;
+    }
+
+    this.inFlight = true;
+
+    try {
+      await this.callbacks.poll();
+      this.failures = 0;
+
+      if (this.running) {
+        this.callbacks.onSuccess();
+      }
+    } catch (error) {
+      this.failures++;
+
+      if (this.running) {
+        this.callbacks.onFailure(error, this.currentDelay);
+      }
+    } finally {
+      this.inFlight = false;
+    }
+
+    this.schedule(this.currentDelay);
+  }
+
+  /**
+   * Apply defaults and validate polling options
+   */
+  private static resolveOptions(options: PollingOptions): Required<PollingOptions> {
+    const interval = GeneralValidator.validateOptional(
+      options.interval,
+      (value) => GeneralValidator.validateNumberRange(value, 1000, Number.MAX_SAFE_INTEGER, 'interval'),
+      POLLING_DEFAULTS.INTERVAL_MS
+    );
+
+    const maxInterval = GeneralValidator.validateOptional(
+      options.maxInterval,
+      (value) => GeneralValidator.validateNumberRange(value, interval, Number.MAX_SAFE_INTEGER, 'maxInterval'),
+      Math.max(interval, POLLING_DEFAULTS.MAX_INTERVAL_MS)
+    );
+
+    const backoffMultiplier = GeneralValidator.validateOptional(
+      options.backoffMultiplier,
+      (value) => GeneralValidator.validateNumberRange(value, 1, 10, 'backoffMultiplier'),
+      POLLING_DEFAULTS.BACKOFF_MULTIPLIER
+    );
+
+    return {
+      interval,
+      maxInterval,
+      backoffMultiplier,
+      immediate: options.immediate ?? false
+    };
+  }
+}
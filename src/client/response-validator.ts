@@ -0,0 +1,47 @@
+/**
+ * Response validator
+ * Checks API responses against their schemas where they enter the client. In strict mode a
+ * mismatch is a ParseError; in lenient mode it is logged once and the response used as is,
+ * so changes to the API show up in the logs before they break anything
+ */
+
+import { ResponseValidationMode } from '../types/api';
+import { ILogger } from '../types/interfaces';
+import { Schema, Schemas } from '../utils/schema';
+import { ParseError } from '../utils/errors';
+
+export class ResponseValidator {
+  public readonly mode: ResponseValidationMode;
+  private readonly logger: ILogger;
+  private readonly reported: Set<string> = new Set();
+
+  constructor(mode: ResponseValidationMode, logger: ILogger) {
+    this.mode = mode;
+    this.logger = logger;
+  }
+
+  /**
+   * Check a response; returns it typed if it matches (or in lenient mode)
+   * @param name Response name for messages, e.g. "house"
+   */
+  public validate<T>(data: unknown, schema: Schema, name: string): T {
+    const issues = Schemas.check(data, schema);
+    if (issues.length === 0) {
+      return data as T;
+    }
+
+    if (this.mode === 'strict') {
+      const [issue] = issues;
+      throw new ParseError(`Unexpected ${name} response at ${issue!.path}: ${issue!.message}`, data, issue!.path);
+    }
+
+    for (const issue of issues) {
+      const key = `${name} ${issue.path} ${issue.message}`;
+      if (!this.reported.has(key)) {
+        this.reported.add(key);
+        this.logger.warn(`API drift in ${name} response at ${issue.path}: ${issue.message}`);
+      }
+    }
+    return data as T;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Local scheduler storage
+ * Persist which schedule transition was last applied to each zone, so a restarted
+ * scheduler knows which transitions it missed
+ */
+
+import { promises as fs } from 'fs';
+import { join, dirname } from 'path';
+import { getDefaultStateFilePath } from './session-store';
+
+/**
+ * Last transition applied to a zone
+ */
+export interface AppliedTransition {
+  at: string; // ISO 8601 instant the period started
+  period: string; // Period name
+}
+
+/**
+ * Scheduler state by zone id
+ */
+export type SchedulerState = Record<string, AppliedTransition>;
+
+/**
+ * Storage for the scheduler state; implement this to keep it somewhere else
+ */
+export interface SchedulerStore {
+  /**
+   * Load the saved state (empty if nothing has been saved yet)
+   */
+  load(): Promise<SchedulerState>;
+
+  /**
+   * Replace the saved state
+   */
+  save(state: SchedulerState): Promise<void>;
+}
+
+/**
+ * Default location of the scheduler state file, next to the default auth state file
+ */
+export function getDefaultSchedulerFilePath(): string {
+  return join(dirname(getDefaultStateFilePath()), 'scheduler-state.json');
+}
+
+/**
+ * Plain JSON file store (the default)
+ */
+export class FileSchedulerStore implements SchedulerStore {
+  public readonly filePath: string;
+
+  constructor(filePath: string = getDefaultSchedulerFilePath()) {
+    this.filePath = filePath;
+  }
+
+  public async load(): Promise<SchedulerState> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8')) as SchedulerState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  public async save(state: SchedulerState): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(state, null, 2), 'utf8');
+  }
+}
+
+/**
+ * In-memory store; the scheduler starts from scratch in each process
+ */
+export class MemorySchedulerStore implements SchedulerStore {
+  private state: SchedulerState;
+
+  constructor(initialState: SchedulerState = {}) {
+    this.state = { ...initialState };
+  }
+
+  public async load(): Promise<SchedulerState> {
+    return { ...this.state };
+  }
+
+  public async save(state: SchedulerState): Promise<void> {
+    this.state = { ...state };
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Session storage backends
+ * Persist the auth state (device UUID, API key, mobile ID) between runs
+ */
+
+import { promises as fs } from 'fs';
+import { join, dirname } from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import type { AuthState } from './auth';
+import { ConfigurationError } from '../utils/errors';
+
+/**
+ * Storage for the auth state; implement this to keep sessions somewhere else
+ * (e.g. the Homebridge storage path or a secrets vault)
+ */
+export interface SessionStore {
+  /**
+   * Load the saved state, or null if nothing has been saved yet
+   */
+  load(): Promise<AuthState | null>;
+
+  /**
+   * Replace the saved state
+   */
+  save(state: AuthState): Promise<void>;
+}
+
+/**
+ * Default location of the auth state file
+ */
+export function getDefaultStateFilePath(): string {
+  // Default to user's home directory or current working directory
+  const homeDir = process.env['HOME'] || process.env['USERPROFILE'] || process.cwd();
+  return join(homeDir, '.trane', 'auth-state.json');
+}
+
+/**
+ * Plain JSON file store (the default)
+ */
+export class FileSessionStore implements SessionStore {
+  public readonly filePath: string;
+
+  constructor(filePath: string = getDefaultStateFilePath()) {
+    this.filePath = filePath;
+  }
+
+  public async load(): Promise<AuthState | null> {
+    const contents = await this.read();
+    return contents === null ? null : JSON.parse(contents) as AuthState;
+  }
+
+  public async save(state: AuthState): Promise<void> {
+    await this.write(JSON.stringify(state, null, 2));
+  }
+
+  protected async read(): Promise<string | null> {
+    try {
+      return await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  protected async write(contents: string): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    // The state holds the API key, so keep it readable by the owner only
+    await fs.writeFile(this.filePath, contents, { encoding: 'utf8', mode: 0o600 });
+  }
+}
+
+/**
+ * In-memory store; sessions last only as long as the process
+ */
+export class MemorySessionStore implements SessionStore {
+  private state: AuthState | null;
+
+  constructor(initialState?: AuthState) {
+    this.state = initialState ? { ...initialState } : null;
+  }
+
+  public async load(): Promise<AuthState | null> {
+    return this.state ? { ...this.state } : null;
+  }
+
+  public async save(state: AuthState): Promise<void> {
+    this.state = { ...state };
+  }
+}
+
+interface EncryptedStateFile {
+  version: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const ENCRYPTION_VERSION = 1;
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+
+/**
+ * File store encrypted with AES-256-GCM, using a key derived from a passphrase (scrypt)
+ * A plaintext state file at the same path is encrypted in place when loaded, and a file
+ * that cannot be read is copied aside (e.g. auth-state.json.1700000000000.bak) before
+ * the first save overwrites it
+ */
+export class EncryptedFileSessionStore extends FileSessionStore {
+  private readonly passphrase: string;
+  private checked: boolean = false; // The file has been read, or written by this store
+
+  constructor(passphrase: string, filePath?: string) {
+    super(filePath);
+
+    if (!passphrase) {
+      throw new ConfigurationError('A passphrase is required for encrypted session storage');
+    }
+    this.passphrase = passphrase;
+  }
+
+  public override async load(): Promise<AuthState | null> {
+    const contents = await this.read();
+    if (contents === null) {
+      return null;
+    }
+
+    const file = JSON.parse(contents) as EncryptedStateFile | AuthState;
+    if (EncryptedFileSessionStore.isPlaintext(file)) {
+      // Written before encryption was turned on
+      this.checked = true;
+      await this.save(file);
+      return file;
+    }
+
+    if (file.version !== ENCRYPTION_VERSION || !file.salt || !file.iv || !file.tag || !file.data) {
+      throw new ConfigurationError(`Unrecognized encrypted session file: ${this.filePath}`);
+    }
+
+    const key = await this.deriveKey(Buffer.from(file.salt, 'base64'));
+    const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, key, Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+
+    let plaintext: string;
+    try {
+      plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final()
+      ]).toString('utf8');
+    } catch {
+      throw new ConfigurationError(`Cannot decrypt session file ${this.filePath}: wrong passphrase or corrupted file`);
+    }
+
+    this.checked = true;
+    return JSON.parse(plaintext) as AuthState;
+  }
+
+  public override async save(state: AuthState): Promise<void> {
+    if (!this.checked) {
+      await this.backUpUnreadable();
+    }
+
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = await this.deriveKey(salt);
+
+    const cipher = createCipheriv(ENCRYPTION_ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(state), 'utf8'), cipher.final()]);
+
+    const file: EncryptedStateFile = {
+      version: ENCRYPTION_VERSION,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+    await this.write(JSON.stringify(file, null, 2));
+    this.checked = true;
+  }
+
+  /**
+   * Copy the file aside if this store cannot read it, so saving does not destroy it
+   */
+  private async backUpUnreadable(): Promise<void> {
+    try {
+      await this.load();
+    } catch {
+      await fs.copyFile(this.filePath, `${this.filePath}.${Date.now()}.bak`);
+    }
+    this.checked = true;
+  }
+
+  private deriveKey(salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      scrypt(this.passphrase, salt, 32, (error, key) => (error ? reject(error) : resolve(key)));
+    });
+  }
+
+  private static isPlaintext(file: EncryptedStateFile | AuthState): file is AuthState {
+    return !('version' in file) && typeof (file as AuthState).deviceUuid === 'string';
+  }
+}
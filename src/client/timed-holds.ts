@@ -0,0 +1,175 @@
+/**
+ * Timed holds
+ * Tracks zones held until a set time and returns them to their schedule when it passes,
+ * including holds that expired while the process was not running
+ */
+
+import { HoldStore, TimedHold } from './hold-store';
+import { TIMED_HOLD_DEFAULTS } from '../types/constants';
+import { ILogger } from '../types/interfaces';
+
+interface ScheduledHold {
+  hold: TimedHold;
+  timer: NodeJS.Timeout | null;
+  seen: boolean; // The zone has been seen in the hold since it was set
+}
+
+export class TimedHolds {
+  private readonly store: HoldStore;
+  private readonly logger: ILogger;
+  private readonly resume: (hold: TimedHold) => Promise<void>;
+  private readonly holds: Map<string, ScheduledHold> = new Map();
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(store: HoldStore, logger: ILogger, resume: (hold: TimedHold) => Promise<void>) {
+    this.store = store;
+    this.logger = logger;
+    this.resume = resume;
+  }
+
+  /**
+   * Load saved holds once and schedule them; expired ones resume right away
+   */
+  public load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.store.load().then(
+        (holds) => {
+          for (const hold of holds) {
+            if (!this.holds.has(hold.zoneId)) {
+              this.schedule(hold);
+            }
+          }
+        },
+        (error) => {
+          this.logger.warn('Failed to load timed holds:', error);
+        }
+      );
+    }
+    return this.loading;
+  }
+
+  /**
+   * When a zone's timed hold ends, or null if it is not in one
+   */
+  public endTime(zoneId: string): Date | null {
+    const scheduled = this.holds.get(zoneId);
+    return scheduled ? new Date(scheduled.hold.endTime) : null;
+  }
+
+  /**
+   * Start (or replace) a zone's timed hold
+   */
+  public async set(hold: TimedHold): Promise<void> {
+    this.schedule(hold);
+    await this.persist();
+  }
+
+  /**
+   * Forget a zone's timed hold (e.g. it was resumed or replaced by another kind of hold)
+   */
+  public async clear(zoneId: string): Promise<void> {
+    if (!this.unschedule(zoneId)) {
+      return;
+    }
+    await this.persist();
+  }
+
+  /**
+   * Note whether the device reports a zone in a hold
+   * A timed hold that was seen applied and is no longer (e.g. the schedule was resumed
+   * at the thermostat) is dropped; one not seen yet may still be applied
+   */
+  public async observe(zoneId: string, held: boolean): Promise<void> {
+    const scheduled = this.holds.get(zoneId);
+    if (!scheduled) {
+      return;
+    }
+
+    if (held) {
+      scheduled.seen = true;
+    } else if (scheduled.seen) {
+      this.logger.debug(`Zone ${zoneId} is no longer held; dropping its timed hold`);
+      await this.clear(zoneId);
+    }
+  }
+
+  /**
+   * Cancel the timers; saved holds are picked up again by the next load
+   */
+  public stop(): void {
+    for (const scheduled of this.holds.values()) {
+      if (scheduled.timer) {
+        clearTimeout(scheduled.timer);
+      }
+    }
+    this.holds.clear();
+    this.loading = null;
+  }
+
+  private schedule(hold: TimedHold, delayMs?: number, seen: boolean = false): void {
+    this.unschedule(hold.zoneId);
+
+    // Timers cannot exceed ~24.8 days; longer holds are re-checked when the timer fires
+    const remaining = Math.max(0, new Date(hold.endTime).getTime() - Date.now());
+    const delay = Math.min(delayMs ?? remaining, TIMED_HOLD_DEFAULTS.MAX_TIMER_MS);
+
+    const scheduled: ScheduledHold = { hold, timer: null, seen };
+    scheduled.timer = setTimeout(() => {
+      scheduled.timer = null;
+      void this.expire(scheduled);
+    }, delay);
+    // Holds are persisted, so a pending one must not keep the process alive
+    scheduled.timer.unref();
+
+    this.holds.set(hold.zoneId, scheduled);
+  }
+
+  private unschedule(zoneId: string): boolean {
+    const scheduled = this.holds.get(zoneId);
+    if (!scheduled) {
+      return false;
+    }
+
+    if (scheduled.timer) {
+      clearTimeout(scheduled.timer);
+    }
+    this.holds.delete(zoneId);
+    return true;
+  }
+
+  private async expire(scheduled: ScheduledHold): Promise<void> {
+    const { hold } = scheduled;
+    if (this.holds.get(hold.zoneId) !== scheduled) {
+      return;
+    }
+
+    if (new Date(hold.endTime).getTime() > Date.now()) {
+      this.schedule(hold, undefined, scheduled.seen);
+      return;
+    }
+
+    try {
+      await this.resume(hold);
+      if (this.holds.get(hold.zoneId) === scheduled) {
+        await this.clear(hold.zoneId);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to end timed hold on zone ${hold.zoneId}, retrying:`, error);
+      if (this.holds.get(hold.zoneId) === scheduled) {
+        this.schedule(hold, TIMED_HOLD_DEFAULTS.RETRY_MS, scheduled.seen);
+      }
+    }
+  }
+
+  /**
+   * Save the current holds; saves run one after another so the last one wins
+   */
+  private persist(): Promise<void> {
+    const holds = Array.from(this.holds.values()).map(scheduled => scheduled.hold);
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => this.store.save(holds));
+    return this.saving;
+  }
+}
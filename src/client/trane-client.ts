@@ -4,49 +4,92 @@
  * Replaces the Python TraneHome class functionality
  */
 
-import { BrandType, BRAND_URLS, API_ENDPOINTS, HTTP_STATUS } from '../types/constants';
+import { EventEmitter } from 'events';
+import { BrandType, BRAND_URLS, HTTP_STATUS, VERSION } from '../types/constants';
 import {
   HouseData,
-  ThermostatData,
-  AutomationData,
+  HouseInfo,
   TraneClientConfig,
-  UpdateOptions
+  UpdateOptions,
+  PollingOptions,
+  DiagnosticsReport,
+  ThermostatDiagnostics
 } from '../types/api';
-import { ITraneClient, ITraneThermostat, ITraneAutomation } from '../types/interfaces';
+import {
+  ITraneClient,
+  ITraneHouse,
+  ITraneThermostat,
+  ITraneAutomation,
+  ITraneEventListener,
+  TraneEvent,
+  TraneClientEventMap,
+  DeviceChangeEvent,
+  ILogger
+} from '../types/interfaces';
 import { HttpClient, createHttpClient } from '../utils/http-utils';
+import { HttpRecorder, createReplayAdapter, sanitizeFixture } from '../utils/http-recording';
+import { DiagnosticsLog } from '../utils/diagnostics-log';
 import { AuthManager, AuthConfig } from './auth';
-import { TraneThermostat } from '../devices/trane-thermostat';
-import { TraneAutomation } from '../devices/trane-automation';
+import { Poller } from './poller';
+import { TraneHouse } from './trane-house';
+import { WriteConfirmer, WriteRequest, requestBody } from './write-confirmer';
+import { ResponseValidator } from './response-validator';
+import { HOUSE_DATA_SCHEMA } from '../types/schemas';
+import { CommandQueue } from './command-queue';
+import { FileHoldStore, TimedHold, getDefaultHoldFilePath } from './hold-store';
+import { TimedHolds } from './timed-holds';
 import {
   AuthenticationError,
   SessionExpiredError,
+  ParseError,
   ApiError,
   ErrorHandler
 } from '../utils/errors';
 import { GeneralValidator } from '../utils/validation';
+import { ConsoleLogger } from '../utils/logger';
+import { ResponseNormalizer } from '../devices/response-normalizer';
+
+export class TraneClient extends EventEmitter<TraneClientEventMap> implements ITraneClient {
+  // Shared by the auth manager, HTTP client, houses and devices
+  public readonly logger: ILogger;
+
+  // Zones held until a set time; devices record their timed holds here
+  public readonly timedHolds: TimedHolds;
+
+  // Reads thermostat JSON in any supported response format
+  public readonly normalizer: ResponseNormalizer;
 
-export class TraneClient implements ITraneClient {
   private readonly httpClient: HttpClient;
   private readonly authManager: AuthManager;
   private readonly config: TraneClientConfig;
 
+  // Default house, used when no house is specified
   private _houseId?: number;
-  // House name is stored for potential future use
-  private _houseName?: string;
-  private thermostats: Map<string, ITraneThermostat> = new Map();
-  private automations: Map<string, ITraneAutomation> = new Map();
-  private _lastUpdate: Date | null = null;
+  private readonly houses: Map<number, TraneHouse> = new Map();
   private isInitialized: boolean = false;
+  private poller: Poller | null = null;
+  private connected: boolean = false;
+  private readonly eventListeners: Set<ITraneEventListener> = new Set();
+  private readonly writeConfirmer: WriteConfirmer;
+  private readonly responseValidator: ResponseValidator;
+  private readonly diagnostics: DiagnosticsLog = new DiagnosticsLog();
 
   constructor(config: TraneClientConfig) {
+    super();
     this.config = this.validateConfig(config);
+    this.logger = this.config.logger ?? new ConsoleLogger();
+    this.responseValidator = new ResponseValidator(this.config.responseValidation ?? 'strict', this.logger);
+    this.normalizer = new ResponseNormalizer(this.config.formatAdapters, this.responseValidator);
 
-    // Create HTTP client with brand-specific base URL
-    const baseURL = BRAND_URLS[this.config.brand!];
+    // Create HTTP client with brand-specific (or overridden) base URL
     this.httpClient = createHttpClient({
-      baseURL,
+      baseURL: this.getBaseUrl(),
       timeout: this.config.timeout || 30000,
       retryAttempts: this.config.retryAttempts || 3,
+      logger: this.logger,
+      recorder: this.config.recordFixtures ? new HttpRecorder(this.config.recordFixtures, this.logger) : undefined,
+      adapter: this.config.replayFixtures ? createReplayAdapter(this.config.replayFixtures) : undefined,
+      diagnostics: this.diagnostics,
       headers: {
         'Content-Type': 'application/json'
       }
@@ -59,10 +102,26 @@ export class TraneClient implements ITraneClient {
       brand: this.config.brand!,
       deviceName: this.config.deviceName,
       stateFile: this.config.stateFile,
-      houseId: this.config.houseId
+      statePassphrase: this.config.statePassphrase,
+      sessionStore: this.config.sessionStore,
+      houseId: this.config.houseId,
+      logger: this.logger,
+      responseValidation: this.config.responseValidation
     };
 
     this.authManager = new AuthManager(this.httpClient, authConfig);
+
+    this.writeConfirmer = new WriteConfirmer(
+      (houseId) => this.update({ forceUpdate: true, houseId }),
+      this.logger,
+      this.config.writeConfirmation
+    );
+
+    this.timedHolds = new TimedHolds(
+      this.config.holdStore ?? new FileHoldStore(this.config.holdFile ?? getDefaultHoldFilePath(this.config.stateFile)),
+      this.logger,
+      (hold) => this.endTimedHold(hold)
+    );
   }
 
   /**
@@ -78,8 +137,16 @@ export class TraneClient implements ITraneClient {
     // Auto-authenticate if no valid session exists
     if (!this.authManager.isSessionValid()) {
       await this.login();
+    } else if (!this._houseId) {
+      // Session restored from saved state; resolve the house without signing in again
+      this.setDefaultHouse(await this.authManager.getSessionInfo());
+
+      await this.update({ forceUpdate: true });
     }
 
+    // Devices are loaded now, so holds that expired while we were not running can resume
+    await this.timedHolds.load();
+
     this.isInitialized = true;
   }
 
@@ -91,20 +158,19 @@ export class TraneClient implements ITraneClient {
       await this.authManager.authenticate();
 
       // Get session info to determine house ID
-      const sessionInfo = await this.authManager.getSessionInfo();
-      this._houseId = sessionInfo.houseId;
-      this._houseName = sessionInfo.houseName;
+      this.setDefaultHouse(await this.authManager.getSessionInfo());
 
       // Perform initial data load
       await this.update({ forceUpdate: true });
 
     } catch (error) {
-      if (error instanceof AuthenticationError) {
-        throw error;
+      // Unexpected responses are not a sign-in problem
+      if (error instanceof AuthenticationError || error instanceof ParseError) {
+        throw this.diagnostics.recordError(error, 'login');
       }
 
       const traneError = ErrorHandler.handle(error);
-      throw new AuthenticationError(`Login failed: ${traneError.message}`);
+      throw this.diagnostics.recordError(new AuthenticationError(`Login failed: ${traneError.message}`), 'login');
     }
   }
 
@@ -112,9 +178,12 @@ export class TraneClient implements ITraneClient {
    * Logout and clear session
    */
   public async logout(): Promise<void> {
+    this.stopPolling();
+    this.timedHolds.stop();
     await this.authManager.logout();
     this.clearDeviceCache();
     this.isInitialized = false;
+    this.setConnected(false);
   }
 
   /**
@@ -125,57 +194,99 @@ export class TraneClient implements ITraneClient {
   }
 
   /**
-   * Get all thermostats
+   * Get all homes available to the account
+   */
+  public async getHouses(): Promise<ITraneHouse[]> {
+    await this.ensureAuthenticated();
+
+    const houses = await this.authManager.listHouses();
+    return houses.map(info => this.registerHouse(info.houseId, info.houseName));
+  }
+
+  /**
+   * Get a house by id; its devices are loaded on first access
+   */
+  public house(houseId: number): ITraneHouse {
+    GeneralValidator.validateRequiredNumber(houseId, 'houseId');
+    return this.houses.get(houseId) ?? this.registerHouse(houseId);
+  }
+
+  /**
+   * Get all thermostats in the default house
    */
   public async getThermostats(): Promise<ITraneThermostat[]> {
     await this.ensureAuthenticated();
-    return Array.from(this.thermostats.values());
+    return this.defaultHouse.getThermostats();
   }
 
   /**
-   * Get all automations
+   * Get all automations in the default house
    */
   public async getAutomations(): Promise<ITraneAutomation[]> {
     await this.ensureAuthenticated();
-    return Array.from(this.automations.values());
+    return this.defaultHouse.getAutomations();
   }
 
   /**
-   * Get thermostat by ID
+   * Get thermostat by ID from any loaded house
    */
   public getThermostatById(id: string): ITraneThermostat | undefined {
-    return this.thermostats.get(id);
+    for (const house of this.houses.values()) {
+      const thermostat = house.getThermostatById(id);
+      if (thermostat) {
+        return thermostat;
+      }
+    }
+    return undefined;
   }
 
   /**
-   * Get automation by ID
+   * Get automation by ID from any loaded house
    */
   public getAutomationById(id: string): ITraneAutomation | undefined {
-    return this.automations.get(id);
+    for (const house of this.houses.values()) {
+      const automation = house.getAutomationById(id);
+      if (automation) {
+        return automation;
+      }
+    }
+    return undefined;
   }
 
   /**
-   * Update all device data from API
+   * Update device data for a house (the default house unless options.houseId is set)
+   * Each house is fetched with its own ETag, so unchanged houses are skipped
    */
   public async update(options: UpdateOptions = {}): Promise<void> {
     await this.ensureAuthenticated();
 
-    if (!this._houseId) {
-      throw new ApiError('House ID not available. Please ensure login was successful.');
-    }
+    const house = options.houseId !== undefined
+      ? this.house(options.houseId) as TraneHouse
+      : this.defaultHouse;
 
     try {
       const { forceUpdate = false } = options;
-      const houseUrl = `${API_ENDPOINTS.HOUSES}/${this._houseId}`;
 
       // Use ETag caching unless forcing update
       const response = forceUpdate
-        ? await this.httpClient.get<HouseData>(houseUrl)
-        : await this.httpClient.getWithETag<HouseData>(houseUrl);
+        ? await this.httpClient.get<unknown>(house.url)
+        : await this.httpClient.getWithETag<unknown>(house.url);
 
       if (!('fromCache' in response) || !response.fromCache || forceUpdate) {
-        await this.processHouseData(response.data);
-        this._lastUpdate = new Date();
+        const houseData = this.responseValidator.validate<HouseData>(response.data, HOUSE_DATA_SCHEMA, 'house');
+        const changes = await house.applyHouseData(houseData);
+        await this.reconcileTimedHolds(house);
+
+        this.emitEvent('update', {
+          data: {
+            houseId: house.id,
+            thermostats: await house.getThermostats()
+          }
+        });
+
+        for (const change of changes) {
+          this.emitChange(change);
+        }
       }
 
     } catch (error) {
@@ -185,10 +296,64 @@ export class TraneClient implements ITraneClient {
         return this.update(options); // Retry once
       }
 
-      throw ErrorHandler.handle(error);
+      throw this.diagnostics.recordError(ErrorHandler.handle(error), `update house ${house.id}`);
     }
   }
 
+  /**
+   * Start polling the API in the background
+   * Emits 'update' when house data changes, 'error' on failed polls and
+   * 'connected'/'disconnected' as the API becomes reachable or unreachable
+   */
+  public startPolling(options: PollingOptions = {}): void {
+    if (this.poller?.isRunning) {
+      return;
+    }
+
+    this.poller = new Poller(
+      {
+        poll: () => this.updateLoadedHouses(),
+        onSuccess: () => this.setConnected(true),
+        onFailure: (error, nextDelayMs) => {
+          const traneError = ErrorHandler.handle(error);
+          this.emitEvent('error', { error: traneError, data: { nextPollInMs: nextDelayMs } });
+          this.setConnected(false);
+        }
+      },
+      { ...this.config.polling, ...options }
+    );
+
+    this.poller.start();
+  }
+
+  /**
+   * Stop background polling
+   */
+  public stopPolling(): void {
+    if (this.poller) {
+      this.poller.stop();
+      this.poller = null;
+    }
+  }
+
+  public get isPolling(): boolean {
+    return this.poller?.isRunning ?? false;
+  }
+
+  /**
+   * Register a listener object for client events
+   */
+  public addEventListener(listener: ITraneEventListener): void {
+    this.eventListeners.add(listener);
+  }
+
+  /**
+   * Remove a previously registered listener object
+   */
+  public removeEventListener(listener: ITraneEventListener): void {
+    this.eventListeners.delete(listener);
+  }
+
   /**
    * Perform GET request with authentication
    */
@@ -205,7 +370,7 @@ export class TraneClient implements ITraneClient {
         const response = await this.httpClient.get<T>(url, { headers });
         return response.data;
       }
-      throw ErrorHandler.handle(error);
+      throw this.diagnostics.recordError(ErrorHandler.handle(error), `GET ${url}`);
     }
   }
 
@@ -225,7 +390,7 @@ export class TraneClient implements ITraneClient {
         const response = await this.httpClient.post<T>(url, data, { headers });
         return response.data;
       }
-      throw ErrorHandler.handle(error);
+      throw this.diagnostics.recordError(ErrorHandler.handle(error), `POST ${url}`);
     }
   }
 
@@ -245,10 +410,20 @@ export class TraneClient implements ITraneClient {
         const response = await this.httpClient.put<T>(url, data, { headers });
         return response.data;
       }
-      throw ErrorHandler.handle(error);
+      throw this.diagnostics.recordError(ErrorHandler.handle(error), `PUT ${url}`);
     }
   }
 
+  /**
+   * Send a device write with the method its action uses
+   */
+  public async send<T>(request: WriteRequest): Promise<T> {
+    const body = requestBody(request);
+    return request.method === 'PUT'
+      ? this.put<T>(request.endpoint, body)
+      : this.post<T>(request.endpoint, body);
+  }
+
   // Getters for configuration and status
   public get brand(): BrandType {
     return this.config.brand!;
@@ -263,21 +438,52 @@ export class TraneClient implements ITraneClient {
   }
 
   public get lastUpdate(): Date | null {
-    return this._lastUpdate;
+    return this._houseId ? this.houses.get(this._houseId)?.lastUpdate ?? null : null;
   }
 
   /**
-   * Get thermostat IDs
+   * Get thermostat IDs in the default house
    */
   public getThermostatIds(): string[] {
-    return Array.from(this.thermostats.keys());
+    return this._houseId ? this.defaultHouse.getThermostatIds() : [];
   }
 
   /**
-   * Get automation IDs
+   * Get automation IDs in the default house
    */
   public getAutomationIds(): string[] {
-    return Array.from(this.automations.keys());
+    return this._houseId ? this.defaultHouse.getAutomationIds() : [];
+  }
+
+  /**
+   * Redacted report of the client's state for bug reports: library version, session state,
+   * every loaded house and device, and the recent errors and request timings
+   * Only devices already loaded are included; nothing is fetched
+   */
+  public getDiagnostics(): DiagnosticsReport {
+    const houses = Array.from(this.houses.values()).map(house => ({
+      id: house.id,
+      name: house.name,
+      isDefault: house.id === this._houseId,
+      lastUpdate: house.lastUpdate?.toISOString() ?? null,
+      thermostats: house.getThermostatIds()
+        .map(id => house.getThermostatById(id))
+        .filter((thermostat): thermostat is ITraneThermostat => thermostat !== undefined)
+        .map(thermostat => this.describeThermostat(thermostat))
+    }));
+
+    // Account details can surface anywhere (house names, error messages), so scrub it all
+    return sanitizeFixture({
+      generatedAt: new Date().toISOString(),
+      version: VERSION,
+      brand: this.brand,
+      baseUrl: this.getBaseUrl(),
+      auth: this.authManager.getStatus(),
+      houses,
+      polling: this.isPolling,
+      recentErrors: this.diagnostics.errors,
+      requests: this.diagnostics.requests
+    });
   }
 
   /**
@@ -300,11 +506,18 @@ export class TraneClient implements ITraneClient {
       BrandType.TRANE
     );
 
+    const baseUrl = GeneralValidator.validateOptional<string | undefined>(
+      config.baseUrl,
+      (url) => GeneralValidator.validateRequiredString(url, 'baseUrl').replace(/\/+$/, ''),
+      undefined
+    );
+
     return {
       ...config,
       username,
       password,
       brand,
+      baseUrl,
       deviceName: config.deviceName || 'Homebridge',
       timeout: config.timeout || 30000,
       retryAttempts: config.retryAttempts || 3
@@ -325,129 +538,96 @@ export class TraneClient implements ITraneClient {
   }
 
   /**
-   * Process house data and update device caches
+   * The house selected by config.houseId (or the first house on the account)
    */
-  private async processHouseData(houseData: HouseData): Promise<void> {
-    if (!houseData.success || !houseData.result) {
-      throw new ApiError('Invalid house data received');
+  private get defaultHouse(): TraneHouse {
+    if (!this._houseId) {
+      throw new ApiError('House ID not available. Please ensure login was successful.');
     }
+    return this.house(this._houseId) as TraneHouse;
+  }
 
-    const result = houseData.result;
-
-    // Clear existing device caches
-    this.clearDeviceCache();
+  /**
+   * Record the default house discovered from the session
+   */
+  private setDefaultHouse(info: HouseInfo): void {
+    this._houseId = info.houseId;
+    this.registerHouse(info.houseId, info.houseName);
+  }
 
-    // Process child devices from _links
-    if (result._links?.child) {
-      for (const childLink of result._links.child) {
-        try {
-          // Handle direct device links (legacy format)
-          if (childLink.type === 'thermostat' || childLink.href.includes('xxl_thermostats')) {
-            await this.processThermostat(childLink);
-          } else if (childLink.type === 'automation' || childLink.href.includes('automation')) {
-            await this.processAutomation(childLink);
-          }
-          // Handle collection format (current API format)
-          // Devices are embedded in data.items
-          else if (childLink.type === 'application/vnd.nexia.collection+json' && childLink.data?.items) {
-            for (const item of childLink.data.items) {
-              try {
-                // Check if item has thermostat features
-                if (this.isThermostatItem(item)) {
-                  const thermostat = new TraneThermostat(this, item);
-                  this.thermostats.set(thermostat.id, thermostat);
-                }
-              } catch (error) {
-                console.warn(`Failed to process device item ${item.id}:`, error);
-              }
-            }
-          }
-        } catch (error) {
-          console.warn(`Failed to process child link:`, error);
-        }
-      }
+  private registerHouse(houseId: number, name?: string): TraneHouse {
+    let house = this.houses.get(houseId);
+    if (!house) {
+      house = new TraneHouse(this, houseId, name);
+      this.houses.set(houseId, house);
     }
+    return house;
+  }
 
-    // Process devices directly if included in house data
-    if (result.devices) {
-      for (const device of result.devices) {
-        try {
-          const thermostat = new TraneThermostat(this, device);
-          this.thermostats.set(thermostat.id, thermostat);
-        } catch (error) {
-          console.warn('Failed to create thermostat from device data:', error);
-        }
-      }
-    }
+  /**
+   * Refresh every house that has been loaded, starting with the default house
+   */
+  private async updateLoadedHouses(): Promise<void> {
+    await this.update();
 
-    // Process automations directly if included
-    if (result.automations) {
-      for (const automation of result.automations) {
-        try {
-          const automationObj = new TraneAutomation(this, automation);
-          this.automations.set(automationObj.id, automationObj);
-        } catch (error) {
-          console.warn('Failed to create automation from data:', error);
-        }
+    for (const house of Array.from(this.houses.values())) {
+      if (house.id !== this._houseId && house.lastUpdate) {
+        await this.update({ houseId: house.id });
       }
     }
   }
 
   /**
-   * Check if a data item represents a thermostat
+   * Forget timed holds on zones that have left their hold (e.g. changed at the thermostat)
+   * A run mode still pending shows the requested value, not the device's, so it is skipped
    */
-  private isThermostatItem(item: any): boolean {
-    if (!item || !item.features) {
-      return false;
+  private async reconcileTimedHolds(house: TraneHouse): Promise<void> {
+    for (const thermostat of await house.getThermostats()) {
+      for (const zone of thermostat.zones) {
+        if (!zone.pendingProperties.includes('isInPermanentHold')) {
+          await this.timedHolds.observe(zone.id, zone.isInPermanentHold);
+        }
+      }
     }
-    // Check for thermostat-specific features
-    return item.features.some((f: any) =>
-      f.name === 'thermostat' ||
-      f.name === 'thermostat_mode' ||
-      f.name === 'advanced_info'
-    );
   }
 
   /**
-   * Process individual thermostat from device link
+   * Return a zone to its schedule once its timed hold has ended
    */
-  private async processThermostat(deviceLink: { href: string; id?: string | number }): Promise<void> {
-    try {
-      // Fetch full thermostat data
-      const thermostatData = await this.get<ThermostatData>(deviceLink.href);
+  private async endTimedHold(hold: TimedHold): Promise<void> {
+    const house = hold.houseId !== undefined ? this.house(hold.houseId) : this.defaultHouse;
+    const thermostat = (await house.getThermostats()).find(candidate => candidate.id === hold.thermostatId);
+    const zone = thermostat?.getZoneById(hold.zoneId);
 
-      // Create thermostat instance
-      const thermostat = new TraneThermostat(this, thermostatData);
-      this.thermostats.set(thermostat.id, thermostat);
-
-    } catch (error) {
-      console.warn(`Failed to load thermostat ${deviceLink.id || 'unknown'}:`, error);
+    if (!zone) {
+      this.logger.warn(`Zone ${hold.zoneId} no longer exists; dropping its timed hold`);
+      return;
     }
-  }
 
-  /**
-   * Process individual automation from device link
-   */
-  private async processAutomation(deviceLink: { href: string; id?: string | number }): Promise<void> {
-    try {
-      // Fetch full automation data
-      const automationData = await this.get<AutomationData>(deviceLink.href);
-
-      // Create automation instance
-      const automation = new TraneAutomation(this, automationData);
-      this.automations.set(automation.id, automation);
+    this.logger.info(`Timed hold on zone ${zone.name} ended; returning to schedule`);
+    await zone.returnToSchedule();
+  }
 
-    } catch (error) {
-      console.warn(`Failed to load automation ${deviceLink.id || 'unknown'}:`, error);
-    }
+  private describeThermostat(thermostat: ITraneThermostat): ThermostatDiagnostics {
+    return {
+      summary: thermostat.getStatusSummary(),
+      dataFormat: thermostat.dataFormat,
+      rawFeatures: thermostat.rawFeatureNames,
+      unmappedFields: thermostat.unmappedFields,
+      zones: thermostat.zones.map(zone => ({
+        summary: zone.getStatusSummary(),
+        sensors: zone.sensors.map(sensor => sensor.getStatusSummary())
+      }))
+    };
   }
 
   /**
    * Clear device caches
    */
   private clearDeviceCache(): void {
-    this.thermostats.clear();
-    this.automations.clear();
+    for (const house of this.houses.values()) {
+      house.clear();
+    }
   }
 
   /**
@@ -465,16 +645,14 @@ export class TraneClient implements ITraneClient {
    * Handle session expiry by refreshing authentication
    */
   private async handleSessionExpiry(): Promise<void> {
-    console.info('Session expired, refreshing authentication...');
+    this.logger.info('Session expired, refreshing authentication...');
 
     try {
       this.authManager.handleSessionExpired();
       await this.authManager.authenticate();
 
       // Get updated session info
-      const sessionInfo = await this.authManager.getSessionInfo();
-      this._houseId = sessionInfo.houseId;
-      this._houseName = sessionInfo.houseName;
+      this.setDefaultHouse(await this.authManager.getSessionInfo());
 
     } catch {
       this.clearDeviceCache();
@@ -482,14 +660,96 @@ export class TraneClient implements ITraneClient {
     }
   }
 
+  /**
+   * Track connectivity and emit 'connected'/'disconnected' on transitions
+   */
+  private setConnected(connected: boolean): void {
+    if (this.connected === connected) {
+      return;
+    }
+
+    this.connected = connected;
+    this.emitEvent(connected ? 'connected' : 'disconnected');
+  }
+
+  /**
+   * Emit an event to EventEmitter subscribers and registered listener objects
+   */
+  private emitEvent(type: TraneEvent['type'], details: Pick<TraneEvent, 'data' | 'error'> = {}): void {
+    const event: TraneEvent = {
+      type,
+      timestamp: new Date(),
+      ...details
+    };
+
+    for (const listener of this.eventListeners) {
+      try {
+        switch (type) {
+          case 'update':
+            listener.onUpdate?.(event.data);
+            break;
+          case 'error':
+            listener.onError?.(event.error!);
+            break;
+          case 'connected':
+            listener.onConnected?.();
+            break;
+          case 'disconnected':
+            listener.onDisconnected?.();
+            break;
+        }
+      } catch (error) {
+        this.logger.warn(`Event listener failed while handling '${type}':`, error);
+      }
+    }
+
+    // EventEmitter throws on unhandled 'error' events; only emit when someone is listening
+    if (type === 'error' && this.listenerCount('error') === 0) {
+      return;
+    }
+
+    this.emit(type, event);
+  }
+
+  /**
+   * Emit a device change under its specific type and the catch-all 'change' event
+   */
+  private emitChange(change: DeviceChangeEvent): void {
+    for (const listener of this.eventListeners) {
+      try {
+        listener.onDeviceChange?.(change);
+      } catch (error) {
+        this.logger.warn(`Event listener failed while handling '${change.type}':`, error);
+      }
+    }
+
+    this.emit(change.type, change);
+    this.emit('change', change);
+  }
+
+  /**
+   * Whether devices show requested values while their writes are confirmed
+   */
+  public get optimisticUpdates(): boolean {
+    return this.config.optimisticUpdates ?? false;
+  }
+
+  /**
+   * Create the write queue for one device
+   * Writes are confirmed against refreshed data of the given house
+   */
+  public createCommandQueue(houseId?: number): CommandQueue {
+    return new CommandQueue(request => this.send(request), this.writeConfirmer, houseId);
+  }
+
   /**
    * Delayed update helper for after operations
    */
-  public async delayedUpdate(delayMs: number = 7000): Promise<void> {
+  public async delayedUpdate(delayMs: number = 7000, houseId?: number): Promise<void> {
     return new Promise((resolve, reject) => {
       setTimeout(async () => {
         try {
-          await this.update();
+          await this.update({ houseId });
           resolve();
         } catch (error) {
           reject(error);
@@ -499,10 +759,10 @@ export class TraneClient implements ITraneClient {
   }
 
   /**
-   * Get base URL for the configured brand
+   * Get base URL for the configured brand, unless overridden by config.baseUrl
    */
   public getBaseUrl(): string {
-    return BRAND_URLS[this.config.brand!];
+    return this.config.baseUrl ?? BRAND_URLS[this.config.brand!];
   }
 
   /**
@@ -516,13 +776,13 @@ export class TraneClient implements ITraneClient {
    * Get update URL for house data
    */
   public getUpdateUrl(): string | null {
-    return this._houseId ? `${API_ENDPOINTS.HOUSES}/${this._houseId}` : null;
+    return this._houseId ? this.defaultHouse.url : null;
   }
 
   /**
-   * Get the house name
+   * Get the default house name
    */
   public getHouseName(): string | undefined {
-    return this._houseName;
+    return this._houseId ? this.defaultHouse.name : undefined;
   }
 }
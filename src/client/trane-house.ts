@@ -0,0 +1,291 @@
+/**
+ * TraneHouse
+ * Device lists for one home on the account, refreshed independently of other homes
+ */
+
+import { API_ENDPOINTS } from '../types/constants';
+import { HouseData, ThermostatData, AutomationData, UpdateOptions } from '../types/api';
+import {
+  ITraneHouse,
+  ITraneThermostat,
+  ITraneAutomation,
+  DeviceChangeEvent
+} from '../types/interfaces';
+import { ChangeDetector } from './change-detector';
+import { TraneThermostat } from '../devices/trane-thermostat';
+import { TraneAutomation } from '../devices/trane-automation';
+import { ApiError } from '../utils/errors';
+import type { TraneClient } from './trane-client';
+
+export class TraneHouse implements ITraneHouse {
+  public readonly id: number;
+
+  private readonly client: TraneClient;
+  private _name?: string;
+  private readonly thermostats: Map<string, TraneThermostat> = new Map();
+  private readonly automations: Map<string, TraneAutomation> = new Map();
+  private _lastUpdate: Date | null = null;
+
+  constructor(client: TraneClient, id: number, name?: string) {
+    this.client = client;
+    this.id = id;
+    this._name = name;
+  }
+
+  public get name(): string {
+    return this._name || `House ${this.id}`;
+  }
+
+  /**
+   * When house data was last applied, or null if it has never been loaded
+   */
+  public get lastUpdate(): Date | null {
+    return this._lastUpdate;
+  }
+
+  /**
+   * API path of the house data (also the ETag cache key)
+   */
+  public get url(): string {
+    return `${API_ENDPOINTS.HOUSES}/${this.id}`;
+  }
+
+  /**
+   * Get all thermostats, loading the house on first access
+   */
+  public async getThermostats(): Promise<ITraneThermostat[]> {
+    await this.ensureLoaded();
+    return Array.from(this.thermostats.values());
+  }
+
+  /**
+   * Get all automations, loading the house on first access
+   */
+  public async getAutomations(): Promise<ITraneAutomation[]> {
+    await this.ensureLoaded();
+    return Array.from(this.automations.values());
+  }
+
+  public getThermostatById(id: string): ITraneThermostat | undefined {
+    return this.thermostats.get(id);
+  }
+
+  public getAutomationById(id: string): ITraneAutomation | undefined {
+    return this.automations.get(id);
+  }
+
+  public getThermostatIds(): string[] {
+    return Array.from(this.thermostats.keys());
+  }
+
+  public getAutomationIds(): string[] {
+    return Array.from(this.automations.keys());
+  }
+
+  /**
+   * Refresh this house from the API (uses its own ETag)
+   */
+  public async update(options: UpdateOptions = {}): Promise<void> {
+    await this.client.update({ ...options, houseId: this.id });
+  }
+
+  /**
+   * Apply a house payload and reconcile device caches, returning the device changes
+   * Devices are matched by id and updated in place, so references held by
+   * callers stay valid across refreshes; devices no longer present are dropped
+   */
+  public async applyHouseData(houseData: HouseData): Promise<DeviceChangeEvent[]> {
+    if (!houseData.success || !houseData.result) {
+      throw new ApiError('Invalid house data received');
+    }
+
+    const result = houseData.result;
+    if (result.name) {
+      this._name = result.name;
+    }
+
+    // Snapshot current device state so changes can be reported after reconciling
+    const previous = ChangeDetector.capture(this.thermostats.values());
+
+    const seenThermostats = new Set<string>();
+    const seenAutomations = new Set<string>();
+
+    // Process child devices from _links
+    if (result._links?.child) {
+      for (const childLink of result._links.child) {
+        try {
+          // Handle direct device links (legacy format)
+          if (childLink.type === 'thermostat' || childLink.href.includes('xxl_thermostats')) {
+            await this.processThermostat(childLink, seenThermostats);
+          } else if (childLink.type === 'automation' || childLink.href.includes('automation')) {
+            await this.processAutomation(childLink, seenAutomations);
+          }
+          // Handle collection format (current API format)
+          // Devices are embedded in data.items
+          else if (childLink.type === 'application/vnd.nexia.collection+json' && childLink.data?.items) {
+            for (const item of childLink.data.items) {
+              try {
+                // Check if item has thermostat features
+                if (this.isThermostatItem(item)) {
+                  this.upsertThermostat(item, seenThermostats);
+                }
+              } catch (error) {
+                this.client.logger.warn(`Failed to process device item ${item.id}:`, error);
+              }
+            }
+          }
+        } catch (error) {
+          this.client.logger.warn(`Failed to process child link:`, error);
+        }
+      }
+    }
+
+    // Process devices directly if included in house data
+    if (result.devices) {
+      for (const device of result.devices) {
+        try {
+          this.upsertThermostat(device, seenThermostats);
+        } catch (error) {
+          this.client.logger.warn('Failed to create thermostat from device data:', error);
+        }
+      }
+    }
+
+    // Process automations directly if included
+    if (result.automations) {
+      for (const automation of result.automations) {
+        try {
+          this.upsertAutomation(automation, seenAutomations);
+        } catch (error) {
+          this.client.logger.warn('Failed to create automation from data:', error);
+        }
+      }
+    }
+
+    // Drop devices that disappeared from the house
+    this.removeUnseen(this.thermostats, seenThermostats);
+    this.removeUnseen(this.automations, seenAutomations);
+    this._lastUpdate = new Date();
+
+    return ChangeDetector.diff(previous, this.thermostats.values());
+  }
+
+  /**
+   * Clear device caches
+   */
+  public clear(): void {
+    this.thermostats.clear();
+    this.automations.clear();
+    this._lastUpdate = null;
+  }
+
+  /**
+   * Load the house if it has no device data yet
+   * Always a full fetch: the ETag cache may still hold this house from before
+   * clear(), and a 304 would leave the emptied caches unfilled
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (!this._lastUpdate) {
+      await this.update({ forceUpdate: true });
+    }
+  }
+
+  /**
+   * Check if a data item represents a thermostat
+   */
+  private isThermostatItem(item: any): boolean {
+    if (!item || !item.features) {
+      return false;
+    }
+    // Check for thermostat-specific features
+    return item.features.some((f: any) =>
+      f.name === 'thermostat' ||
+      f.name === 'thermostat_mode' ||
+      f.name === 'advanced_info'
+    );
+  }
+
+  /**
+   * Process individual thermostat from device link
+   */
+  private async processThermostat(
+    deviceLink: { href: string; id?: string | number },
+    seen: Set<string>
+  ): Promise<void> {
+    // Keep the existing instance if the refresh fails for this device
+    if (deviceLink.id !== undefined) {
+      seen.add(String(deviceLink.id));
+    }
+
+    try {
+      // Fetch full thermostat data
+      const thermostatData = await this.client.get<ThermostatData>(deviceLink.href);
+      this.upsertThermostat(thermostatData, seen);
+
+    } catch (error) {
+      this.client.logger.warn(`Failed to load thermostat ${deviceLink.id || 'unknown'}:`, error);
+    }
+  }
+
+  /**
+   * Process individual automation from device link
+   */
+  private async processAutomation(
+    deviceLink: { href: string; id?: string | number },
+    seen: Set<string>
+  ): Promise<void> {
+    if (deviceLink.id !== undefined) {
+      seen.add(String(deviceLink.id));
+    }
+
+    try {
+      // Fetch full automation data
+      const automationData = await this.client.get<AutomationData>(deviceLink.href);
+      this.upsertAutomation(automationData, seen);
+
+    } catch (error) {
+      this.client.logger.warn(`Failed to load automation ${deviceLink.id || 'unknown'}:`, error);
+    }
+  }
+
+  /**
+   * Update an existing thermostat in place or create it if new
+   */
+  private upsertThermostat(rawData: any, seen: Set<string>): void {
+    const id = String(rawData.id);
+    seen.add(id);
+
+    const existing = this.thermostats.get(id);
+    if (existing) {
+      existing.updateData(rawData);
+    } else {
+      this.thermostats.set(id, new TraneThermostat(this.client, rawData, this.id));
+    }
+  }
+
+  /**
+   * Update an existing automation in place or create it if new
+   */
+  private upsertAutomation(data: AutomationData, seen: Set<string>): void {
+    const id = String(data.id);
+    seen.add(id);
+
+    const existing = this.automations.get(id);
+    if (existing) {
+      existing.updateData(data);
+    } else {
+      this.automations.set(id, new TraneAutomation(this.client, data));
+    }
+  }
+
+  /**
+   * Remove cached devices whose ids were not seen in the latest house data
+   */
+  private removeUnseen(devices: Map<string, unknown>, seen: Set<string>): void {
+    for (const id of Array.from(devices.keys())) {
+      if (!seen.has(id)) {
+        devices.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Write confirmation for device commands
+ * Refreshes house data after a write until the requested value shows up
+ */
+
+import { ActionMethod, PayloadShape, WriteConfirmationOptions } from '../types/api';
+import { WRITE_CONFIRMATION_DEFAULTS } from '../types/constants';
+import { ILogger } from '../types/interfaces';
+import { GeneralValidator } from '../utils/validation';
+import { WriteNotAppliedError } from '../utils/errors';
+
+/**
+ * HTTP request for a device write
+ */
+export interface WriteRequest {
+  endpoint: string;
+  payload: Record<string, any>; // Named write fields, e.g. { zone_mode: 'HEAT' }
+  method?: ActionMethod; // Defaults to POST
+  shape?: PayloadShape; // How the action takes the fields; sent as named without one
+}
+
+/**
+ * Body to send for a write, in the shape its action takes
+ */
+export function requestBody(request: WriteRequest): Record<string, any> {
+  const shape = request.shape;
+  if (!shape) {
+    return request.payload;
+  }
+
+  return Object.fromEntries(Object.entries(request.payload).map(([field, value]) => [shape[field] ?? field, value]));
+}
+
+/**
+ * A device write: how to build it, and how to tell it has been applied
+ */
+export interface PendingWrite<T> {
+  description: string;                   // e.g. "zone 83261002 mode HEAT", used in errors and logs
+  prepare: () => Promise<WriteRequest>;  // Validate and build the request
+  isApplied: (keys: string[]) => boolean; // Checked after each refresh, for the payload keys no later write overwrote
+  read: () => T;                         // Confirmed state to resolve with
+}
+
+/**
+ * A sent write waiting for confirmation
+ */
+export interface ConfirmationTarget {
+  description: string;
+  isApplied: () => boolean;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Handle for an in-flight write
+ * Awaiting the handle waits for confirmation; `sent` settles as soon as the API accepts the write
+ * It can be used anywhere a Promise is expected
+ */
+export class WriteHandle<T> implements Promise<T> {
+  public readonly [Symbol.toStringTag] = 'WriteHandle';
+  public readonly description: string;
+  public readonly sent: Promise<void>;
+  public readonly confirmed: Promise<T>;
+
+  constructor(description: string, sent: Promise<void>, confirmed: Promise<T>) {
+    this.description = description;
+    this.sent = sent;
+    this.confirmed = confirmed;
+
+    // Callers usually await only one of the two; the other must not trigger unhandled rejections
+    this.sent.catch(() => undefined);
+    this.confirmed.catch(() => undefined);
+  }
+
+  public then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.confirmed.then(onfulfilled, onrejected);
+  }
+
+  public catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null
+  ): Promise<T | TResult> {
+    return this.confirmed.catch(onrejected);
+  }
+
+  public finally(onfinally?: (() => void) | null): Promise<T> {
+    return this.confirmed.finally(onfinally);
+  }
+}
+
+export class WriteConfirmer {
+  private readonly refresh: (houseId?: number) => Promise<void>;
+  private readonly logger: ILogger;
+  private readonly options: Required<WriteConfirmationOptions>;
+
+  constructor(
+    refresh: (houseId?: number) => Promise<void>,
+    logger: ILogger,
+    options: WriteConfirmationOptions = {}
+  ) {
+    this.refresh = refresh;
+    this.logger = logger;
+    this.options = WriteConfirmer.resolveOptions(options);
+  }
+
+  /**
+   * How long to wait for further writes before sending
+   */
+  public get debounce(): number {
+    return this.options.debounce;
+  }
+
+  /**
+   * Refresh every interval until each write is applied or the timeout passes
+   * One refresh is shared by every write still waiting
+   */
+  public async confirm(houseId: number | undefined, targets: ConfirmationTarget[]): Promise<void> {
+    const { interval, timeout } = this.options;
+    const deadline = Date.now() + timeout;
+    let waiting = targets;
+
+    while (waiting.length > 0) {
+      await this.delay(interval);
+
+      try {
+        await this.refresh(houseId);
+
+        waiting = waiting.filter(target => {
+          if (!target.isApplied()) {
+            return true;
+          }
+          target.resolve();
+          return false;
+        });
+      } catch (error) {
+        // Keep trying until the deadline; a single failed refresh says nothing about the writes
+        this.logger.warn(`Refresh failed while confirming ${waiting.length} write(s):`, error);
+      }
+
+      if (waiting.length > 0 && Date.now() + interval > deadline) {
+        for (const target of waiting) {
+          target.reject(new WriteNotAppliedError(target.description, timeout));
+        }
+        return;
+      }
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private static resolveOptions(options: WriteConfirmationOptions): Required<WriteConfirmationOptions> {
+    const interval = GeneralValidator.validateOptional(
+      options.interval,
+      (value) => GeneralValidator.validateNumberRange(value, 0, Number.MAX_SAFE_INTEGER, 'interval'),
+      WRITE_CONFIRMATION_DEFAULTS.INTERVAL_MS
+    );
+
+    const timeout = GeneralValidator.validateOptional(
+      options.timeout,
+      (value) => GeneralValidator.validateNumberRange(value, interval, Number.MAX_SAFE_INTEGER, 'timeout'),
+      Math.max(interval, WRITE_CONFIRMATION_DEFAULTS.TIMEOUT_MS)
+    );
+
+    const debounce = GeneralValidator.validateOptional(
+      options.debounce,
+      (value) => GeneralValidator.validateNumberRange(value, 0, Number.MAX_SAFE_INTEGER, 'debounce'),
+      WRITE_CONFIRMATION_DEFAULTS.DEBOUNCE_MS
+    );
+
+    return { interval, timeout, debounce };
+  }
+}
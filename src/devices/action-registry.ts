@@ -0,0 +1,122 @@
+/**
+ * Device action registry
+ * Maps every device write to the feature action or setting link that performs it,
+ * so requests go where the device data says, with the right method and payload
+ */
+
+import { DeviceAction, EndpointMapData, PayloadShape } from '../types/api';
+import { WriteRequest } from '../client/write-confirmer';
+import { ValidationError } from '../utils/errors';
+
+// Feature actions are listed under the feature's actions; settings link to themselves
+const feature = (key: string, action: string, fallback: string, payload: PayloadShape): EndpointMapData =>
+  ({ area: 'features', area_primary_key: 'name', key, action, fallback_endpoint: fallback, payload });
+// Settings take their single value as { value }, one of the values the setting lists
+const setting = (key: string, field: string = key): EndpointMapData =>
+  ({ area: 'settings', area_primary_key: 'type', key, action: 'self', fallback_endpoint: key, payload: { [field]: 'value' } });
+
+// Zone writes
+export const ZONE_ACTIONS = {
+  setpoints: feature('thermostat', 'set_heat_setpoint', 'setpoints', { heating_setpoint: 'heat', cooling_setpoint: 'cool' }),
+  zone_mode: feature('thermostat_mode', 'update_thermostat_mode', 'zone_mode', { zone_mode: 'value' }),
+  run_mode: feature('thermostat_run_mode', 'update_thermostat_run_mode', 'run_mode', { run_mode: 'value' }),
+  return_to_schedule: feature('thermostat_run_mode', 'update_thermostat_run_mode', 'return_to_schedule', { run_mode: 'value' }),
+  preset: feature('preset_selected', 'update_preset', 'preset_selected', { preset: 'value' }),
+  schedule: feature('schedule', 'update_schedule', 'schedule', { days: 'days' }),
+  active_sensors: feature('room_iq_sensors', 'update_active_sensors', 'update_active_sensors',
+    { active_sensor_ids: 'updated_active_sensors' }),
+  sensor_state: feature('room_iq_sensors', 'request_current_state', 'request_current_sensor_state', {})
+} satisfies Record<string, EndpointMapData>;
+
+// Thermostat writes
+export const THERMOSTAT_ACTIONS = {
+  fan_mode: setting('fan_mode'),
+  fan_speed: setting('fan_speed'),
+  dehumidify: setting('dehumidify', 'dehumidify_setpoint'),
+  humidify: setting('humidify', 'humidify_setpoint'),
+  air_cleaner_mode: setting('air_cleaner_mode'),
+  emergency_heat: setting('emergency_heat'),
+  scheduling_enabled: setting('scheduling_enabled')
+} satisfies Record<string, EndpointMapData>;
+
+export type ZoneAction = keyof typeof ZONE_ACTIONS;
+export type ThermostatAction = keyof typeof THERMOSTAT_ACTIONS;
+
+// Raw device JSON the actions are looked up in
+export interface ActionSource {
+  features?: any[];
+  settings?: any[];
+}
+
+export class ActionRegistry<K extends string> {
+  private readonly definitions: Record<K, EndpointMapData>;
+  private readonly actions: Partial<Record<K, DeviceAction>>;
+  private readonly fallbackBase: string;
+
+  /**
+   * @param fallbackBase Device URL the fallback endpoints are appended to
+   */
+  constructor(
+    definitions: Record<K, EndpointMapData>,
+    actions: Partial<Record<K, DeviceAction>>,
+    fallbackBase: string
+  ) {
+    this.definitions = definitions;
+    this.actions = actions;
+    this.fallbackBase = fallbackBase;
+  }
+
+  /**
+   * Find the link of each defined action in raw device data; actions without one are left out
+   */
+  public static resolve<K extends string>(
+    definitions: Record<K, EndpointMapData>,
+    source: ActionSource
+  ): Partial<Record<K, DeviceAction>> {
+    const actions: Partial<Record<K, DeviceAction>> = {};
+
+    for (const name of Object.keys(definitions) as K[]) {
+      const definition = definitions[name];
+      const items = definition.area === 'settings' ? source.settings : source.features;
+      const item = Array.isArray(items)
+        ? items.find((candidate: any) => candidate?.[definition.area_primary_key] === definition.key)
+        : undefined;
+
+      const link = definition.area === 'settings' ? item?._links?.[definition.action] : item?.actions?.[definition.action];
+      if (typeof link?.href === 'string' && link.href.length > 0) {
+        actions[name] = {
+          href: link.href,
+          method: String(link.method ?? 'POST').toUpperCase() === 'PUT' ? 'PUT' : 'POST'
+        };
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * The action the device lists for a write, if any
+   */
+  public get(name: K): DeviceAction | undefined {
+    return this.actions[name];
+  }
+
+  /**
+   * Build the request for a write
+   * Payloads use named fields (e.g. { fan_mode: 'on' }), sent in the body shape the action takes
+   */
+  public request(name: K, payload: Record<string, any>): WriteRequest {
+    const shape = this.definitions[name].payload;
+    const unknown = Object.keys(payload).find(field => !(field in shape));
+    if (unknown !== undefined) {
+      throw new ValidationError(`The ${name} action does not take ${unknown}`, unknown, payload[unknown]);
+    }
+
+    const action = this.actions[name];
+    if (!action) {
+      return { endpoint: `${this.fallbackBase}/${this.definitions[name].fallback_endpoint}`, payload, shape };
+    }
+
+    return { endpoint: action.href, method: action.method, payload, shape };
+  }
+}
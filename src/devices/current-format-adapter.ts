@@ -0,0 +1,472 @@
+/**
+ * Current response format
+ * The HAL device format: named items in a features array (zone features carry their zone's
+ * device identifier) and typed items in a settings array, each with its own action links
+ */
+
+import {
+  ThermostatData,
+  ZoneData,
+  SensorData,
+  SetpointLimits,
+  ScheduleFeatureData
+} from '../types/api';
+import { TemperatureUnit, DamperState, SystemStatus, ZoneStatus, OperationMode, AirCleanerMode } from '../types/constants';
+import { ActionRegistry, THERMOSTAT_ACTIONS, ZONE_ACTIONS } from './action-registry';
+import { CURRENT_THERMOSTAT_SCHEMA } from '../types/schemas';
+import { Schema } from '../utils/schema';
+import { FieldReport, FormatAdapter } from './format-adapter';
+
+const THERMOSTAT_FIELDS = [
+  'id', 'name', 'features', 'settings', '_links', 'has_outdoor_temperature', 'has_indoor_humidity',
+  'indoor_humidity', 'outdoor_temperature', 'system_status', 'has_variable_speed_compressor',
+  'compressor_speed', 'current_compressor_speed'
+];
+
+const FEATURE_NAMES = [
+  'advanced_info', 'connection', 'thermostat', 'thermostat_mode', 'thermostat_run_mode',
+  'preset_selected', 'schedule', 'room_iq_sensors'
+];
+
+const SETTING_TYPES = Object.keys(THERMOSTAT_ACTIONS);
+
+const THERMOSTAT_FEATURE_FIELDS = [
+  'name', 'device_identifier', 'zone_name', 'scale', 'temperature', 'status', 'system_status',
+  'operating_state', 'damper_position', 'zone_status', 'setpoint_delta', 'setpoint_heat', 'setpoint_cool',
+  'setpoint_heat_min', 'setpoint_heat_max', 'setpoint_cool_min', 'setpoint_cool_max', 'actions'
+];
+
+const SENSOR_FIELDS = [
+  'id', 'name', 'type', 'serial_number', 'weight', 'temperature', 'temperature_valid', 'humidity', 'humidity_valid',
+  'has_online', 'connected', 'has_battery', 'battery_level', 'battery_low', 'battery_valid'
+];
+
+// Accepted values as listed by features (options) and settings (values)
+type RawOption = string | number | { value?: unknown; label?: string };
+
+// Raw RoomIQ sensor of a room_iq_sensors feature
+interface RawSensor {
+  id?: number;
+  name?: string;
+  type?: string;
+  serial_number?: string;
+  weight?: number;
+  temperature?: number;
+  temperature_valid?: boolean;
+  humidity?: number;
+  humidity_valid?: boolean;
+  has_online?: boolean;
+  connected?: boolean;
+  has_battery?: boolean;
+  battery_level?: number;
+  battery_low?: boolean;
+  battery_valid?: boolean;
+}
+
+// Raw item of the features array; which fields are present depends on the feature name
+interface RawFeature {
+  name: string;
+  device_identifier?: string | null;
+  items?: Array<{ label?: string; value?: string }>; // advanced_info
+  is_connected?: boolean; // connection
+  zone_name?: string; // thermostat
+  scale?: string;
+  temperature?: number;
+  status?: string;
+  system_status?: SystemStatus;
+  operating_state?: string;
+  damper_position?: string;
+  zone_status?: string;
+  setpoint_delta?: number;
+  setpoint_heat?: number;
+  setpoint_cool?: number;
+  setpoint_heat_min?: number;
+  setpoint_heat_max?: number;
+  setpoint_cool_min?: number;
+  setpoint_cool_max?: number;
+  value?: string; // thermostat_mode, thermostat_run_mode, preset_selected
+  options?: RawOption[];
+  sensors?: RawSensor[]; // room_iq_sensors
+  days?: ScheduleFeatureData['days']; // schedule
+}
+
+// Raw item of the settings array
+interface RawSetting {
+  type: string;
+  current_value?: unknown;
+  values?: RawOption[];
+}
+
+/**
+ * Items of a raw features or settings array that carry the key they are looked up by
+ */
+function rawItems<T>(list: unknown, key: 'name' | 'type'): T[] {
+  return Array.isArray(list)
+    ? list.filter(item => item !== null && typeof item === 'object' && typeof item[key] === 'string')
+    : [];
+}
+
+export class CurrentFormatAdapter implements FormatAdapter {
+  public readonly format: string = 'current';
+  public readonly version: number = 1;
+  public readonly schema: Schema = CURRENT_THERMOSTAT_SCHEMA;
+
+  public matches(raw: Record<string, any>): boolean {
+    return Array.isArray(raw['features']) || Array.isArray(raw['settings']);
+  }
+
+  public normalize(rawData: Record<string, any>, fields: FieldReport): ThermostatData {
+    // The raw API puts name-based items in "features" and type-based items in "settings"
+    const features = rawItems<RawFeature>(rawData['features'], 'name');
+    const settingsArray = rawItems<RawSetting>(rawData['settings'], 'type');
+    this.reportUnmapped(rawData, features, settingsArray, fields);
+    const setting = (type: string): RawSetting | undefined => settingsArray.find(item => item.type === type);
+
+    // Find specific feature objects (name-based, in features array)
+    const advancedInfo = CurrentFormatAdapter.feature(features, 'advanced_info');
+    const thermostatFeature = CurrentFormatAdapter.feature(features, 'thermostat');
+    const connectionFeature = CurrentFormatAdapter.feature(features, 'connection');
+
+    // Extract model and firmware from advanced_info
+    let model = 'Unknown';
+    let firmware = 'Unknown';
+    if (advancedInfo?.items) {
+      for (const item of advancedInfo.items) {
+        if (item.label === 'Model') model = item.value ?? model;
+        if (item.label === 'Firmware Version') firmware = item.value ?? firmware;
+      }
+    }
+
+    const zoneGroups = CurrentFormatAdapter.groupZoneFeatures(features);
+
+    // Build transformed data
+    const transformed: ThermostatData = {
+      id: rawData['id'],
+      name: rawData['name'],
+      model,
+      firmware,
+      is_online: connectionFeature?.is_connected ?? true,
+      features: {
+        has_zones: new Set(features
+          .filter(feature => feature.name === 'thermostat')
+          .map(feature => CurrentFormatAdapter.zoneIdentifier(feature))
+          .filter(Boolean)).size > 1,
+        has_outdoor_temperature: !!rawData['has_outdoor_temperature'],
+        has_relative_humidity: !!rawData['has_indoor_humidity'],
+        has_variable_speed_compressor: rawData['has_variable_speed_compressor'] === true,
+        has_emergency_heat: !!setting('emergency_heat'),
+        has_variable_fan_speed: !!setting('fan_speed'),
+        has_dehumidify_support: !!setting('dehumidify'),
+        has_humidify_support: !!setting('humidify'),
+        has_air_cleaner: !!setting('air_cleaner_mode')
+      },
+      settings: {},
+      zones: Array.from(zoneGroups.entries()).map(([zoneId, zoneFeatures], index) =>
+        CurrentFormatAdapter.buildZoneData(zoneId ?? String(rawData['id']), zoneFeatures, index, zoneGroups.size, rawData['name'])),
+      _links: rawData['_links'],
+      _rawActions: ActionRegistry.resolve(THERMOSTAT_ACTIONS, { settings: settingsArray })
+    };
+
+    // Extract settings from thermostat feature and device-level fields
+    const dehumidifyFeature = setting('dehumidify');
+    const humidifyFeature = setting('humidify');
+
+    if (thermostatFeature) {
+      transformed.settings = {
+        temperature_unit: thermostatFeature.scale === 'c' ? TemperatureUnit.CELSIUS : TemperatureUnit.FAHRENHEIT,
+        deadband: thermostatFeature.setpoint_delta || 3,
+        system_status: thermostatFeature.system_status || thermostatFeature.status as SystemStatus || rawData['system_status']
+      };
+    }
+
+    // Map device-level humidity and outdoor temperature
+    if (rawData['indoor_humidity'] != null) {
+      transformed.settings!.relative_humidity = parseFloat(rawData['indoor_humidity']) / 100;
+    }
+    if (rawData['outdoor_temperature'] != null) {
+      transformed.settings!.outdoor_temperature = parseFloat(rawData['outdoor_temperature']);
+    }
+
+    // Map dehumidify/humidify setpoints from feature array
+    if (dehumidifyFeature) {
+      transformed.settings!.dehumidify_setpoint = CurrentFormatAdapter.parseNumber(dehumidifyFeature.current_value);
+    }
+    if (humidifyFeature) {
+      transformed.settings!.humidify_setpoint = CurrentFormatAdapter.parseNumber(humidifyFeature.current_value);
+    }
+
+    // Map current fan and air cleaner modes so writes to them can be confirmed
+    const fanModeSetting = setting('fan_mode');
+    const airCleanerSetting = setting('air_cleaner_mode');
+
+    if (fanModeSetting) {
+      transformed.settings!.fan_mode = CurrentFormatAdapter.parseText(fanModeSetting.current_value);
+      transformed.settings!.available_fan_modes = CurrentFormatAdapter.extractAvailableValues(fanModeSetting) ?? undefined;
+    }
+    if (airCleanerSetting) {
+      transformed.settings!.air_cleaner_mode = CurrentFormatAdapter.parseText(airCleanerSetting.current_value) as AirCleanerMode;
+      transformed.settings!.available_air_cleaner_modes = CurrentFormatAdapter.extractAvailableValues(airCleanerSetting) ?? undefined;
+    }
+
+    // The fan_speed setting lists the speeds the blower accepts
+    const fanSpeedSetting = setting('fan_speed');
+    const fanSpeeds = (fanSpeedSetting?.values ?? []).filter((value): value is number => typeof value === 'number');
+    if (fanSpeeds.length > 0) {
+      transformed.settings!.fan_speed_limits = { min: Math.min(...fanSpeeds), max: Math.max(...fanSpeeds) };
+      transformed.settings!.available_fan_speeds = fanSpeeds;
+    }
+    if (fanSpeedSetting) {
+      transformed.settings!.fan_speed = CurrentFormatAdapter.parseNumber(fanSpeedSetting.current_value);
+    }
+
+    // Emergency heat and schedule following are on/off settings
+    const emergencyHeatSetting = setting('emergency_heat');
+    const schedulingSetting = setting('scheduling_enabled');
+
+    if (emergencyHeatSetting) {
+      transformed.settings!.emergency_heat_active = CurrentFormatAdapter.parseBoolean(emergencyHeatSetting.current_value);
+    }
+    if (schedulingSetting) {
+      transformed.settings!.scheduling_enabled = CurrentFormatAdapter.parseBoolean(schedulingSetting.current_value);
+    }
+
+    // Variable speed compressors report their current speed (0-1) on the device
+    if (transformed.features!.has_variable_speed_compressor) {
+      transformed.settings!.current_compressor_speed =
+        CurrentFormatAdapter.parseNumber(rawData['compressor_speed'] ?? rawData['current_compressor_speed']);
+    }
+
+    return transformed;
+  }
+
+  /**
+   * Record device fields, features and settings this adapter does not read
+   */
+  private reportUnmapped(rawData: Record<string, any>, features: RawFeature[], settingsArray: RawSetting[], fields: FieldReport): void {
+    fields.check('', rawData, THERMOSTAT_FIELDS);
+
+    for (const feature of features) {
+      if (!FEATURE_NAMES.includes(feature.name)) {
+        fields.add(`features.${feature.name}`);
+      } else if (feature.name === 'thermostat') {
+        fields.check('features.thermostat', feature, THERMOSTAT_FEATURE_FIELDS);
+      } else if (feature.name === 'room_iq_sensors' && Array.isArray(feature.sensors)) {
+        for (const sensor of feature.sensors) {
+          fields.check('features.room_iq_sensors.sensors', sensor, SENSOR_FIELDS);
+        }
+      }
+    }
+
+    for (const setting of settingsArray) {
+      if (!SETTING_TYPES.includes(setting.type)) {
+        fields.add(`settings.${setting.type}`);
+      }
+    }
+  }
+
+  /**
+   * Group raw features by zone
+   * Zone features carry their zone's device identifier (e.g. "XxlZone-85588519"); each
+   * identifier with a thermostat feature is a zone. Without identifiers the thermostat
+   * has a single zone, keyed null
+   */
+  private static groupZoneFeatures(rawFeatures: RawFeature[]): Map<string | null, RawFeature[]> {
+    const groups = new Map<string | null, RawFeature[]>();
+    for (const feature of rawFeatures) {
+      const zoneId = CurrentFormatAdapter.zoneIdentifier(feature);
+      groups.set(zoneId, (groups.get(zoneId) ?? []).concat(feature));
+    }
+
+    const zones = new Map<string | null, RawFeature[]>();
+    for (const [zoneId, features] of groups) {
+      if (zoneId !== null && features.some(feature => feature.name === 'thermostat')) {
+        zones.set(zoneId, features);
+      }
+    }
+
+    const ungrouped = groups.get(null) ?? [];
+    if (zones.size === 0 && ungrouped.some(feature => feature.name === 'thermostat')) {
+      zones.set(null, ungrouped);
+    } else if (zones.size === 1) {
+      // A single zone may report some of its features without an identifier
+      const [[zoneId, features]] = Array.from(zones.entries());
+      zones.set(zoneId!, features!.concat(ungrouped));
+    }
+
+    return zones;
+  }
+
+  /**
+   * Zone id from a feature's device identifier ("XxlZone-85588519" -> "85588519")
+   */
+  private static zoneIdentifier(feature: RawFeature): string | null {
+    const match = typeof feature.device_identifier === 'string'
+      ? feature.device_identifier.match(/XxlZone-(\d+)/)
+      : null;
+    return match ? match[1]! : null;
+  }
+
+  /**
+   * First feature with the given name
+   */
+  private static feature(features: RawFeature[], name: string): RawFeature | undefined {
+    return features.find(feature => feature.name === name);
+  }
+
+  /**
+   * Zone data from the features of one zone
+   */
+  private static buildZoneData(
+    zoneId: string,
+    features: RawFeature[],
+    index: number,
+    zoneCount: number,
+    thermostatName?: string
+  ): ZoneData {
+    // Zones are grouped by their thermostat feature
+    const thermostatFeature = CurrentFormatAdapter.feature(features, 'thermostat')!;
+    const modeFeature = CurrentFormatAdapter.feature(features, 'thermostat_mode');
+    const runModeFeature = CurrentFormatAdapter.feature(features, 'thermostat_run_mode');
+    const sensorFeature = CurrentFormatAdapter.feature(features, 'room_iq_sensors');
+    const presetFeature = CurrentFormatAdapter.feature(features, 'preset_selected');
+    const scheduleFeature = CurrentFormatAdapter.feature(features, 'schedule');
+
+    // The native zone is the one the thermostat itself sits in
+    const nativeZone = Array.isArray(sensorFeature?.sensors)
+      ? sensorFeature.sensors.some(sensor => sensor?.type === 'thermostat')
+      : index === 0;
+    const damperPosition = CurrentFormatAdapter.parseDamperPosition(thermostatFeature);
+
+    return {
+      id: zoneId,
+      name: thermostatFeature.zone_name || (zoneCount === 1 ? thermostatName : undefined) || `Zone ${index + 1}`,
+      features: {
+        heating_setpoint: thermostatFeature.setpoint_heat,
+        cooling_setpoint: thermostatFeature.setpoint_cool,
+        current_mode: modeFeature?.value as OperationMode | undefined,
+        setpoint_status: runModeFeature?.value,
+        preset_selected: presetFeature?.value,
+        setpoint_limits: CurrentFormatAdapter.parseSetpointLimits(thermostatFeature),
+        schedule: scheduleFeature ? { days: scheduleFeature.days } : undefined,
+        damper_position: damperPosition,
+        // A zone with its damper closed gets no conditioned air
+        is_calling: thermostatFeature.operating_state !== 'idle' && damperPosition !== DamperState.CLOSED
+      },
+      settings: {
+        // Already the weight-averaged reading of the zone's active RoomIQ sensors
+        temperature: thermostatFeature.temperature,
+        status: (thermostatFeature.operating_state || thermostatFeature.status) as ZoneStatus | undefined,
+        native_zone: nativeZone,
+        available_modes: CurrentFormatAdapter.extractAvailableValues(modeFeature) ?? undefined,
+        available_presets: CurrentFormatAdapter.extractAvailableValues(presetFeature) ?? undefined
+      },
+      sensors: CurrentFormatAdapter.parseSensors(sensorFeature),
+      _rawActions: ActionRegistry.resolve(ZONE_ACTIONS, { features })
+    };
+  }
+
+  /**
+   * RoomIQ sensors of a zone's room_iq_sensors feature
+   * Active sensors have a weight above zero; wired sensors report no connectivity or battery
+   */
+  private static parseSensors(feature: RawFeature | undefined): SensorData[] {
+    if (!Array.isArray(feature?.sensors)) {
+      return [];
+    }
+
+    return feature.sensors
+      .filter((sensor): sensor is RawSensor & { id: number } => typeof sensor?.id === 'number')
+      .map((sensor): SensorData => ({
+        id: sensor.id,
+        name: sensor.name,
+        type: sensor.type,
+        serial_number: sensor.serial_number,
+        weight: typeof sensor.weight === 'number' ? sensor.weight : 0,
+        temperature: sensor.temperature,
+        temperature_valid: sensor.temperature_valid === true,
+        humidity: sensor.humidity,
+        humidity_valid: sensor.humidity_valid === true,
+        has_online: sensor.has_online === true,
+        connected: typeof sensor.connected === 'boolean' ? sensor.connected : null,
+        has_battery: sensor.has_battery === true,
+        battery_level: typeof sensor.battery_level === 'number' ? sensor.battery_level : undefined,
+        battery_low: typeof sensor.battery_low === 'boolean' ? sensor.battery_low : undefined,
+        battery_valid: typeof sensor.battery_valid === 'boolean' ? sensor.battery_valid : undefined
+      }));
+  }
+
+  /**
+   * Damper position of a zone, reported by zoned systems as damper_position or zone_status
+   */
+  private static parseDamperPosition(feature: RawFeature): DamperState | undefined {
+    const reported = String(feature.damper_position ?? feature.zone_status ?? '').toLowerCase();
+    if (reported === 'open' || reported === DamperState.OPEN.toLowerCase()) {
+      return DamperState.OPEN;
+    }
+    if (reported === 'closed' || reported === DamperState.CLOSED.toLowerCase()) {
+      return DamperState.CLOSED;
+    }
+    return undefined;
+  }
+
+  /**
+   * Numeric setting value; the API sends some numbers as strings
+   */
+  private static parseNumber(value: unknown): number | undefined {
+    const number = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+  }
+
+  /**
+   * Text setting value
+   */
+  private static parseText(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  /**
+   * On/off setting value, sent as a boolean or as "on"/"off"
+   */
+  private static parseBoolean(value: unknown): boolean | undefined {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'string' && ['on', 'off', 'true', 'false'].includes(value.toLowerCase())) {
+      return ['on', 'true'].includes(value.toLowerCase());
+    }
+    return undefined;
+  }
+
+  /**
+   * Setpoint limits from a zone's thermostat feature, if it reports all four
+   */
+  private static parseSetpointLimits(feature: RawFeature): SetpointLimits | undefined {
+    const limits = {
+      heatMin: feature.setpoint_heat_min,
+      heatMax: feature.setpoint_heat_max,
+      coolMin: feature.setpoint_cool_min,
+      coolMax: feature.setpoint_cool_max
+    };
+
+    return Object.values(limits).every(value => typeof value === 'number' && Number.isFinite(value))
+      ? limits as SetpointLimits
+      : undefined;
+  }
+
+  /**
+   * Extract the values a feature or setting accepts
+   * Features list them as options ([{ value, label }]), settings as values (plain or { value })
+   */
+  private static extractAvailableValues(source: { options?: RawOption[]; values?: RawOption[] } | undefined): string[] | null {
+    const options = source?.options ?? source?.values;
+    if (!Array.isArray(options)) {
+      return null;
+    }
+
+    const values = options
+      .map(option => (option !== null && typeof option === 'object' ? option.value : option))
+      .filter((value: unknown): value is string => typeof value === 'string' && value.length > 0);
+
+    return values.length > 0 ? values : null;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Response format adapters
+ * An adapter recognises one shape of thermostat JSON and converts it into ThermostatData,
+ * recording every field it does not map
+ */
+
+import { ThermostatData } from '../types/api';
+import { Schema } from '../utils/schema';
+
+/**
+ * Converts one response format into ThermostatData
+ */
+export interface FormatAdapter {
+  readonly format: string; // e.g. "current"
+  readonly version: number; // Bumped when the adapter maps the format differently
+  readonly schema?: Schema; // Shape the adapter relies on, checked before normalizing
+
+  /**
+   * Whether this adapter reads the given thermostat JSON
+   */
+  matches(raw: Record<string, any>): boolean;
+
+  /**
+   * Convert the thermostat JSON, adding unmapped fields to the report
+   */
+  normalize(raw: Record<string, any>, fields: FieldReport): ThermostatData;
+}
+
+/**
+ * Fields of a response that no adapter mapped, by dotted path (e.g. "features.thermostat.setpoint_increment")
+ * Array items share one path, so each unmapped field is listed once
+ */
+export class FieldReport {
+  private readonly fields: Set<string> = new Set();
+
+  /**
+   * Record the keys of an object that are not among the known ones
+   */
+  public check(path: string, source: unknown, known: readonly string[]): void {
+    if (source === null || typeof source !== 'object' || Array.isArray(source)) {
+      return;
+    }
+
+    for (const key of Object.keys(source)) {
+      if (!known.includes(key)) {
+        this.add(path ? `${path}.${key}` : key);
+      }
+    }
+  }
+
+  public add(path: string): void {
+    this.fields.add(path);
+  }
+
+  public get unmapped(): string[] {
+    return Array.from(this.fields).sort();
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Legacy response format
+ * Older API versions send features and settings as objects already keyed like ThermostatData,
+ * with some zone values flat on the zone instead of under its features and settings
+ */
+
+import {
+  ThermostatData,
+  ThermostatFeatures,
+  ThermostatSettings,
+  ZoneData,
+  ZoneFeatures,
+  ZoneSettings,
+  SensorData
+} from '../types/api';
+import { LEGACY_THERMOSTAT_SCHEMA } from '../types/schemas';
+import { Schema } from '../utils/schema';
+import { FieldReport, FormatAdapter } from './format-adapter';
+
+const THERMOSTAT_FIELDS = ['id', 'name', 'model', 'firmware', 'is_online', 'features', 'settings', 'zones', 'automations', '_links'];
+
+const THERMOSTAT_FEATURE_FIELDS = [
+  'has_zones', 'has_outdoor_temperature', 'has_relative_humidity', 'has_variable_speed_compressor',
+  'has_emergency_heat', 'has_variable_fan_speed', 'has_dehumidify_support', 'has_humidify_support', 'has_air_cleaner'
+];
+
+const THERMOSTAT_SETTING_FIELDS = [
+  'temperature_unit', 'deadband', 'system_status', 'current_compressor_speed', 'relative_humidity',
+  'outdoor_temperature', 'fan_mode', 'fan_speed', 'air_cleaner_mode', 'emergency_heat_active', 'scheduling_enabled',
+  'humidify_setpoint', 'dehumidify_setpoint', 'fan_speed_limits', 'available_fan_speeds', 'available_fan_modes', 'available_air_cleaner_modes'
+];
+
+// Flat zones carry their temperature and setpoints at the top
+const ZONE_FIELDS = ['id', 'name', 'features', 'settings', 'sensors', '_links', 'temperature', 'heating_setpoint', 'cooling_setpoint', 'setpoints'];
+
+const ZONE_FEATURE_FIELDS = [
+  'heating_setpoint', 'cooling_setpoint', 'current_mode', 'requested_mode', 'setpoint_status', 'preset',
+  'preset_selected', 'is_calling', 'damper_position', 'setpoint_limits', 'schedule'
+];
+
+const ZONE_SETTING_FIELDS = ['temperature', 'status', 'native_zone', 'available_presets', 'available_modes'];
+
+const SENSOR_FIELDS = [
+  'id', 'name', 'type', 'serial_number', 'weight', 'temperature', 'temperature_valid', 'humidity', 'humidity_valid',
+  'has_online', 'connected', 'has_battery', 'battery_level', 'battery_low', 'battery_valid'
+];
+
+/**
+ * Copy of the known keys of an object
+ */
+const pick = (source: unknown, known: readonly string[]): Record<string, any> =>
+  source !== null && typeof source === 'object'
+    ? Object.fromEntries(Object.entries(source).filter(([key]) => known.includes(key)))
+    : {};
+
+export class LegacyFormatAdapter implements FormatAdapter {
+  public readonly format: string = 'legacy';
+  public readonly version: number = 1;
+  public readonly schema: Schema = LEGACY_THERMOSTAT_SCHEMA;
+
+  public matches(raw: Record<string, any>): boolean {
+    return !Array.isArray(raw['features']) && !Array.isArray(raw['settings']);
+  }
+
+  public normalize(raw: Record<string, any>, fields: FieldReport): ThermostatData {
+    fields.check('', raw, THERMOSTAT_FIELDS);
+    fields.check('features', raw['features'], THERMOSTAT_FEATURE_FIELDS);
+    fields.check('settings', raw['settings'], THERMOSTAT_SETTING_FIELDS);
+
+    return {
+      id: raw['id'],
+      name: raw['name'],
+      model: raw['model'],
+      firmware: raw['firmware'],
+      is_online: raw['is_online'],
+      features: pick(raw['features'], THERMOSTAT_FEATURE_FIELDS) as ThermostatFeatures,
+      settings: pick(raw['settings'], THERMOSTAT_SETTING_FIELDS) as ThermostatSettings,
+      zones: Array.isArray(raw['zones']) ? raw['zones'].map(zone => this.normalizeZone(zone, fields)) : [],
+      automations: raw['automations'],
+      _links: raw['_links']
+    };
+  }
+
+  protected normalizeZone(raw: Record<string, any>, fields: FieldReport): ZoneData {
+    fields.check('zones', raw, ZONE_FIELDS);
+    fields.check('zones.features', raw['features'], ZONE_FEATURE_FIELDS);
+    fields.check('zones.settings', raw['settings'], ZONE_SETTING_FIELDS);
+
+    const features = pick(raw['features'], ZONE_FEATURE_FIELDS) as ZoneFeatures;
+    const settings = pick(raw['settings'], ZONE_SETTING_FIELDS) as ZoneSettings;
+    features.heating_setpoint = raw['heating_setpoint'] ?? raw['setpoints']?.heat ?? features.heating_setpoint;
+    features.cooling_setpoint = raw['cooling_setpoint'] ?? raw['setpoints']?.cool ?? features.cooling_setpoint;
+    settings.temperature = raw['temperature'] ?? settings.temperature;
+
+    return {
+      id: raw['id'],
+      name: raw['name'],
+      features,
+      settings,
+      sensors: Array.isArray(raw['sensors']) ? raw['sensors'].map(sensor => this.normalizeSensor(sensor, fields)) : [],
+      _links: raw['_links']
+    };
+  }
+
+  /**
+   * Sensors may name the serial number serialNumber and nest their battery state
+   */
+  protected normalizeSensor(raw: Record<string, any>, fields: FieldReport): SensorData {
+    fields.check('zones.sensors', raw, [...SENSOR_FIELDS, 'serialNumber', 'battery']);
+
+    const sensor = pick(raw, SENSOR_FIELDS) as SensorData;
+    sensor.serial_number = raw['serial_number'] ?? raw['serialNumber'];
+    sensor.battery_level = raw['battery']?.level ?? raw['battery_level'];
+    sensor.battery_low = raw['battery']?.low ?? raw['battery_low'];
+    sensor.battery_valid = raw['battery']?.valid ?? raw['battery_valid'];
+    return sensor;
+  }
+}
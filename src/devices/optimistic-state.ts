@@ -0,0 +1,112 @@
+/**
+ * Optimistic device state
+ * Requested values shown by device getters while a write is waiting for confirmation
+ */
+
+import { CommandQueue } from '../client/command-queue';
+import { PendingWrite, WriteHandle } from '../client/write-confirmer';
+
+interface PendingValue {
+  value: unknown;
+  token: number;
+}
+
+export class OptimisticState {
+  private readonly pending: Map<string, PendingValue> = new Map();
+  private nextToken: number = 1;
+  private bypass: number = 0;
+
+  /**
+   * Properties currently showing a requested value
+   */
+  public get pendingProperties(): string[] {
+    return Array.from(this.pending.keys());
+  }
+
+  /**
+   * The requested value of a property if one is pending, else the reported value
+   */
+  public get<T>(property: string, actual: T): T {
+    const pending = this.bypass === 0 ? this.pending.get(property) : undefined;
+    return pending ? pending.value as T : actual;
+  }
+
+  /**
+   * Evaluate with reported values only (e.g. to check whether a write has been applied)
+   */
+  public actual<T>(read: () => T): T {
+    this.bypass++;
+    try {
+      return read();
+    } finally {
+      this.bypass--;
+    }
+  }
+
+  /**
+   * Show requested values until the write settles; returns a token for settle/revert
+   */
+  public apply(values: Record<string, unknown>): number {
+    const token = this.nextToken++;
+    for (const [property, value] of Object.entries(values)) {
+      this.pending.set(property, { value, token });
+    }
+    return token;
+  }
+
+  /**
+   * Drop the values of a settled write, returning those not taken over by a later write
+   */
+  public release(token: number): Record<string, unknown> {
+    const released: Record<string, unknown> = {};
+    for (const [property, pending] of Array.from(this.pending.entries())) {
+      if (pending.token === token) {
+        released[property] = pending.value;
+        this.pending.delete(property);
+      }
+    }
+    return released;
+  }
+
+  /**
+   * Queue a write, showing its requested values until it is confirmed or fails
+   * Checks run against reported values so the requested ones cannot confirm themselves
+   */
+  public enqueue<T>(
+    queue: CommandQueue,
+    write: PendingWrite<T>,
+    requested: () => Record<string, unknown>,
+    onRollback: (values: Record<string, unknown>, error: Error) => void
+  ): WriteHandle<T> {
+    let token: number | undefined;
+
+    const handle = queue.enqueue({
+      ...write,
+      prepare: async () => {
+        const request = await write.prepare();
+        token = this.apply(requested());
+        return request;
+      },
+      isApplied: (keys) => this.actual(() => write.isApplied(keys))
+    });
+
+    handle.then(
+      () => {
+        if (token !== undefined) {
+          this.release(token);
+        }
+      },
+      (error: Error) => {
+        if (token === undefined) {
+          return;
+        }
+        const values = this.release(token);
+        if (Object.keys(values).length > 0) {
+          onRollback(values, error);
+        }
+      }
+    );
+
+    return handle;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Response normalizer
+ * Converts raw thermostat JSON into ThermostatData once, with the first format adapter
+ * that recognises it, so devices only ever read the normalized shape
+ */
+
+import { ThermostatData } from '../types/api';
+import { ParseError } from '../utils/errors';
+import { ResponseValidator } from '../client/response-validator';
+import { FieldReport, FormatAdapter } from './format-adapter';
+import { CurrentFormatAdapter } from './current-format-adapter';
+import { Ux360FormatAdapter } from './ux360-format-adapter';
+import { LegacyFormatAdapter } from './legacy-format-adapter';
+
+export interface NormalizedThermostat {
+  data: ThermostatData;
+  format: string; // Adapter that read the data, as format@version (e.g. "current@1")
+  unmappedFields: string[]; // Dotted paths of fields the adapter does not read
+  rawFeatures: string[]; // Feature names and setting types as the API sent them
+}
+
+export class ResponseNormalizer {
+  private readonly adapters: FormatAdapter[];
+  private readonly validator?: ResponseValidator;
+
+  /**
+   * @param adapters Tried before the built-in current, UX360 and legacy adapters
+   * @param validator Checks the data against the schema of the adapter that reads it
+   */
+  constructor(adapters: FormatAdapter[] = [], validator?: ResponseValidator) {
+    this.adapters = [...adapters, new CurrentFormatAdapter(), new Ux360FormatAdapter(), new LegacyFormatAdapter()];
+    this.validator = validator;
+  }
+
+  public normalize(raw: unknown): NormalizedThermostat {
+    if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new ParseError('Thermostat data must be an object', raw);
+    }
+
+    const source = raw as Record<string, any>;
+    const adapter = this.adapters.find(candidate => candidate.matches(source));
+    if (!adapter) {
+      throw new ParseError('Thermostat data is in an unknown format', raw);
+    }
+
+    if (adapter.schema) {
+      this.validator?.validate(source, adapter.schema, `thermostat (${adapter.format} format)`);
+    }
+
+    const fields = new FieldReport();
+    const data = adapter.normalize(source, fields);
+    if (data.id === undefined || data.id === null || data.id === '') {
+      throw new ParseError(`Thermostat data has no id (${adapter.format} format)`, raw);
+    }
+
+    return {
+      data,
+      format: `${adapter.format}@${adapter.version}`,
+      unmappedFields: fields.unmapped,
+      rawFeatures: ResponseNormalizer.featureNames(source)
+    };
+  }
+
+  /**
+   * Names in the raw features and settings, which are arrays of named/typed items in the
+   * current format and flag or value maps in the older formats
+   */
+  private static featureNames(raw: Record<string, any>): string[] {
+    const names = new Set<string>();
+    for (const [key, itemKey] of [['features', 'name'], ['settings', 'type']] as const) {
+      const value = raw[key];
+      if (Array.isArray(value)) {
+        for (const item of value) {
+          if (typeof item?.[itemKey] === 'string') {
+            names.add(item[itemKey]);
+          }
+        }
+      } else if (value && typeof value === 'object') {
+        Object.keys(value).forEach(name => names.add(name));
+      }
+    }
+    return Array.from(names).sort();
+  }
+}
@@ -7,17 +7,28 @@ import { AutomationData } from '../types/api';
 import { ITraneAutomation } from '../types/interfaces';
 import { TraneClient } from '../client/trane-client';
 import { GeneralValidator } from '../utils/validation';
-import { DeviceNotFoundError } from '../utils/errors';
+import { DeviceNotFoundError, ValidationError } from '../utils/errors';
 
 export class TraneAutomation implements ITraneAutomation {
   private readonly client: TraneClient;
-  private readonly data: AutomationData;
+  private data: AutomationData;
 
   constructor(client: TraneClient, data: AutomationData) {
     this.client = client;
     this.data = data;
   }
 
+  /**
+   * Replace the backing data with fresh automation data
+   */
+  public updateData(data: AutomationData): void {
+    if (String(data.id) !== this.id) {
+      throw new ValidationError(`Automation data for '${data.id}' cannot update automation '${this.id}'`, 'id', data.id);
+    }
+
+    this.data = data;
+  }
+
   // Identification
   public get id(): string {
     return String(this.data.id);
@@ -6,14 +6,26 @@
 import { SensorData } from '../types/api';
 import { ITraneSensor } from '../types/interfaces';
 import { SensorType, BATTERY_THRESHOLDS } from '../types/constants';
+import { ValidationError } from '../utils/errors';
 
 export class TraneSensor implements ITraneSensor {
-  private readonly data: SensorData;
+  private data: SensorData;
 
   constructor(data: SensorData) {
     this.data = data;
   }
 
+  /**
+   * Replace the backing data with fresh sensor data
+   */
+  public updateData(data: SensorData): void {
+    if (data.id !== this.id) {
+      throw new ValidationError(`Sensor data for '${data.id}' cannot update sensor '${this.id}'`, 'id', data.id);
+    }
+
+    this.data = data;
+  }
+
   // Identification
   public get id(): number {
     return this.data.id;
@@ -49,7 +61,7 @@ export class TraneSensor implements ITraneSensor {
   }
 
   public get isConnected(): boolean | null {
-    return this.data.connected || null;
+    return this.data.connected ?? null;
   }
 
   // Temperature
@@ -79,21 +91,21 @@ export class TraneSensor implements ITraneSensor {
     if (this.data.battery?.level !== undefined) {
       return this.data.battery.level;
     }
-    return this.data.battery_level || null;
+    return this.data.battery_level ?? null;
   }
 
   public get batteryLow(): boolean | null {
     if (this.data.battery?.low !== undefined) {
       return this.data.battery.low;
     }
-    return this.data.battery_low || null;
+    return this.data.battery_low ?? null;
   }
 
   public get batteryValid(): boolean | null {
     if (this.data.battery?.valid !== undefined) {
       return this.data.battery.valid;
     }
-    return this.data.battery_valid || null;
+    return this.data.battery_valid ?? null;
   }
 
   public get batteryStatus(): 'good' | 'low' | 'critical' | 'unknown' {
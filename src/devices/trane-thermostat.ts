@@ -8,7 +8,9 @@ import {
   DeviceCapabilities,
   SystemStatusSummary,
   HumidityOptions,
-  FanOptions
+  FanOptions,
+  SetpointLimits,
+  FanSpeedLimits
 } from '../types/api';
 import {
   ITraneThermostat,
@@ -19,11 +21,15 @@ import {
   AirCleanerMode,
   TemperatureUnit,
   BLOWER_OFF_STATUSES,
-  API_ENDPOINTS,
-  API_CONSTANTS
+  API_ENDPOINTS
 } from '../types/constants';
 import { TraneClient } from '../client/trane-client';
+import { WriteHandle, WriteRequest } from '../client/write-confirmer';
+import { CommandQueue } from '../client/command-queue';
 import { TraneZone } from './trane-zone';
+import { OptimisticState } from './optimistic-state';
+import { ActionRegistry, ThermostatAction, THERMOSTAT_ACTIONS } from './action-registry';
+import { NormalizedThermostat } from './response-normalizer';
 import {
   TemperatureValidator,
   HumidityValidator,
@@ -38,101 +44,61 @@ import {
 
 export class TraneThermostat implements ITraneThermostat {
   private readonly client: TraneClient;
-  private readonly data: ThermostatData;
-  private readonly zonesMap: Map<string, ITraneZone> = new Map();
-
-  constructor(client: TraneClient, rawData: any) {
+  private readonly _houseId?: number;
+  private data: ThermostatData;
+  private readonly zonesMap: Map<string, TraneZone> = new Map();
+  private readonly commands: CommandQueue;
+  private readonly optimistic: OptimisticState = new OptimisticState();
+  private format: string = '';
+  private unmapped: string[] = [];
+  private rawFeatures: string[] = [];
+
+  constructor(client: TraneClient, rawData: any, houseId?: number) {
     this.client = client;
-    this.data = this.transformApiData(rawData);
-    this.initializeZones();
+    this._houseId = houseId;
+    this.commands = client.createCommandQueue(houseId);
+    this.data = this.applyNormalized(client.normalizer.normalize(rawData));
+    this.reconcileZones();
   }
 
   /**
-   * Transform API response data to internal format
-   * Handles both legacy format and current array-based features format
+   * Replace the backing data with a fresh API payload
+   * Existing zone objects are updated in place so held references stay current
    */
-  private transformApiData(rawData: any): ThermostatData {
-    // Check if already in expected format (has settings as an object, not an array)
-    const hasSettingsObject = rawData.settings && typeof rawData.settings === 'object' && !Array.isArray(rawData.settings);
-    const hasFeaturesObject = rawData.features && typeof rawData.features === 'object' && !Array.isArray(rawData.features);
-
-    if (hasSettingsObject || hasFeaturesObject) {
-      return rawData as ThermostatData;
-    }
+  public updateData(rawData: any): void {
+    const normalized = this.client.normalizer.normalize(rawData);
 
-    // Transform array-based format
-    // The raw API puts name-based items in "features" and type-based items in "settings"
-    const features = Array.isArray(rawData.features) ? rawData.features : [];
-    const settingsArray = Array.isArray(rawData.settings) ? rawData.settings : [];
-
-    // Find specific feature objects (name-based, in features array)
-    const advancedInfo = features.find((f: any) => f.name === 'advanced_info');
-    const thermostatFeature = features.find((f: any) => f.name === 'thermostat');
-    const connectionFeature = features.find((f: any) => f.name === 'connection');
-
-    // Extract model and firmware from advanced_info
-    let model = 'Unknown';
-    let firmware = 'Unknown';
-    if (advancedInfo?.items) {
-      for (const item of advancedInfo.items) {
-        if (item.label === 'Model') model = item.value;
-        if (item.label === 'Firmware Version') firmware = item.value;
-      }
+    if (String(normalized.data.id) !== this.id) {
+      throw new ValidationError(
+        `Thermostat data for '${normalized.data.id}' cannot update thermostat '${this.id}'`,
+        'id',
+        normalized.data.id
+      );
     }
 
-    // Build transformed data
-    const transformed: ThermostatData = {
-      id: rawData.id,
-      name: rawData.name,
-      model,
-      firmware,
-      is_online: connectionFeature?.is_connected ?? true,
-      features: {
-        has_zones: false,
-        has_outdoor_temperature: !!rawData.has_outdoor_temperature,
-        has_relative_humidity: !!rawData.has_indoor_humidity,
-        has_variable_speed_compressor: false,
-        has_emergency_heat: false,
-        has_variable_fan_speed: false,
-        has_dehumidify_support: !!settingsArray.find((f: any) => f.type === 'dehumidify'),
-        has_humidify_support: !!settingsArray.find((f: any) => f.type === 'humidify'),
-        has_air_cleaner: !!settingsArray.find((f: any) => f.type === 'air_cleaner_mode')
-      },
-      settings: {},
-      zones: [],
-      // Preserve raw features for zone extraction
-      _rawFeatures: features
-    };
-
-    // Extract settings from thermostat feature and device-level fields
-    const dehumidifyFeature = settingsArray.find((f: any) => f.type === 'dehumidify');
-    const humidifyFeature = settingsArray.find((f: any) => f.type === 'humidify');
-
-    if (thermostatFeature) {
-      transformed.settings = {
-        temperature_unit: thermostatFeature.scale === 'c' ? TemperatureUnit.CELSIUS : TemperatureUnit.FAHRENHEIT,
-        deadband: thermostatFeature.setpoint_delta || 3,
-        system_status: thermostatFeature.system_status || thermostatFeature.status
-      };
-    }
+    this.data = this.applyNormalized(normalized);
+    this.reconcileZones();
+  }
 
-    // Map device-level humidity and outdoor temperature
-    if (rawData.indoor_humidity != null) {
-      transformed.settings!.relative_humidity = parseFloat(rawData.indoor_humidity) / 100;
-    }
-    if (rawData.outdoor_temperature != null) {
-      transformed.settings!.outdoor_temperature = parseFloat(rawData.outdoor_temperature);
-    }
+  /**
+   * Response format the thermostat data was read as (e.g. "current@1")
+   */
+  public get dataFormat(): string {
+    return this.format;
+  }
 
-    // Map dehumidify/humidify setpoints from feature array
-    if (dehumidifyFeature) {
-      transformed.settings!.dehumidify_setpoint = dehumidifyFeature.current_value;
-    }
-    if (humidifyFeature) {
-      transformed.settings!.humidify_setpoint = humidifyFeature.current_value;
-    }
+  /**
+   * Fields of the last API payload that were not mapped, by dotted path
+   */
+  public get unmappedFields(): string[] {
+    return [...this.unmapped];
+  }
 
-    return transformed;
+  /**
+   * Feature names and setting types of the last API payload, before normalization
+   */
+  public get rawFeatureNames(): string[] {
+    return [...this.rawFeatures];
   }
 
   // Identification
@@ -144,6 +110,13 @@ export class TraneThermostat implements ITraneThermostat {
     return this.data.name || `Thermostat ${this.id}`;
   }
 
+  /**
+   * House this thermostat belongs to; refreshes after commands target this house
+   */
+  public get houseId(): number | undefined {
+    return this._houseId;
+  }
+
   // System information
   public get model(): string {
     return this.data.model || 'Unknown';
@@ -245,7 +218,7 @@ export class TraneThermostat implements ITraneThermostat {
     if (!this.hasEmergencyHeat) {
       return false;
     }
-    return this.data.settings?.emergency_heat_active || false;
+    return this.optimistic.get('isEmergencyHeatActive', this.data.settings?.emergency_heat_active || false);
   }
 
   public get currentCompressorSpeed(): number {
@@ -272,16 +245,36 @@ export class TraneThermostat implements ITraneThermostat {
   }
 
   // Setpoint limits
-  public get setpointLimits(): {
-    heatMin: number;
-    heatMax: number;
-    coolMin: number;
-    coolMax: number;
-  } {
-    // Get limits from temperature unit
-    const limits = TemperatureValidator.getTemperatureLimits(this.temperatureUnit);
-
-    // TODO: Could be enhanced to get actual limits from device if available
+  /**
+   * Setpoints every zone accepts: the overlap of the limits the zones report,
+   * or the unit's limits when they report none or do not overlap. Zones that
+   * report limits are still checked against their own
+   */
+  public get setpointLimits(): SetpointLimits {
+    const reported = (this.data.zones ?? [])
+      .map(zone => zone.features?.setpoint_limits)
+      .filter((limits): limits is SetpointLimits => limits !== undefined);
+
+    const unitLimits = TraneThermostat.unitSetpointLimits(this.temperatureUnit);
+    if (reported.length === 0) {
+      return unitLimits;
+    }
+
+    const overlap = {
+      heatMin: Math.max(...reported.map(limits => limits.heatMin)),
+      heatMax: Math.min(...reported.map(limits => limits.heatMax)),
+      coolMin: Math.max(...reported.map(limits => limits.coolMin)),
+      coolMax: Math.min(...reported.map(limits => limits.coolMax))
+    };
+
+    return overlap.heatMin > overlap.heatMax || overlap.coolMin > overlap.coolMax ? unitLimits : overlap;
+  }
+
+  /**
+   * Setpoint limits of a temperature unit, for devices that report none
+   */
+  public static unitSetpointLimits(unit: TemperatureUnit): SetpointLimits {
+    const limits = TemperatureValidator.getTemperatureLimits(unit);
     return {
       heatMin: limits.min,
       heatMax: limits.max,
@@ -292,63 +285,70 @@ export class TraneThermostat implements ITraneThermostat {
 
   // Fan control
   public get availableFanModes(): string[] {
-    // Extract from device data or return common defaults
-    return this.extractAvailableValues() || ['auto', 'on', 'circulate'];
+    // Reported by the fan_mode setting, else common defaults
+    return this.data.settings?.available_fan_modes ?? ['auto', 'on', 'circulate'];
   }
 
   public get currentFanMode(): string | null {
-    return this.data.settings?.fan_mode || null;
+    return this.optimistic.get('currentFanMode', this.data.settings?.fan_mode || null);
   }
 
-  public get fanSpeedLimits(): { min: number; max: number } {
+  public get fanSpeedLimits(): FanSpeedLimits {
     if (!this.hasVariableFanSpeed) {
       return { min: 0, max: 1 };
     }
 
-    // TODO: Extract actual limits from device data if available
-    return {
-      min: 0.0,
-      max: 1.0
-    };
+    return this.data.settings?.fan_speed_limits ?? { min: 0.0, max: 1.0 };
+  }
+
+  /**
+   * Speeds the fan_speed setting lists, or null when any speed within fanSpeedLimits is accepted
+   */
+  public get availableFanSpeeds(): number[] | null {
+    if (!this.hasVariableFanSpeed) {
+      return null;
+    }
+
+    const speeds = this.data.settings?.available_fan_speeds;
+    return speeds && speeds.length > 0 ? speeds : null;
   }
 
   public get currentFanSpeed(): number {
     if (!this.hasVariableFanSpeed) {
       return 0;
     }
-    return this.data.settings?.fan_speed || 0;
+    return this.optimistic.get('currentFanSpeed', this.data.settings?.fan_speed || 0);
   }
 
-  public async setFanMode(mode: string): Promise<void> {
-    const validMode = GeneralValidator.validateRequiredString(mode, 'fanMode');
+  public setFanMode(mode: string): WriteHandle<Record<string, any>> {
+    let validMode: string;
 
-    if (!this.availableFanModes.includes(validMode)) {
-      throw new ValidationError(
-        `Invalid fan mode '${validMode}'. Available modes: ${this.availableFanModes.join(', ')}`,
-        'fanMode',
-        validMode
-      );
-    }
+    return this.write(`thermostat ${this.id} fan mode ${mode}`, async () => {
+      validMode = GeneralValidator.validateRequiredString(mode, 'fanMode');
 
-    const endpoint = await this.getThermostatEndpoint('fan_mode');
-    await this.client.post(endpoint, { fan_mode: validMode });
+      if (!this.availableFanModes.includes(validMode)) {
+        throw new ValidationError(
+          `Invalid fan mode '${validMode}'. Available modes: ${this.availableFanModes.join(', ')}`,
+          'fanMode',
+          validMode
+        );
+      }
 
-    // Delayed update to allow device to reflect changes
-    await this.delayedUpdate();
+      return this.actions.request('fan_mode', { fan_mode: validMode });
+    }, () => this.currentFanMode === validMode, () => ({ currentFanMode: validMode }));
   }
 
-  public async setFanSpeed(speed: number): Promise<void> {
-    if (!this.hasVariableFanSpeed) {
-      throw new FeatureNotSupportedError('variable fan speed', this.model);
-    }
-
-    const validSpeed = FanSpeedValidator.roundFanSpeed(speed);
-    FanSpeedValidator.validateFanSpeed(validSpeed);
+  public setFanSpeed(speed: number): WriteHandle<Record<string, any>> {
+    let validSpeed: number;
 
-    const endpoint = await this.getThermostatEndpoint('fan_speed');
-    await this.client.post(endpoint, { fan_speed: validSpeed });
+    return this.write(`thermostat ${this.id} fan speed ${speed}`, async () => {
+      if (!this.hasVariableFanSpeed) {
+        throw new FeatureNotSupportedError('variable fan speed', this.model);
+      }
 
-    await this.delayedUpdate();
+      validSpeed = this.validateFanSpeed(speed);
+      return this.actions.request('fan_speed', { fan_speed: validSpeed });
+    }, () => this.currentFanSpeed === validSpeed, () => ({ currentFanSpeed: validSpeed }));
   }
 
   public async setFanOptions(options: FanOptions): Promise<void> {
@@ -370,14 +370,14 @@ export class TraneThermostat implements ITraneThermostat {
     if (!this.hasHumidifySupport) {
       return 0;
     }
-    return this.data.settings?.humidify_setpoint || 0.35; // Default 35%
+    return this.optimistic.get('humidifySetpoint', this.data.settings?.humidify_setpoint || 0.35); // Default 35%
   }
 
   public get dehumidifySetpoint(): number {
     if (!this.hasDehumidifySupport) {
       return 1;
     }
-    return this.data.settings?.dehumidify_setpoint || 0.60; // Default 60%
+    return this.optimistic.get('dehumidifySetpoint', this.data.settings?.dehumidify_setpoint || 0.60); // Default 60%
   }
 
   public get humiditySetpoints(): number[] {
@@ -406,78 +406,99 @@ export class TraneThermostat implements ITraneThermostat {
     }
   }
 
-  public async setDehumidifySetpoint(value: number): Promise<void> {
-    if (!this.hasDehumidifySupport) {
-      throw new FeatureNotSupportedError('dehumidify control', this.model);
-    }
-
+  public setDehumidifySetpoint(value: number): WriteHandle<Record<string, any>> {
     const validValue = HumidityValidator.roundHumidity(value);
-    HumidityValidator.validateHumiditySetpoint(validValue);
 
-    const endpoint = await this.getThermostatEndpoint('dehumidify');
-    await this.client.post(endpoint, { dehumidify_setpoint: validValue });
+    return this.write(`thermostat ${this.id} dehumidify setpoint ${value}`, async () => {
+      if (!this.hasDehumidifySupport) {
+        throw new FeatureNotSupportedError('dehumidify control', this.model);
+      }
 
-    await this.delayedUpdate();
-  }
+      HumidityValidator.validateHumiditySetpoint(validValue);
 
-  public async setHumidifySetpoint(value: number): Promise<void> {
-    if (!this.hasHumidifySupport) {
-      throw new FeatureNotSupportedError('humidify control', this.model);
-    }
+      return this.actions.request('dehumidify', { dehumidify_setpoint: validValue });
+    }, () => this.dehumidifySetpoint === validValue, () => ({ dehumidifySetpoint: validValue }));
+  }
 
+  public setHumidifySetpoint(value: number): WriteHandle<Record<string, any>> {
     const validValue = HumidityValidator.roundHumidity(value);
-    HumidityValidator.validateHumiditySetpoint(validValue);
 
-    const endpoint = await this.getThermostatEndpoint('humidify');
-    await this.client.post(endpoint, { humidify_setpoint: validValue });
+    return this.write(`thermostat ${this.id} humidify setpoint ${value}`, async () => {
+      if (!this.hasHumidifySupport) {
+        throw new FeatureNotSupportedError('humidify control', this.model);
+      }
+
+      HumidityValidator.validateHumiditySetpoint(validValue);
 
-    await this.delayedUpdate();
+      return this.actions.request('humidify', { humidify_setpoint: validValue });
+    }, () => this.humidifySetpoint === validValue, () => ({ humidifySetpoint: validValue }));
   }
 
   // Air cleaner
   public get airCleanerMode(): string | null {
-    return this.data.settings?.air_cleaner_mode || null;
+    return this.optimistic.get('airCleanerMode', this.data.settings?.air_cleaner_mode || null);
   }
 
   public get availableAirCleanerModes(): AirCleanerMode[] {
-    return [AirCleanerMode.AUTO, AirCleanerMode.QUICK, AirCleanerMode.ALLERGY];
+    const modes = Object.values(AirCleanerMode);
+    const available = this.data.settings?.available_air_cleaner_modes;
+    if (!available) {
+      return modes;
+    }
+
+    const reported = available.map(mode => mode.toLowerCase());
+    return modes.filter(mode => reported.includes(mode));
   }
 
-  public async setAirCleanerMode(mode: AirCleanerMode): Promise<void> {
-    if (!this.hasAirCleaner) {
-      throw new FeatureNotSupportedError('air cleaner', this.model);
-    }
+  public setAirCleanerMode(mode: AirCleanerMode): WriteHandle<Record<string, any>> {
+    let validMode: AirCleanerMode;
 
-    const validMode = GeneralValidator.validateEnum(mode, AirCleanerMode, 'airCleanerMode');
+    return this.write(`thermostat ${this.id} air cleaner mode ${mode}`, async () => {
+      if (!this.hasAirCleaner) {
+        throw new FeatureNotSupportedError('air cleaner', this.model);
+      }
+
+      validMode = GeneralValidator.validateEnum(mode, AirCleanerMode, 'airCleanerMode');
 
-    const endpoint = await this.getThermostatEndpoint('air_cleaner_mode');
-    await this.client.post(endpoint, { air_cleaner_mode: validMode });
+      if (!this.availableAirCleanerModes.includes(validMode)) {
+        throw new ValidationError(
+          `Air cleaner mode '${validMode}' is not available. Available modes: ${this.availableAirCleanerModes.join(', ')}`,
+          'airCleanerMode',
+          validMode
+        );
+      }
 
-    await this.delayedUpdate();
+      return this.actions.request('air_cleaner_mode', { air_cleaner_mode: validMode });
+    }, () => this.airCleanerMode === validMode, () => ({ airCleanerMode: validMode }));
   }
 
   // Emergency heat
-  public async setEmergencyHeat(enabled: boolean): Promise<void> {
-    if (!this.hasEmergencyHeat) {
-      throw new FeatureNotSupportedError('emergency heat', this.model);
-    }
+  public setEmergencyHeat(enabled: boolean): WriteHandle<Record<string, any>> {
+    let validEnabled: boolean;
 
-    const validEnabled = GeneralValidator.validateBoolean(enabled, 'enabled');
+    return this.write(`thermostat ${this.id} emergency heat ${enabled}`, async () => {
+      if (!this.hasEmergencyHeat) {
+        throw new FeatureNotSupportedError('emergency heat', this.model);
+      }
 
-    const endpoint = await this.getThermostatEndpoint('emergency_heat');
-    await this.client.post(endpoint, { emergency_heat: validEnabled });
+      validEnabled = GeneralValidator.validateBoolean(enabled, 'enabled');
 
-    await this.delayedUpdate();
+      // The setting lists "on" and "off", not booleans
+      return this.actions.request('emergency_heat', { emergency_heat: validEnabled ? 'on' : 'off' });
+    }, () => this.isEmergencyHeatActive === validEnabled, () => ({ isEmergencyHeatActive: validEnabled }));
   }
 
   // Schedule control
-  public async setFollowSchedule(follow: boolean): Promise<void> {
-    const validFollow = GeneralValidator.validateBoolean(follow, 'follow');
+  public setFollowSchedule(follow: boolean): WriteHandle<Record<string, any>> {
+    return this.write(`thermostat ${this.id} follow schedule ${follow}`, async () => {
+      const validFollow = GeneralValidator.validateBoolean(follow, 'follow');
 
-    const endpoint = await this.getThermostatEndpoint('scheduling_enabled');
-    await this.client.post(endpoint, { scheduling_enabled: validFollow });
+      return this.actions.request('scheduling_enabled', { scheduling_enabled: validFollow ? 'on' : 'off' });
+    }, () => true, () => ({})); // Not reported in house data; confirmed once a refresh succeeds
+  }
 
-    await this.delayedUpdate();
+  public get pendingProperties(): string[] {
+    return this.optimistic.pendingProperties;
   }
 
   // Zone management
@@ -495,88 +516,58 @@ export class TraneThermostat implements ITraneThermostat {
 
   // Data refresh
   public async refresh(): Promise<void> {
-    await this.client.update({ forceUpdate: true });
+    await this.client.update({ forceUpdate: true, houseId: this.houseId });
   }
 
   // Private helper methods
 
   /**
-   * Initialize zones from thermostat data
+   * Reconcile zone objects against the current thermostat data
+   * Zones are matched by id: existing ones are updated, new ones created and missing ones dropped
    */
-  private initializeZones(): void {
-    this.zonesMap.clear();
-
-    // First try explicit zones array
-    if (this.data.zones && this.data.zones.length > 0) {
-      for (const zoneData of this.data.zones) {
-        try {
-          const zone = new TraneZone(this.client, this, zoneData);
-          this.zonesMap.set(zone.id, zone);
-        } catch (error) {
-          console.warn(`Failed to create zone ${zoneData.id}:`, error);
+  private reconcileZones(): void {
+    const seen = new Set<string>();
+
+    for (const zoneData of this.data.zones ?? []) {
+      const zoneId = TraneZone.resolveId(zoneData);
+      seen.add(zoneId);
+
+      try {
+        const existing = this.zonesMap.get(zoneId);
+        if (existing) {
+          existing.updateData(zoneData);
+        } else {
+          this.zonesMap.set(zoneId, new TraneZone(this.client, this, zoneData));
         }
+      } catch (error) {
+        this.client.logger.warn(`Failed to update zone ${zoneId}:`, error);
       }
-      return;
     }
 
-    // Extract zone from raw features (current API format)
-    const rawFeatures = (this.data as any)._rawFeatures;
-    if (rawFeatures && Array.isArray(rawFeatures)) {
-      const thermostatFeature = rawFeatures.find((f: any) => f.name === 'thermostat');
-      const modeFeature = rawFeatures.find((f: any) => f.name === 'thermostat_mode');
-      const runModeFeature = rawFeatures.find((f: any) => f.name === 'thermostat_run_mode');
-      const sensorFeature = rawFeatures.find((f: any) => f.name === 'room_iq_sensors');
-
-      if (thermostatFeature) {
-        // Extract zone ID from device_identifier (e.g., "XxlZone-85588519" -> 85588519)
-        let zoneId = String(this.data.id);
-        if (thermostatFeature.device_identifier) {
-          const match = thermostatFeature.device_identifier.match(/XxlZone-(\d+)/);
-          if (match) {
-            zoneId = match[1];
-          }
-        }
-
-        // Get temperature from sensor if available (more accurate)
-        let currentTemp = thermostatFeature.temperature;
-        if (sensorFeature?.sensors?.length > 0) {
-          const primarySensor = sensorFeature.sensors[0];
-          if (primarySensor.temperature_valid) {
-            currentTemp = primarySensor.temperature;
-          }
-        }
-
-        const zoneData = {
-          id: zoneId,
-          name: this.data.name || 'Zone 1',
-          features: {
-            heating_setpoint: thermostatFeature.setpoint_heat,
-            cooling_setpoint: thermostatFeature.setpoint_cool,
-            current_mode: modeFeature?.value,
-            setpoint_status: runModeFeature?.value,
-            is_calling: thermostatFeature.operating_state !== 'idle'
-          },
-          settings: {
-            temperature: currentTemp,
-            status: thermostatFeature.operating_state || thermostatFeature.status
-          },
-          _rawActions: {
-            setpoints: thermostatFeature.actions?.set_heat_setpoint?.href,
-            zone_mode: modeFeature?.actions?.update_thermostat_mode?.href,
-            run_mode: runModeFeature?.actions?.update_thermostat_run_mode?.href
-          }
-        };
-
-        try {
-          const zone = new TraneZone(this.client, this, zoneData);
-          this.zonesMap.set(zone.id, zone);
-        } catch (error) {
-          console.warn(`Failed to create zone from thermostat feature:`, error);
-        }
+    for (const zoneId of Array.from(this.zonesMap.keys())) {
+      if (!seen.has(zoneId)) {
+        this.zonesMap.delete(zoneId);
       }
     }
   }
 
+  /**
+   * Keep the format details of normalized data; newly unmapped fields are logged once
+   */
+  private applyNormalized(normalized: NormalizedThermostat): ThermostatData {
+    const added = normalized.unmappedFields.filter(field => !this.unmapped.includes(field));
+    if (added.length > 0) {
+      this.client.logger.debug(
+        `Thermostat ${normalized.data.id} (${normalized.format}) has unmapped fields: ${added.join(', ')}`
+      );
+    }
+
+    this.format = normalized.format;
+    this.unmapped = normalized.unmappedFields;
+    this.rawFeatures = normalized.rawFeatures;
+    return normalized.data;
+  }
+
   /**
    * Parse system status string into enum
    */
@@ -601,28 +592,30 @@ export class TraneThermostat implements ITraneThermostat {
     }
   }
 
+
   /**
-   * Extract available values for a feature from device data
+   * Write targets from the thermostat's settings; writes the device lists no link for
+   * go to the thermostat URL
    */
-  private extractAvailableValues(): string[] | null {
-    // This would extract available values from the device JSON structure
-    // Implementation depends on how the API provides this information
-    // For now, return null to use defaults
-    return null;
+  private get actions(): ActionRegistry<ThermostatAction> {
+    const fallbackBase = this.data._links?.self?.href ?? `${API_ENDPOINTS.THERMOSTAT}/${this.id}`;
+    return new ActionRegistry(THERMOSTAT_ACTIONS, this.data._rawActions ?? {}, fallbackBase);
   }
 
   /**
-   * Get thermostat endpoint URL for a specific operation
+   * Validate a fan speed, returning the speed to send
+   * A device that lists its speeds accepts only those; otherwise any 0.1 step in range
    */
-  private async getThermostatEndpoint(operation: string): Promise<string> {
-    // Try to find endpoint from device data links first
-    const selfLink = this.data._links?.self?.href;
-    if (selfLink) {
-      return `${selfLink}/${operation}`;
+  private validateFanSpeed(speed: number): number {
+    const speeds = this.availableFanSpeeds;
+    if (speeds) {
+      FanSpeedValidator.validateListedFanSpeed(speed, speeds);
+      return speed;
     }
 
-    // Fallback to standard endpoint pattern
-    return `${API_ENDPOINTS.THERMOSTAT}/${this.id}/${operation}`;
+    const rounded = FanSpeedValidator.roundFanSpeed(speed);
+    FanSpeedValidator.validateFanSpeed(rounded, this.fanSpeedLimits);
+    return rounded;
   }
 
   /**
@@ -636,8 +629,7 @@ export class TraneThermostat implements ITraneThermostat {
     }
 
     if (options.speed !== undefined) {
-      FanSpeedValidator.validateFanSpeed(options.speed);
-      validated.speed = FanSpeedValidator.roundFanSpeed(options.speed);
+      validated.speed = this.validateFanSpeed(options.speed);
     }
 
     if (options.schedule !== undefined) {
@@ -648,10 +640,32 @@ export class TraneThermostat implements ITraneThermostat {
   }
 
   /**
-   * Delayed update helper
+   * Queue a thermostat write and confirm it against this thermostat's refreshed state
+   * With optimistic updates, the requested values show until the write settles
    */
-  private async delayedUpdate(): Promise<void> {
-    await this.client.delayedUpdate(API_CONSTANTS.UPDATE_DELAY_SECONDS * 1000);
+  private write(
+    description: string,
+    prepare: () => Promise<WriteRequest>,
+    isApplied: (keys: string[]) => boolean,
+    requested: () => Record<string, unknown>
+  ): WriteHandle<Record<string, any>> {
+    const write = { description, prepare, isApplied, read: () => this.getStatusSummary() };
+
+    if (!this.client.optimisticUpdates) {
+      return this.commands.enqueue(write);
+    }
+
+    return this.optimistic.enqueue(this.commands, write, requested, (values, error) => {
+      this.client.emit('rollback', {
+        timestamp: new Date(),
+        deviceType: 'thermostat',
+        deviceId: this.id,
+        thermostatId: this.id,
+        requested: values,
+        error,
+        device: this
+      });
+    });
   }
 
   /**
@@ -6,6 +6,7 @@
 import {
   ZoneData,
   ZoneStatusSummary,
+  SetpointLimits,
   TemperatureOptions,
   HoldOptions,
   SensorSelectionOptions
@@ -15,10 +16,16 @@ import {
   OperationMode,
   PresetMode,
   ZoneStatus,
-  API_ENDPOINTS,
-  API_CONSTANTS
+  DamperState,
+  API_ENDPOINTS
 } from '../types/constants';
 import { TraneClient } from '../client/trane-client';
+import { WriteHandle, WriteRequest } from '../client/write-confirmer';
+import { CommandQueue } from '../client/command-queue';
+import { TimedHold } from '../client/hold-store';
+import { OptimisticState } from './optimistic-state';
+import { ZoneSchedule } from './zone-schedule';
+import { ActionRegistry, ZoneAction, ZONE_ACTIONS } from './action-registry';
 import { TraneSensor } from './trane-sensor';
 import {
   TemperatureValidator,
@@ -26,26 +33,60 @@ import {
   TraneValidator
 } from '../utils/validation';
 import {
-  ValidationError
+  ValidationError,
+  FeatureNotSupportedError
 } from '../utils/errors';
 
+// Longest timed hold accepted (one year)
+const MAX_HOLD_MINUTES = 525600;
+
+// Named fields of a setpoints write
+interface SetpointsPayload {
+  heating_setpoint?: number;
+  cooling_setpoint?: number;
+}
+
 export class TraneZone implements ITraneZone {
   private readonly client: TraneClient;
   private readonly thermostatRef: ITraneThermostat;
-  private readonly data: ZoneData;
-  private readonly sensorsMap: Map<number, ITraneSensor> = new Map();
+  private data: ZoneData;
+  private readonly sensorsMap: Map<number, TraneSensor> = new Map();
+  private readonly commands: CommandQueue;
+  private readonly optimistic: OptimisticState = new OptimisticState();
 
   constructor(client: TraneClient, thermostat: ITraneThermostat, data: ZoneData) {
     this.client = client;
     this.thermostatRef = thermostat;
+    this.commands = client.createCommandQueue(thermostat.houseId);
     this.data = data;
-    this.initializeSensors();
+    this.reconcileSensors();
+  }
+
+  /**
+   * Zone id of normalized zone data
+   */
+  public static resolveId(data: ZoneData): string {
+    return String(data.id);
+  }
+
+  /**
+   * Replace the backing data with fresh zone data
+   * Existing sensor objects are updated in place so held references stay current
+   */
+  public updateData(data: ZoneData): void {
+    const zoneId = TraneZone.resolveId(data);
+
+    if (zoneId !== this.id) {
+      throw new ValidationError(`Zone data for '${zoneId}' cannot update zone '${this.id}'`, 'id', zoneId);
+    }
+
+    this.data = data;
+    this.reconcileSensors();
   }
 
   // Identification
   public get id(): string {
-    // Handle UX360 naming differences
-    return String(this.data.zone_id || this.data.id);
+    return TraneZone.resolveId(this.data);
   }
 
   public get name(): string {
@@ -58,25 +99,28 @@ export class TraneZone implements ITraneZone {
 
   // Temperature
   public get currentTemperature(): number {
-    // Handle both API formats: direct property or nested in settings
-    return (this.data as any).temperature ?? this.data.settings?.temperature ?? 0;
+    return this.data.settings?.temperature ?? 0;
   }
 
   public get heatingSetpoint(): number {
-    // Handle both API formats: direct property or nested in features
-    return (this.data as any).heating_setpoint ?? (this.data as any).setpoints?.heat ?? this.data.features?.heating_setpoint ?? 70;
+    return this.optimistic.get('heatingSetpoint', this.data.features?.heating_setpoint ?? 70);
   }
 
   public get coolingSetpoint(): number {
-    // Handle both API formats: direct property or nested in features
-    return (this.data as any).cooling_setpoint ?? (this.data as any).setpoints?.cool ?? this.data.features?.cooling_setpoint ?? 75;
+    return this.optimistic.get('coolingSetpoint', this.data.features?.cooling_setpoint ?? 75);
+  }
+
+  /**
+   * Setpoints this zone accepts, as reported by the device (else the thermostat's limits)
+   */
+  public get setpointLimits(): SetpointLimits {
+    return this.data.features?.setpoint_limits ?? this.thermostat.setpointLimits;
   }
 
   // Mode control
   public get currentMode(): OperationMode {
-    // Handle both API formats
-    const mode = (this.data as any).current_zone_mode ?? this.data.features?.current_mode;
-    return this.parseOperationMode(mode);
+    const mode = this.data.features?.current_mode;
+    return this.optimistic.get('currentMode', this.parseOperationMode(mode));
   }
 
   public get requestedMode(): OperationMode {
@@ -85,68 +129,46 @@ export class TraneZone implements ITraneZone {
   }
 
   public get availableModes(): OperationMode[] {
-    // Extract from device data or return all modes
-    return [OperationMode.AUTO, OperationMode.HEAT, OperationMode.COOL, OperationMode.OFF];
-  }
-
-  public async setMode(mode: OperationMode): Promise<void> {
-    const validMode = GeneralValidator.validateEnum<OperationMode>(mode, OperationMode, 'mode');
-
-    if (!this.availableModes.includes(validMode)) {
-      throw new ValidationError(
-        `Mode '${validMode}' is not available. Available modes: ${this.availableModes.join(', ')}`,
-        'mode',
-        validMode
-      );
+    const modes = [OperationMode.AUTO, OperationMode.HEAT, OperationMode.COOL, OperationMode.OFF];
+    const available = this.data.settings?.available_modes;
+    if (!Array.isArray(available)) {
+      // Not reported: assume all modes
+      return modes;
     }
 
-    const endpoint = await this.getZoneEndpoint('zone_mode');
-    await this.client.post(endpoint, { zone_mode: validMode });
-
-    await this.delayedUpdate();
+    const reported = available.map(mode => String(mode).toUpperCase());
+    return modes.filter(mode => reported.includes(mode));
   }
 
-  // Setpoint control
-  public async setTemperatures(options: TemperatureOptions): Promise<void> {
-    TraneValidator.validateTemperatureConfig({
-      heatTemp: options.heatingSetpoint,
-      coolTemp: options.coolingSetpoint,
-      setTemp: options.setTemp,
-      deadband: this.thermostat.deadband,
-      unit: this.thermostat.temperatureUnit
-    });
+  public setMode(mode: OperationMode): WriteHandle<ZoneStatusSummary> {
+    let validMode: OperationMode;
 
-    const payload: any = {};
-
-    if (options.setTemp !== undefined) {
-      // Single setpoint mode
-      const roundedTemp = this.roundTemperature(options.setTemp);
-      payload.setpoint = roundedTemp;
-    } else {
-      // Dual setpoint mode
-      if (options.heatingSetpoint !== undefined) {
-        const roundedHeat = this.roundTemperature(options.heatingSetpoint);
-        payload.heating_setpoint = roundedHeat;
-      }
+    return this.write(`zone ${this.id} mode ${mode}`, async () => {
+      validMode = GeneralValidator.validateEnum<OperationMode>(mode, OperationMode, 'mode');
 
-      if (options.coolingSetpoint !== undefined) {
-        const roundedCool = this.roundTemperature(options.coolingSetpoint);
-        payload.cooling_setpoint = roundedCool;
+      if (!this.availableModes.includes(validMode)) {
+        throw new ValidationError(
+          `Mode '${validMode}' is not available. Available modes: ${this.availableModes.join(', ')}`,
+          'mode',
+          validMode
+        );
       }
-    }
 
-    const endpoint = await this.getZoneEndpoint('setpoints');
-    await this.client.post(endpoint, payload);
+      return this.actions.request('zone_mode', { zone_mode: validMode });
+    }, () => this.currentMode === validMode, () => ({ currentMode: validMode }));
+  }
 
-    await this.delayedUpdate();
+  // Setpoint control
+  public setTemperatures(options: TemperatureOptions): WriteHandle<ZoneStatusSummary> {
+    return this.writeSetpoints(`zone ${this.id} setpoints ${JSON.stringify(options)}`, () => options);
   }
 
-  public async setHeatingSetpoint(temperature: number): Promise<void> {
-    await this.setTemperatures({ heatingSetpoint: temperature });
+  public setHeatingSetpoint(temperature: number): WriteHandle<ZoneStatusSummary> {
+    return this.setTemperatures({ heatingSetpoint: temperature });
   }
 
-  public async setCoolingSetpoint(temperature: number): Promise<void> {
-    await this.setTemperatures({ coolingSetpoint: temperature });
+  public setCoolingSetpoint(temperature: number): WriteHandle<ZoneStatusSummary> {
+    return this.setTemperatures({ coolingSetpoint: temperature });
   }
 
   // Status
@@ -169,6 +191,13 @@ export class TraneZone implements ITraneZone {
     return this.data.features?.is_calling || false;
   }
 
+  /**
+   * Damper position on zoned systems; null when the system does not report one
+   */
+  public get damperPosition(): DamperState | null {
+    return this.data.features?.damper_position ?? null;
+  }
+
   // Hold/schedule control
   public get setpointStatus(): string {
     return this.data.features?.setpoint_status || 'Unknown';
@@ -176,46 +205,100 @@ export class TraneZone implements ITraneZone {
 
   public get isInPermanentHold(): boolean {
     const status = this.setpointStatus.toLowerCase();
-    return status.includes('hold') && !status.includes('schedule');
+    return this.optimistic.get('isInPermanentHold', status.includes('hold') && !status.includes('schedule'));
   }
 
-  public async setPermanentHold(options?: HoldOptions): Promise<void> {
-    const payload: any = { run_mode: 'permanent_hold' };
+  /**
+   * When the current timed hold ends, or null if the zone is not in one
+   */
+  public get holdEndTime(): Date | null {
+    return this.client.timedHolds.endTime(this.id);
+  }
 
-    // Include temperature setpoints if provided
-    if (options?.temperatures) {
-      TraneValidator.validateTemperatureConfig({
-        heatTemp: options.temperatures.heatingSetpoint,
-        coolTemp: options.temperatures.coolingSetpoint,
-        setTemp: options.temperatures.setTemp,
-        deadband: this.thermostat.deadband,
-        unit: this.thermostat.temperatureUnit
+  public get holdRemainingMinutes(): number | null {
+    const endTime = this.holdEndTime;
+    return endTime ? Math.max(0, Math.ceil((endTime.getTime() - Date.now()) / 60000)) : null;
+  }
+
+  /**
+   * Hold the given (or current) setpoints; permanent unless options say otherwise
+   * A temporary hold without an end only changes the setpoints, which the zone keeps while
+   * it follows its schedule until the next change; with options.minutes or options.endTime
+   * the client returns the zone to its schedule
+   */
+  public setPermanentHold(options?: HoldOptions): WriteHandle<ZoneStatusSummary> {
+    const timed = options?.minutes !== undefined || options?.endTime !== undefined;
+    const untilNextChange = options?.duration === 'temporary' && !timed;
+    let endTime: Date | null = null;
+
+    if (untilNextChange) {
+      const handle = this.writeSetpoints(`zone ${this.id} hold until next schedule change`, () => {
+        if (this.isInPermanentHold) {
+          throw new ValidationError(
+            'A hold until the next schedule change needs the zone to follow its schedule; return it to schedule first',
+            'duration',
+            options!.duration
+          );
+        }
+        return options!.temperatures ?? { heatingSetpoint: this.heatingSetpoint, coolingSetpoint: this.coolingSetpoint };
       });
+      return this.recordHold(handle, () => null);
+    }
 
-      if (options.temperatures.heatingSetpoint !== undefined) {
-        payload.heating_setpoint = this.roundTemperature(options.temperatures.heatingSetpoint);
+    const hold = this.write(`zone ${this.id} ${timed ? 'timed hold' : 'permanent hold'}`, async () => {
+      if (timed) {
+        endTime = this.resolveHoldEnd(options!);
       }
-
-      if (options.temperatures.coolingSetpoint !== undefined) {
-        payload.cooling_setpoint = this.roundTemperature(options.temperatures.coolingSetpoint);
+      if (options?.temperatures) {
+        this.setpointsPayload(options.temperatures);
       }
 
-      if (options.temperatures.setTemp !== undefined) {
-        payload.setpoint = this.roundTemperature(options.temperatures.setTemp);
-      }
-    }
+      return this.actions.request('run_mode', { run_mode: 'permanent_hold' });
+    }, () => this.isInPermanentHold, () => ({ isInPermanentHold: true }));
+
+    // The run mode action takes only the run mode; the held setpoints are a write of their own
+    const handle = options?.temperatures ? TraneZone.together(hold, this.setTemperatures(options.temperatures)) : hold;
+
+    return this.recordHold(handle, () => endTime
+      ? { zoneId: this.id, thermostatId: this.thermostat.id, houseId: this.thermostat.houseId, endTime: endTime.toISOString() }
+      : null);
+  }
 
-    const endpoint = await this.getZoneEndpoint('run_mode');
-    await this.client.post(endpoint, payload);
+  public returnToSchedule(): WriteHandle<ZoneStatusSummary> {
+    const handle = this.write(`zone ${this.id} return to schedule`, async () => {
+      return this.actions.request('return_to_schedule', { run_mode: 'run_schedule' });
+    }, () => !this.isInPermanentHold, () => ({ isInPermanentHold: false }));
 
-    await this.delayedUpdate();
+    return this.recordHold(handle, () => null);
   }
 
-  public async returnToSchedule(): Promise<void> {
-    const endpoint = await this.getZoneEndpoint('return_to_schedule');
-    await this.client.post(endpoint, { run_mode: 'run_schedule' });
+  // Schedule
+  /**
+   * The zone's weekly schedule, or null if the thermostat does not report one
+   */
+  public getSchedule(): ZoneSchedule | null {
+    const feature = this.data.features?.schedule;
+    return feature ? ZoneSchedule.fromFeature(feature) : null;
+  }
+
+  /**
+   * Replace the zone's weekly schedule
+   */
+  public setSchedule(schedule: ZoneSchedule): WriteHandle<ZoneStatusSummary> {
+    return this.write(`zone ${this.id} schedule`, async () => {
+      if (!this.data.features?.schedule) {
+        throw new FeatureNotSupportedError('schedule', this.thermostat.model);
+      }
+
+      TraneValidator.validateSchedule({
+        days: schedule.days,
+        deadband: this.thermostat.deadband,
+        unit: this.thermostat.temperatureUnit,
+        limits: this.setpointLimits
+      });
 
-    await this.delayedUpdate();
+      return this.actions.request('schedule', schedule.toPayload());
+    }, () => this.getSchedule()?.equals(schedule) ?? false, () => ({}));
   }
 
   // Preset control
@@ -231,24 +314,29 @@ export class TraneZone implements ITraneZone {
 
   public get currentPreset(): PresetMode | null {
     const preset = this.data.features?.preset || this.data.features?.preset_selected;
-    return this.parsePresetMode(preset);
+    return this.optimistic.get('currentPreset', this.parsePresetMode(preset));
   }
 
-  public async setPreset(preset: PresetMode): Promise<void> {
-    const validPreset = GeneralValidator.validateEnum<PresetMode>(preset, PresetMode, 'preset');
+  public setPreset(preset: PresetMode): WriteHandle<ZoneStatusSummary> {
+    let validPreset: PresetMode;
 
-    if (!this.availablePresets.includes(validPreset)) {
-      throw new ValidationError(
-        `Preset '${validPreset}' is not available. Available presets: ${this.availablePresets.join(', ')}`,
-        'preset',
-        validPreset
-      );
-    }
+    return this.write(`zone ${this.id} preset ${preset}`, async () => {
+      validPreset = GeneralValidator.validateEnum<PresetMode>(preset, PresetMode, 'preset');
 
-    const endpoint = await this.getZoneEndpoint('preset_selected');
-    await this.client.post(endpoint, { preset: validPreset });
+      if (!this.availablePresets.includes(validPreset)) {
+        throw new ValidationError(
+          `Preset '${validPreset}' is not available. Available presets: ${this.availablePresets.join(', ')}`,
+          'preset',
+          validPreset
+        );
+      }
+
+      return this.actions.request('preset', { preset: validPreset });
+    }, () => this.currentPreset === validPreset, () => ({ currentPreset: validPreset }));
+  }
 
-    await this.delayedUpdate();
+  public get pendingProperties(): string[] {
+    return this.optimistic.pendingProperties;
   }
 
   // RoomIQ sensors
@@ -269,49 +357,36 @@ export class TraneZone implements ITraneZone {
     return this.sensorsMap.get(sensorId);
   }
 
-  public async selectActiveSensors(options: SensorSelectionOptions): Promise<void> {
-    TraneValidator.validateSensorSelection({
-      activeSensorIds: options.activeSensorIds,
-      availableSensorIds: this.sensorIds
-    });
-
-    const { activeSensorIds, pollingDelay = 5.0, maxPolls = 8 } = options;
-
-    // Step 1: Update active sensors
-    const endpoint = await this.getZoneEndpoint('update_active_sensors');
-    await this.client.post(endpoint, {
-      active_sensor_ids: activeSensorIds
-    });
-
-    // Step 2: Poll for sensor state update (mimics Python's async polling)
-    let pollCount = 0;
-    const pollInterval = pollingDelay * 1000;
-
-    while (pollCount < maxPolls) {
-      await this.delay(pollInterval);
-
-      try {
-        await this.loadCurrentSensorState();
+  /**
+   * Choose the sensors averaged into the zone temperature
+   * Once the selection is sent, the thermostat is asked to re-read its sensors so the
+   * refreshes that confirm the write see the new weights
+   */
+  public selectActiveSensors(options: SensorSelectionOptions): WriteHandle<ZoneStatusSummary> {
+    const expectedIds = new Set(options.activeSensorIds);
 
-        // Check if the sensor selection has been applied
-        const currentActiveIds = this.activeSensorIds;
-        const expectedIds = new Set(activeSensorIds);
+    const handle = this.write(`zone ${this.id} active sensors ${options.activeSensorIds.join(', ')}`, async () => {
+      TraneValidator.validateSensorSelection({
+        activeSensorIds: options.activeSensorIds,
+        availableSensorIds: this.sensorIds
+      });
 
-        if (this.setsAreEqual(currentActiveIds, expectedIds)) {
-          break;
-        }
-      } catch (error) {
-        console.warn(`Failed to load sensor state on poll ${pollCount + 1}:`, error);
-      }
+      return this.actions.request('active_sensors', { active_sensor_ids: options.activeSensorIds });
+    }, () => this.setsAreEqual(this.activeSensorIds, expectedIds), () => ({}));
 
-      pollCount++;
-    }
+    const sent = handle.sent.then(() => this.requestSensorState());
+    return new WriteHandle(handle.description, sent, handle.confirmed);
+  }
 
-    if (pollCount >= maxPolls) {
-      console.warn('Sensor selection polling reached maximum attempts');
+  /**
+   * Ask the thermostat to re-read its sensors; the next refresh shows what it reports
+   */
+  private async requestSensorState(): Promise<void> {
+    try {
+      await this.client.send(this.actions.request('sensor_state', {}));
+    } catch (error) {
+      this.client.logger.warn('Failed to request the current sensor state:', error);
     }
-
-    await this.delayedUpdate();
   }
 
   /**
@@ -319,8 +394,7 @@ export class TraneZone implements ITraneZone {
    */
   public async loadCurrentSensorState(): Promise<void> {
     try {
-      const endpoint = await this.getZoneEndpoint('request_current_sensor_state');
-      await this.client.post(endpoint, {});
+      await this.client.send(this.actions.request('sensor_state', {}));
 
       // Small delay for the API to process the request
       await this.delay(1000);
@@ -328,7 +402,7 @@ export class TraneZone implements ITraneZone {
       // Refresh zone data
       await this.thermostat.refresh();
     } catch (error) {
-      console.warn('Failed to load current sensor state:', error);
+      this.client.logger.warn('Failed to load current sensor state:', error);
     }
   }
 
@@ -344,7 +418,8 @@ export class TraneZone implements ITraneZone {
         heatTemp,
         coolTemp,
         this.thermostat.deadband,
-        this.thermostat.temperatureUnit
+        this.thermostat.temperatureUnit,
+        this.setpointLimits
       );
       return true;
     } catch {
@@ -359,21 +434,30 @@ export class TraneZone implements ITraneZone {
   // Private helper methods
 
   /**
-   * Initialize sensors from zone data
+   * Reconcile sensor objects against the current zone data
    */
-  private initializeSensors(): void {
-    this.sensorsMap.clear();
+  private reconcileSensors(): void {
+    const seen = new Set<number>();
 
-    if (!this.data.sensors) {
-      return;
-    }
+    for (const sensorData of this.data.sensors || []) {
+      seen.add(sensorData.id);
 
-    for (const sensorData of this.data.sensors) {
       try {
-        const sensor = new TraneSensor(sensorData);
-        this.sensorsMap.set(sensor.id, sensor);
+        const existing = this.sensorsMap.get(sensorData.id);
+        if (existing) {
+          existing.updateData(sensorData);
+        } else {
+          const sensor = new TraneSensor(sensorData);
+          this.sensorsMap.set(sensor.id, sensor);
+        }
       } catch (error) {
-        console.warn(`Failed to create sensor ${sensorData.id}:`, error);
+        this.client.logger.warn(`Failed to update sensor ${sensorData.id}:`, error);
+      }
+    }
+
+    for (const sensorId of Array.from(this.sensorsMap.keys())) {
+      if (!seen.has(sensorId)) {
+        this.sensorsMap.delete(sensorId);
       }
     }
   }
@@ -431,24 +515,197 @@ export class TraneZone implements ITraneZone {
   }
 
   /**
-   * Get zone endpoint URL for a specific operation
+   * Write targets from the zone's feature actions; writes the device lists no link for
+   * go to the zone URL
+   */
+  private get actions(): ActionRegistry<ZoneAction> {
+    const fallbackBase = this.data._links?.self?.href ?? `${API_ENDPOINTS.ZONE}/${this.id}`;
+    return new ActionRegistry(ZONE_ACTIONS, this.data._rawActions ?? {}, fallbackBase);
+  }
+
+  /**
+   * Queue a zone write and confirm it against this zone's refreshed state
+   * With optimistic updates, the requested values show until the write settles
+   */
+  private write(
+    description: string,
+    prepare: () => Promise<WriteRequest>,
+    isApplied: (keys: string[]) => boolean,
+    requested: () => Record<string, unknown>
+  ): WriteHandle<ZoneStatusSummary> {
+    const write = { description, prepare, isApplied, read: () => this.status };
+
+    if (!this.client.optimisticUpdates) {
+      return this.commands.enqueue(write);
+    }
+
+    return this.optimistic.enqueue(this.commands, write, requested, (values, error) => {
+      this.client.emit('rollback', {
+        timestamp: new Date(),
+        deviceType: 'zone',
+        deviceId: this.id,
+        thermostatId: this.thermostat.id,
+        zoneId: this.id,
+        requested: values,
+        error,
+        device: this
+      });
+    });
+  }
+
+  /**
+   * Queue a setpoints write for the temperatures the callback validates or returns
+   */
+  private writeSetpoints(description: string, temperatures: () => TemperatureOptions): WriteHandle<ZoneStatusSummary> {
+    let payload: SetpointsPayload = {};
+
+    return this.write(description, async () => {
+      payload = this.setpointsPayload(temperatures());
+      return this.actions.request('setpoints', payload);
+    }, (keys) => this.setpointsMatch(TraneZone.pick(payload, keys)), () => this.requestedSetpoints(payload));
+  }
+
+  /**
+   * Validate temperatures and build the setpoints payload
+   * A single setpoint (setTemp) applies to whichever side the current mode uses
+   */
+  private setpointsPayload(temperatures: TemperatureOptions): SetpointsPayload {
+    TraneValidator.validateTemperatureConfig({
+      heatTemp: temperatures.heatingSetpoint,
+      coolTemp: temperatures.coolingSetpoint,
+      setTemp: temperatures.setTemp,
+      deadband: this.thermostat.deadband,
+      unit: this.thermostat.temperatureUnit,
+      limits: this.setpointLimits
+    });
+
+    if (temperatures.setTemp !== undefined) {
+      const temperature = this.roundTemperature(temperatures.setTemp);
+      switch (this.currentMode) {
+        case OperationMode.HEAT:
+          return { heating_setpoint: temperature };
+        case OperationMode.COOL:
+          return { cooling_setpoint: temperature };
+        default:
+          throw new ValidationError('A single setpoint needs the zone in HEAT or COOL mode', 'setTemp', temperatures.setTemp);
+      }
+    }
+
+    const payload: SetpointsPayload = {};
+    if (temperatures.heatingSetpoint !== undefined) {
+      payload.heating_setpoint = this.roundTemperature(temperatures.heatingSetpoint);
+    }
+    if (temperatures.coolingSetpoint !== undefined) {
+      payload.cooling_setpoint = this.roundTemperature(temperatures.coolingSetpoint);
+    }
+    return payload;
+  }
+
+  /**
+   * Optimistic setpoint values for a setpoints payload
    */
-  private async getZoneEndpoint(operation: string): Promise<string> {
-    // Try to find endpoint from device data links first
-    const selfLink = this.data._links?.self?.href;
-    if (selfLink) {
-      return `${selfLink}/${operation}`;
+  private requestedSetpoints(payload: SetpointsPayload): Record<string, unknown> {
+    const requested: Record<string, unknown> = {};
+
+    if (payload.heating_setpoint !== undefined) {
+      requested['heatingSetpoint'] = payload.heating_setpoint;
+    }
+    if (payload.cooling_setpoint !== undefined) {
+      requested['coolingSetpoint'] = payload.cooling_setpoint;
     }
 
-    // Fallback to standard endpoint pattern
-    return `${API_ENDPOINTS.ZONE}/${this.id}/${operation}`;
+    return requested;
   }
 
   /**
-   * Delayed update helper
+   * Validate the end of a timed hold
    */
-  private async delayedUpdate(): Promise<void> {
-    await this.client.delayedUpdate(API_CONSTANTS.UPDATE_DELAY_SECONDS * 1000);
+  private resolveHoldEnd(options: HoldOptions): Date {
+    if (options.duration === 'permanent') {
+      throw new ValidationError('A permanent hold cannot have minutes or an endTime', 'duration', options.duration);
+    }
+    if (options.minutes !== undefined && options.endTime !== undefined) {
+      throw new ValidationError('Specify either minutes or endTime for a hold, not both', 'minutes', options.minutes);
+    }
+
+    const endTime = options.minutes !== undefined
+      ? new Date(Date.now() + GeneralValidator.validateNumberRange(options.minutes, 0, MAX_HOLD_MINUTES, 'minutes') * 60000)
+      : GeneralValidator.validateDate(options.endTime, 'endTime');
+
+    if (endTime.getTime() <= Date.now()) {
+      throw new ValidationError('A timed hold must end in the future', 'endTime', endTime);
+    }
+
+    return endTime;
+  }
+
+  /**
+   * Record the zone's timed hold (or its absence) for a hold write
+   * A new hold end is saved as soon as the write is sent, so a process stopping before
+   * confirmation does not lose it, and a rejected write never replaces the saved one.
+   * It is kept if confirmation times out, since the device may still apply the write;
+   * a record is only cleared once the write is confirmed
+   */
+  private recordHold(
+    handle: WriteHandle<ZoneStatusSummary>,
+    hold: () => TimedHold | null
+  ): WriteHandle<ZoneStatusSummary> {
+    const sent = handle.sent.then(async () => {
+      const recorded = hold();
+      if (recorded) {
+        await this.saveHold(recorded);
+      }
+    });
+
+    const confirmed = handle.confirmed.then(async (status) => {
+      await sent;
+      if (!hold()) {
+        await this.saveHold(null);
+      }
+      return status;
+    });
+
+    return new WriteHandle(handle.description, sent, confirmed);
+  }
+
+  /**
+   * The write was accepted, so a hold that cannot be saved is logged rather than rejected
+   */
+  private async saveHold(hold: TimedHold | null): Promise<void> {
+    try {
+      await (hold ? this.client.timedHolds.set(hold) : this.client.timedHolds.clear(this.id));
+    } catch (error) {
+      this.client.logger.warn(`Failed to update the timed hold of zone ${this.id}:`, error);
+    }
+  }
+
+  /**
+   * Check the zone setpoints against a setpoints payload
+   */
+  private setpointsMatch(payload: SetpointsPayload): boolean {
+    return (payload.heating_setpoint === undefined || this.heatingSetpoint === payload.heating_setpoint) &&
+      (payload.cooling_setpoint === undefined || this.coolingSetpoint === payload.cooling_setpoint);
+  }
+
+  /**
+   * One handle for the writes that make up a command, resolving with the state after the last
+   */
+  private static together(
+    first: WriteHandle<ZoneStatusSummary>,
+    second: WriteHandle<ZoneStatusSummary>
+  ): WriteHandle<ZoneStatusSummary> {
+    return new WriteHandle(
+      first.description,
+      Promise.all([first.sent, second.sent]).then(() => undefined),
+      Promise.all([first.confirmed, second.confirmed]).then(([, status]) => status)
+    );
+  }
+
+  /**
+   * The entries of a write payload that a merged write still confirms
+   */
+  private static pick<T extends object>(payload: T, keys: string[]): Partial<T> {
+    return Object.fromEntries(Object.entries(payload).filter(([key]) => keys.includes(key))) as Partial<T>;
   }
 
   /**
@@ -489,8 +746,10 @@ export class TraneZone implements ITraneZone {
       currentMode: this.currentMode,
       requestedMode: this.requestedMode,
       isCalling: this.isCalling,
+      damperPosition: this.damperPosition,
       setpointStatus: this.setpointStatus,
       isInPermanentHold: this.isInPermanentHold,
+      holdEndTime: this.holdEndTime?.toISOString() ?? null,
       currentPreset: this.currentPreset,
       availablePresets: this.availablePresets,
       sensorCount: this.sensors.length,
@@ -499,24 +758,13 @@ export class TraneZone implements ITraneZone {
   }
 
   /**
-   * Set temporary hold with automatic return to schedule
+   * Hold setpoints for a number of minutes, then return to schedule
    */
   public async setTemporaryHold(
     temperatures: TemperatureOptions,
     durationMinutes: number = 120
   ): Promise<void> {
-    // This would be a convenience method for temporary holds
-    // The API might support this through different parameters
-    await this.setPermanentHold({ temperatures });
-
-    // Schedule return to schedule after duration
-    setTimeout(async () => {
-      try {
-        await this.returnToSchedule();
-      } catch (error) {
-        console.warn('Failed to return to schedule after temporary hold:', error);
-      }
-    }, durationMinutes * 60 * 1000);
+    await this.setPermanentHold({ temperatures, duration: 'temporary', minutes: durationMinutes });
   }
 
   /**
@@ -0,0 +1,31 @@
+/**
+ * UX360 response format
+ * The legacy format as sent for UX360 thermostats, which name the zone id zone_id
+ * and report the zone mode as current_zone_mode
+ */
+
+import { ZoneData } from '../types/api';
+import { FieldReport } from './format-adapter';
+import { LegacyFormatAdapter } from './legacy-format-adapter';
+
+export class Ux360FormatAdapter extends LegacyFormatAdapter {
+  public override readonly format: string = 'ux360';
+  public override readonly version: number = 1;
+
+  public override matches(raw: Record<string, any>): boolean {
+    return super.matches(raw) &&
+      Array.isArray(raw['zones']) &&
+      raw['zones'].some(zone => zone?.zone_id !== undefined);
+  }
+
+  protected override normalizeZone(raw: Record<string, any>, fields: FieldReport): ZoneData {
+    const { zone_id: zoneId, current_zone_mode: mode, ...rest } = raw;
+    const zone = super.normalizeZone(rest, fields);
+
+    zone.id = zoneId ?? zone.id;
+    if (mode !== undefined) {
+      zone.features = { ...zone.features, current_mode: mode };
+    }
+    return zone;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Zone schedule model
+ * The weekly program of a zone: for each day, periods with heat/cool setpoints
+ */
+
+import { ScheduleDay, ScheduleFeatureData, SchedulePeriod } from '../types/api';
+import { Weekday } from '../types/constants';
+import { ParseError } from '../utils/errors';
+
+const WEEKDAYS = Object.values(Weekday);
+
+export class ZoneSchedule {
+  public readonly days: ScheduleDay[];
+
+  constructor(days: ScheduleDay[]) {
+    this.days = days
+      .map(day => ({ day: day.day, periods: day.periods.map(period => ({ ...period })) }))
+      .sort((a, b) => WEEKDAYS.indexOf(a.day) - WEEKDAYS.indexOf(b.day));
+  }
+
+  /**
+   * Parse the 'schedule' feature of a zone
+   */
+  public static fromFeature(feature: ScheduleFeatureData): ZoneSchedule {
+    if (!Array.isArray(feature.days)) {
+      throw new ParseError('Schedule feature has no days', feature);
+    }
+
+    return new ZoneSchedule(feature.days.map(day => {
+      const weekday = WEEKDAYS.find(candidate => candidate === String(day.day).toLowerCase());
+      if (!weekday) {
+        throw new ParseError(`Unknown schedule day: ${day.day}`, feature);
+      }
+
+      return {
+        day: weekday,
+        periods: (day.periods ?? []).map((period, index) => ({
+          name: period.name || `Period ${index + 1}`,
+          startTime: period.start_time,
+          heatingSetpoint: period.setpoint_heat,
+          coolingSetpoint: period.setpoint_cool
+        }))
+      };
+    }));
+  }
+
+  /**
+   * Periods of one day, in start order (empty if the day is not scheduled)
+   */
+  public getPeriods(day: Weekday): SchedulePeriod[] {
+    return this.days.find(candidate => candidate.day === day)?.periods ?? [];
+  }
+
+  /**
+   * Copy with one day's periods replaced
+   */
+  public withDay(day: Weekday, periods: SchedulePeriod[]): ZoneSchedule {
+    return new ZoneSchedule(
+      this.days.filter(candidate => candidate.day !== day).concat({ day, periods })
+    );
+  }
+
+  /**
+   * Request body for the schedule endpoint (the feature format)
+   */
+  public toPayload(): Required<ScheduleFeatureData> {
+    return {
+      days: this.days.map(day => ({
+        day: day.day,
+        periods: day.periods.map(period => ({
+          name: period.name,
+          start_time: period.startTime,
+          setpoint_heat: period.heatingSetpoint,
+          setpoint_cool: period.coolingSetpoint
+        }))
+      }))
+    };
+  }
+
+  public equals(other: ZoneSchedule): boolean {
+    return JSON.stringify(this.toPayload()) === JSON.stringify(other.toPayload());
+  }
+}
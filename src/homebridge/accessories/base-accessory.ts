@@ -0,0 +1,106 @@
+/**
+ * Base class for Homebridge accessory handlers
+ * Shares accessory information setup, unit conversion and command error handling
+ */
+
+import { IHomebridgeAccessory, ITraneThermostat, ITraneZone, ITraneSensor } from '../../types/interfaces';
+import { TemperatureUnit } from '../../types/constants';
+import { TemperatureValidator } from '../../utils/validation';
+import type { TraneHomebridgePlatform } from '../platform';
+
+export abstract class BaseAccessory<TDevice extends ITraneThermostat | ITraneZone | ITraneSensor>
+implements IHomebridgeAccessory {
+  public readonly platform: TraneHomebridgePlatform;
+  public readonly accessory: any;
+  public readonly device: TDevice;
+
+  protected readonly Service: any;
+  protected readonly Characteristic: any;
+
+  constructor(platform: TraneHomebridgePlatform, accessory: any, device: TDevice) {
+    this.platform = platform;
+    this.accessory = accessory;
+    this.device = device;
+    this.Service = platform.api.hap.Service;
+    this.Characteristic = platform.api.hap.Characteristic;
+  }
+
+  public abstract setupServices(): void;
+  public abstract updateCharacteristics(): void;
+
+  /**
+   * Populate the AccessoryInformation service
+   */
+  protected setupInformation(model: string, serialNumber: string, firmware?: string): void {
+    const info = this.accessory.getService(this.Service.AccessoryInformation) ||
+      this.accessory.addService(this.Service.AccessoryInformation);
+
+    info
+      .setCharacteristic(this.Characteristic.Manufacturer, 'Trane')
+      .setCharacteristic(this.Characteristic.Model, model)
+      .setCharacteristic(this.Characteristic.SerialNumber, serialNumber);
+
+    if (firmware) {
+      info.setCharacteristic(this.Characteristic.FirmwareRevision, firmware);
+    }
+  }
+
+  /**
+   * Get an existing service or add it to the accessory
+   */
+  protected getOrAddService(serviceType: any, name?: string, subtype?: string): any {
+    const existing = subtype
+      ? this.accessory.getServiceById(serviceType, subtype)
+      : this.accessory.getService(serviceType);
+
+    return existing || this.accessory.addService(serviceType, name, subtype);
+  }
+
+  /**
+   * Remove a previously cached service that no longer applies
+   */
+  protected removeService(serviceType: any, subtype?: string): void {
+    const existing = subtype
+      ? this.accessory.getServiceById(serviceType, subtype)
+      : this.accessory.getService(serviceType);
+
+    if (existing) {
+      this.accessory.removeService(existing);
+    }
+  }
+
+  /**
+   * Error that makes HomeKit reject a write, so the Home app reverts the control
+   */
+  protected readOnlyError(): Error {
+    const hap = this.platform.api.hap;
+    return new hap.HapStatusError(hap.HAPStatus.READ_ONLY_CHARACTERISTIC);
+  }
+
+  /**
+   * Convert a device temperature to Celsius for HomeKit
+   */
+  protected toCelsius(temperature: number, unit: TemperatureUnit): number {
+    const celsius = TemperatureValidator.convertTemperature(temperature, unit, TemperatureUnit.CELSIUS);
+    return Math.round(celsius * 10) / 10;
+  }
+
+  /**
+   * Convert a HomeKit Celsius temperature to the device unit
+   */
+  protected fromCelsius(temperature: number, unit: TemperatureUnit): number {
+    return TemperatureValidator.convertTemperature(temperature, TemperatureUnit.CELSIUS, unit);
+  }
+
+  /**
+   * Run a device command without blocking HomeKit, logging failures
+   */
+  protected runCommand(description: string, command: () => Promise<unknown>): void {
+    this.platform.log.debug(`${this.accessory.displayName}: ${description}`);
+
+    command().catch((error: Error) => {
+      this.platform.log.error(`${this.accessory.displayName}: failed to ${description}`, error);
+      this.updateCharacteristics();
+    });
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * SensorAccessory
+ * Exposes a RoomIQ sensor as HomeKit TemperatureSensor, HumiditySensor and Battery services
+ */
+
+import { ITraneSensor, ITraneZone } from '../../types/interfaces';
+import { BaseAccessory } from './base-accessory';
+import type { TraneHomebridgePlatform } from '../platform';
+
+export class SensorAccessory extends BaseAccessory<ITraneSensor> {
+  private readonly zone: ITraneZone;
+  private temperatureService: any;
+  private humidityService: any = null;
+  private batteryService: any = null;
+
+  constructor(platform: TraneHomebridgePlatform, accessory: any, sensor: ITraneSensor, zone: ITraneZone) {
+    super(platform, accessory, sensor);
+    this.zone = zone;
+    this.setupServices();
+  }
+
+  public setupServices(): void {
+    const C = this.Characteristic;
+    const sensor = this.device;
+
+    this.setupInformation(`RoomIQ ${sensor.type}`, sensor.serialNumber);
+
+    this.temperatureService = this.getOrAddService(this.Service.TemperatureSensor, sensor.name);
+    this.temperatureService.getCharacteristic(C.CurrentTemperature)
+      .setProps({ minValue: -50, maxValue: 100 })
+      .onGet(() => this.temperature);
+
+    if (sensor.humidityValid) {
+      this.humidityService = this.getOrAddService(this.Service.HumiditySensor, `${sensor.name} Humidity`);
+      this.humidityService.getCharacteristic(C.CurrentRelativeHumidity)
+        .onGet(() => this.device.humidity);
+    } else {
+      this.removeService(this.Service.HumiditySensor);
+    }
+
+    if (sensor.hasBattery) {
+      this.batteryService = this.getOrAddService(this.Service.Battery, `${sensor.name} Battery`);
+      this.batteryService.getCharacteristic(C.BatteryLevel)
+        .onGet(() => this.device.batteryLevel ?? 0);
+      this.batteryService.getCharacteristic(C.StatusLowBattery)
+        .onGet(() => this.statusLowBattery);
+    } else {
+      this.removeService(this.Service.Battery);
+    }
+
+    this.updateCharacteristics();
+  }
+
+  public updateCharacteristics(): void {
+    const C = this.Characteristic;
+    const sensor = this.device;
+
+    this.temperatureService.updateCharacteristic(C.CurrentTemperature, this.temperature);
+    this.temperatureService.updateCharacteristic(C.StatusActive, sensor.isConnected !== false);
+
+    if (this.humidityService) {
+      this.humidityService.updateCharacteristic(C.CurrentRelativeHumidity, sensor.humidity);
+      this.humidityService.updateCharacteristic(C.StatusActive, sensor.isConnected !== false);
+    }
+
+    if (this.batteryService) {
+      this.batteryService.updateCharacteristic(C.BatteryLevel, sensor.batteryLevel ?? 0);
+      this.batteryService.updateCharacteristic(C.StatusLowBattery, this.statusLowBattery);
+      this.batteryService.updateCharacteristic(C.ChargingState, C.ChargingState.NOT_CHARGEABLE);
+    }
+  }
+
+  private get temperature(): number {
+    return this.toCelsius(this.device.temperature, this.zone.thermostat.temperatureUnit);
+  }
+
+  private get statusLowBattery(): number {
+    const status = this.Characteristic.StatusLowBattery;
+    const batteryStatus = this.device.batteryStatus;
+    return batteryStatus === 'low' || batteryStatus === 'critical'
+      ? status.BATTERY_LEVEL_LOW
+      : status.BATTERY_LEVEL_NORMAL;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * ThermostatAccessory
+ * Exposes thermostat-wide features: fan control, indoor humidity and outdoor temperature
+ */
+
+import { ITraneThermostat } from '../../types/interfaces';
+import { FanMode } from '../../types/constants';
+import { BaseAccessory } from './base-accessory';
+import type { TraneHomebridgePlatform } from '../platform';
+
+const OUTDOOR_SUBTYPE = 'outdoor';
+
+export class ThermostatAccessory extends BaseAccessory<ITraneThermostat> {
+  private fanService: any;
+  private humidityService: any = null;
+  private outdoorService: any = null;
+
+  constructor(platform: TraneHomebridgePlatform, accessory: any, thermostat: ITraneThermostat) {
+    super(platform, accessory, thermostat);
+    this.setupServices();
+  }
+
+  public setupServices(): void {
+    const C = this.Characteristic;
+    const thermostat = this.device;
+
+    this.setupInformation(thermostat.model, thermostat.id, thermostat.firmware);
+
+    this.fanService = this.getOrAddService(this.Service.Fanv2, `${thermostat.name} Fan`);
+    this.fanService.getCharacteristic(C.Active)
+      .onGet(() => this.fanActive)
+      .onSet((value: number) => {
+        // "On" forces the blower to run; turning it off hands control back to the thermostat
+        const mode = value === C.Active.ACTIVE ? FanMode.ON : FanMode.AUTO;
+        this.runCommand(`set fan mode to ${mode}`, () => this.device.setFanMode(mode));
+      });
+    this.fanService.getCharacteristic(C.TargetFanState)
+      .onGet(() => this.targetFanState)
+      .onSet((value: number) => {
+        const mode = value === C.TargetFanState.AUTO ? FanMode.AUTO : FanMode.ON;
+        this.runCommand(`set fan mode to ${mode}`, () => this.device.setFanMode(mode));
+      });
+
+    if (thermostat.hasRelativeHumidity) {
+      this.humidityService = this.getOrAddService(this.Service.HumiditySensor, `${thermostat.name} Humidity`);
+      this.humidityService.getCharacteristic(C.CurrentRelativeHumidity)
+        .onGet(() => this.relativeHumidity);
+    } else {
+      this.removeService(this.Service.HumiditySensor);
+    }
+
+    if (thermostat.hasOutdoorTemperature) {
+      this.outdoorService = this.getOrAddService(this.Service.TemperatureSensor, `${thermostat.name} Outdoor`, OUTDOOR_SUBTYPE);
+      this.outdoorService.getCharacteristic(C.CurrentTemperature)
+        .setProps({ minValue: -50, maxValue: 100 })
+        .onGet(() => this.outdoorTemperature);
+    } else {
+      this.removeService(this.Service.TemperatureSensor, OUTDOOR_SUBTYPE);
+    }
+
+    this.updateCharacteristics();
+  }
+
+  public updateCharacteristics(): void {
+    const C = this.Characteristic;
+
+    this.fanService.updateCharacteristic(C.Active, this.fanActive);
+    this.fanService.updateCharacteristic(C.TargetFanState, this.targetFanState);
+    this.fanService.updateCharacteristic(C.CurrentFanState, this.currentFanState);
+
+    if (this.humidityService) {
+      this.humidityService.updateCharacteristic(C.CurrentRelativeHumidity, this.relativeHumidity);
+    }
+
+    if (this.outdoorService) {
+      this.outdoorService.updateCharacteristic(C.CurrentTemperature, this.outdoorTemperature);
+    }
+  }
+
+  private get fanActive(): number {
+    const active = this.Characteristic.Active;
+    return this.device.currentFanMode === FanMode.ON || this.device.isBlowerActive
+      ? active.ACTIVE
+      : active.INACTIVE;
+  }
+
+  private get targetFanState(): number {
+    const states = this.Characteristic.TargetFanState;
+    return this.device.currentFanMode === FanMode.AUTO ? states.AUTO : states.MANUAL;
+  }
+
+  private get currentFanState(): number {
+    const states = this.Characteristic.CurrentFanState;
+    return this.device.isBlowerActive ? states.BLOWING_AIR : states.IDLE;
+  }
+
+  private get relativeHumidity(): number {
+    // Thermostat humidity is a 0-1 fraction; HomeKit expects a percentage
+    return Math.round((this.device.relativeHumidity ?? 0) * 100);
+  }
+
+  private get outdoorTemperature(): number {
+    return this.toCelsius(this.device.outdoorTemperature ?? 0, this.device.temperatureUnit);
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * ZoneAccessory
+ * Exposes a TraneZone as a HomeKit Thermostat or HeaterCooler service
+ */
+
+import { ITraneZone } from '../../types/interfaces';
+import { OperationMode, SystemStatus, TemperatureUnit } from '../../types/constants';
+import { BaseAccessory } from './base-accessory';
+import type { TraneHomebridgePlatform } from '../platform';
+
+export type ZoneServiceType = 'thermostat' | 'heatercooler';
+
+export class ZoneAccessory extends BaseAccessory<ITraneZone> {
+  private readonly serviceType: ZoneServiceType;
+  private service: any;
+
+  constructor(
+    platform: TraneHomebridgePlatform,
+    accessory: any,
+    zone: ITraneZone,
+    serviceType: ZoneServiceType = 'thermostat'
+  ) {
+    super(platform, accessory, zone);
+    this.serviceType = serviceType;
+    this.setupServices();
+  }
+
+  public setupServices(): void {
+    const zone = this.device;
+    this.setupInformation(zone.thermostat.model, `${zone.thermostat.id}-${zone.id}`, zone.thermostat.firmware);
+
+    if (this.serviceType === 'heatercooler') {
+      this.removeService(this.Service.Thermostat);
+      this.service = this.getOrAddService(this.Service.HeaterCooler, zone.name);
+      this.setupHeaterCooler();
+    } else {
+      this.removeService(this.Service.HeaterCooler);
+      this.service = this.getOrAddService(this.Service.Thermostat, zone.name);
+      this.setupThermostat();
+    }
+
+    this.service.setCharacteristic(this.Characteristic.Name, zone.name);
+    this.setupThresholds();
+    this.updateCharacteristics();
+  }
+
+  public updateCharacteristics(): void {
+    const C = this.Characteristic;
+
+    this.service.updateCharacteristic(C.CurrentTemperature, this.celsius(this.device.currentTemperature));
+    this.service.updateCharacteristic(C.HeatingThresholdTemperature, this.celsius(this.device.heatingSetpoint));
+    this.service.updateCharacteristic(C.CoolingThresholdTemperature, this.celsius(this.device.coolingSetpoint));
+    this.service.updateCharacteristic(C.TemperatureDisplayUnits, this.displayUnits);
+
+    if (this.serviceType === 'heatercooler') {
+      this.service.updateCharacteristic(C.Active, this.active);
+      this.service.updateCharacteristic(C.CurrentHeaterCoolerState, this.currentHeaterCoolerState);
+      this.service.updateCharacteristic(C.TargetHeaterCoolerState, this.targetHeaterCoolerState);
+    } else {
+      this.service.updateCharacteristic(C.CurrentHeatingCoolingState, this.currentHeatingCoolingState);
+      this.service.updateCharacteristic(C.TargetHeatingCoolingState, this.targetHeatingCoolingState);
+      this.service.updateCharacteristic(C.TargetTemperature, this.celsius(this.targetTemperature));
+    }
+  }
+
+  private setupThermostat(): void {
+    const C = this.Characteristic;
+
+    this.service.getCharacteristic(C.CurrentHeatingCoolingState)
+      .onGet(() => this.currentHeatingCoolingState);
+
+    // Only offer the modes the zone supports, e.g. no COOL on a heat-only system
+    const targetStates = C.TargetHeatingCoolingState;
+    this.service.getCharacteristic(targetStates)
+      .setProps({ validValues: [targetStates.OFF, targetStates.HEAT, targetStates.COOL, targetStates.AUTO]
+        .filter(state => this.device.availableModes.includes(this.modeFromTargetHeatingCooling(state))) })
+      .onGet(() => this.targetHeatingCoolingState)
+      .onSet((value: number) => {
+        const mode = this.modeFromTargetHeatingCooling(value);
+        this.runCommand(`set mode to ${mode}`, () => this.device.setMode(mode));
+      });
+
+    this.service.getCharacteristic(C.TargetTemperature)
+      .onGet(() => this.celsius(this.targetTemperature))
+      .onSet((value: number) => this.setTargetTemperature(value));
+
+    this.service.getCharacteristic(C.CurrentTemperature)
+      .onGet(() => this.celsius(this.device.currentTemperature));
+
+    this.service.getCharacteristic(C.TemperatureDisplayUnits)
+      .onGet(() => this.displayUnits);
+  }
+
+  private setupHeaterCooler(): void {
+    const C = this.Characteristic;
+
+    this.service.getCharacteristic(C.Active)
+      .onGet(() => this.active)
+      .onSet((value: number) => {
+        if (value === C.Active.INACTIVE) {
+          this.runCommand('turn off', () => this.device.setMode(OperationMode.OFF));
+        } else if (this.device.currentMode === OperationMode.OFF) {
+          const mode = this.device.availableModes.find(candidate => candidate !== OperationMode.OFF) ?? OperationMode.AUTO;
+          this.runCommand('turn on', () => this.device.setMode(mode));
+        }
+      });
+
+    this.service.getCharacteristic(C.CurrentHeaterCoolerState)
+      .onGet(() => this.currentHeaterCoolerState);
+
+    const targetStates = C.TargetHeaterCoolerState;
+    this.service.getCharacteristic(targetStates)
+      .setProps({ validValues: [targetStates.AUTO, targetStates.HEAT, targetStates.COOL]
+        .filter(state => this.device.availableModes.includes(this.modeFromTargetHeaterCooler(state))) })
+      .onGet(() => this.targetHeaterCoolerState)
+      .onSet((value: number) => {
+        const mode = this.modeFromTargetHeaterCooler(value);
+        this.runCommand(`set mode to ${mode}`, () => this.device.setMode(mode));
+      });
+
+    this.service.getCharacteristic(C.CurrentTemperature)
+      .onGet(() => this.celsius(this.device.currentTemperature));
+
+    this.service.getCharacteristic(C.TemperatureDisplayUnits)
+      .onGet(() => this.displayUnits);
+  }
+
+  private setupThresholds(): void {
+    const C = this.Characteristic;
+    const limits = this.device.setpointLimits;
+    const unit = this.unit;
+    const minStep = unit === TemperatureUnit.CELSIUS ? 0.5 : 0.1;
+
+    this.service.getCharacteristic(C.HeatingThresholdTemperature)
+      .setProps({ minValue: this.toCelsius(limits.heatMin, unit), maxValue: this.toCelsius(limits.heatMax, unit), minStep })
+      .onGet(() => this.celsius(this.device.heatingSetpoint))
+      .onSet((value: number) => {
+        const temperature = this.device.roundTemperature(this.fromCelsius(value, unit));
+        this.runCommand(`set heating setpoint to ${temperature}`, () => this.device.setHeatingSetpoint(temperature));
+      });
+
+    this.service.getCharacteristic(C.CoolingThresholdTemperature)
+      .setProps({ minValue: this.toCelsius(limits.coolMin, unit), maxValue: this.toCelsius(limits.coolMax, unit), minStep })
+      .onGet(() => this.celsius(this.device.coolingSetpoint))
+      .onSet((value: number) => {
+        const temperature = this.device.roundTemperature(this.fromCelsius(value, unit));
+        this.runCommand(`set cooling setpoint to ${temperature}`, () => this.device.setCoolingSetpoint(temperature));
+      });
+  }
+
+  /**
+   * TargetTemperature applies to the active single-setpoint mode. In AUTO it is the middle of
+   * the thresholds, so both move with it; with the zone off the write is rejected
+   */
+  private setTargetTemperature(value: number): void {
+    const temperature = this.device.roundTemperature(this.fromCelsius(value, this.unit));
+
+    switch (this.device.currentMode) {
+      case OperationMode.HEAT:
+        this.runCommand(`set heating setpoint to ${temperature}`, () => this.device.setHeatingSetpoint(temperature));
+        break;
+      case OperationMode.COOL:
+        this.runCommand(`set cooling setpoint to ${temperature}`, () => this.device.setCoolingSetpoint(temperature));
+        break;
+      case OperationMode.AUTO: {
+        const span = this.device.coolingSetpoint - this.device.heatingSetpoint;
+        const heatingSetpoint = this.device.roundTemperature(temperature - span / 2);
+        const coolingSetpoint = heatingSetpoint + span;
+        this.runCommand(
+          `set setpoints to ${heatingSetpoint}-${coolingSetpoint}`,
+          () => this.device.setTemperatures({ heatingSetpoint, coolingSetpoint })
+        );
+        break;
+      }
+      default:
+        throw this.readOnlyError();
+    }
+  }
+
+  private get unit(): TemperatureUnit {
+    return this.device.thermostat.temperatureUnit;
+  }
+
+  private celsius(temperature: number): number {
+    return this.toCelsius(temperature, this.unit);
+  }
+
+  private get displayUnits(): number {
+    const units = this.Characteristic.TemperatureDisplayUnits;
+    return this.unit === TemperatureUnit.CELSIUS ? units.CELSIUS : units.FAHRENHEIT;
+  }
+
+  private get targetTemperature(): number {
+    switch (this.device.currentMode) {
+      case OperationMode.HEAT:
+        return this.device.heatingSetpoint;
+      case OperationMode.COOL:
+        return this.device.coolingSetpoint;
+      default:
+        return (this.device.heatingSetpoint + this.device.coolingSetpoint) / 2;
+    }
+  }
+
+  /**
+   * What the equipment is doing for this zone right now
+   */
+  private get activeStatus(): SystemStatus | null {
+    if (this.device.currentMode === OperationMode.OFF || !this.device.isCalling) {
+      return null;
+    }
+
+    const status = this.device.thermostat.systemStatus.systemStatus;
+    return status === SystemStatus.HEATING || status === SystemStatus.COOLING ? status : null;
+  }
+
+  private get currentHeatingCoolingState(): number {
+    const states = this.Characteristic.CurrentHeatingCoolingState;
+    switch (this.activeStatus) {
+      case SystemStatus.HEATING:
+        return states.HEAT;
+      case SystemStatus.COOLING:
+        return states.COOL;
+      default:
+        return states.OFF;
+    }
+  }
+
+  private get targetHeatingCoolingState(): number {
+    const states = this.Characteristic.TargetHeatingCoolingState;
+    switch (this.device.currentMode) {
+      case OperationMode.HEAT:
+        return states.HEAT;
+      case OperationMode.COOL:
+        return states.COOL;
+      case OperationMode.AUTO:
+        return states.AUTO;
+      default:
+        return states.OFF;
+    }
+  }
+
+  private modeFromTargetHeatingCooling(value: number): OperationMode {
+    const states = this.Characteristic.TargetHeatingCoolingState;
+    switch (value) {
+      case states.HEAT:
+        return OperationMode.HEAT;
+      case states.COOL:
+        return OperationMode.COOL;
+      case states.AUTO:
+        return OperationMode.AUTO;
+      default:
+        return OperationMode.OFF;
+    }
+  }
+
+  private get active(): number {
+    const active = this.Characteristic.Active;
+    return this.device.currentMode === OperationMode.OFF ? active.INACTIVE : active.ACTIVE;
+  }
+
+  private get currentHeaterCoolerState(): number {
+    const states = this.Characteristic.CurrentHeaterCoolerState;
+    if (this.device.currentMode === OperationMode.OFF) {
+      return states.INACTIVE;
+    }
+
+    switch (this.activeStatus) {
+      case SystemStatus.HEATING:
+        return states.HEATING;
+      case SystemStatus.COOLING:
+        return states.COOLING;
+      default:
+        return states.IDLE;
+    }
+  }
+
+  private get targetHeaterCoolerState(): number {
+    const states = this.Characteristic.TargetHeaterCoolerState;
+    switch (this.device.currentMode) {
+      case OperationMode.HEAT:
+        return states.HEAT;
+      case OperationMode.COOL:
+        return states.COOL;
+      default:
+        return states.AUTO;
+    }
+  }
+
+  private modeFromTargetHeaterCooler(value: number): OperationMode {
+    const states = this.Characteristic.TargetHeaterCoolerState;
+    switch (value) {
+      case states.HEAT:
+        return OperationMode.HEAT;
+      case states.COOL:
+        return OperationMode.COOL;
+      default:
+        return OperationMode.AUTO;
+    }
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Homebridge integration
+ * Exported as "trane-thermostat-api/homebridge" so library users do not load it;
+ * the homebridge-trane-thermostat plugin package registers the platform from here
+ */
+
+import { registerPlatform } from './plugin';
+
+export { TraneHomebridgePlatform, TranePlatformConfig } from './platform';
+export { ThermostatAccessory } from './accessories/thermostat-accessory';
+export { ZoneAccessory, ZoneServiceType } from './accessories/zone-accessory';
+export { SensorAccessory } from './accessories/sensor-accessory';
+export { PLATFORM_NAME, PLUGIN_NAME } from './settings';
+export { registerPlatform };
+
+export default registerPlatform;
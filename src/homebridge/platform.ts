@@ -0,0 +1,245 @@
+/**
+ * Homebridge dynamic platform for Trane thermostats
+ * Discovers thermostats, zones and RoomIQ sensors and keeps HomeKit accessories in sync
+ */
+
+import { join } from 'path';
+import { IHomebridgePlatform, IHomebridgeAccessory, ILogger, ITraneThermostat } from '../types/interfaces';
+import { TraneClient } from '../client/trane-client';
+import { ConfigurationError } from '../utils/errors';
+import { PLATFORM_NAME, PLUGIN_NAME, PLATFORM_DEFAULTS } from './settings';
+import { ThermostatAccessory } from './accessories/thermostat-accessory';
+import { ZoneAccessory, ZoneServiceType } from './accessories/zone-accessory';
+import { SensorAccessory } from './accessories/sensor-accessory';
+
+// Platform configuration from Homebridge config.json (see config.schema.json)
+export interface TranePlatformConfig {
+  platform: string;
+  name?: string;
+  username: string;
+  password: string;
+  houseId?: number;
+  pollingInterval?: number; // seconds
+  zoneService?: ZoneServiceType;
+  exposeSensors?: boolean;
+}
+
+// Persisted on each PlatformAccessory so cached accessories can be matched to devices
+interface AccessoryContext {
+  kind: 'thermostat' | 'zone' | 'sensor';
+  thermostatId: string;
+  zoneId?: string;
+  sensorId?: number;
+}
+
+export class TraneHomebridgePlatform implements IHomebridgePlatform {
+  public readonly api: any;
+  public readonly log: ILogger;
+  public readonly config: TranePlatformConfig;
+  public readonly client: TraneClient;
+
+  private readonly cachedAccessories: Map<string, any> = new Map();
+  private readonly handlers: Map<string, IHomebridgeAccessory> = new Map();
+
+  constructor(log: ILogger, config: any, api: any) {
+    this.log = log;
+    this.api = api;
+    this.config = this.validateConfig(config);
+
+    this.client = new TraneClient({
+      username: this.config.username,
+      password: this.config.password,
+      houseId: this.config.houseId,
+      deviceName: 'Homebridge',
+      stateFile: this.getStateFile(),
+      logger: this.log
+    });
+
+    this.api.on('didFinishLaunching', () => {
+      void this.discoverDevices();
+    });
+
+    this.api.on('shutdown', () => {
+      this.client.stopPolling();
+    });
+  }
+
+  /**
+   * Called by Homebridge for each accessory restored from its cache
+   */
+  public configureAccessory(accessory: any): void {
+    this.log.debug(`Restoring cached accessory ${accessory.displayName}`);
+    this.cachedAccessories.set(accessory.UUID, accessory);
+  }
+
+  /**
+   * Discover devices, register accessories and start background polling
+   * Polling starts even if the first load fails, so the accessories appear once the API is reachable
+   */
+  public async discoverDevices(): Promise<void> {
+    this.client.on('update', () => {
+      this.client.getThermostats()
+        .then(current => this.syncAccessories(current))
+        .catch((error: Error) => this.log.error('Failed to refresh accessories', error));
+    });
+
+    this.client.on('error', (event) => {
+      this.log.warn(`Trane update failed: ${event.error?.message ?? 'unknown error'}`);
+    });
+
+    try {
+      this.syncAccessories(await this.client.getThermostats());
+    } catch (error) {
+      this.log.error('Failed to discover Trane devices; retrying with the next poll', error as Error);
+    }
+
+    this.client.startPolling({
+      interval: (this.config.pollingInterval ?? PLATFORM_DEFAULTS.POLLING_INTERVAL_SECONDS) * 1000
+    });
+  }
+
+  /**
+   * Number of accessories currently handled by the platform
+   */
+  public get accessoryCount(): number {
+    return this.handlers.size;
+  }
+
+  /**
+   * Get the accessory handler for a HomeKit accessory UUID
+   */
+  public getHandler(uuid: string): IHomebridgeAccessory | undefined {
+    return this.handlers.get(uuid);
+  }
+
+  /**
+   * Create, update and remove accessories to match the current devices
+   */
+  private syncAccessories(thermostats: ITraneThermostat[]): void {
+    const seen = new Set<string>();
+    const exposeSensors = this.config.exposeSensors ?? PLATFORM_DEFAULTS.EXPOSE_SENSORS;
+    const zoneService = this.config.zoneService ?? PLATFORM_DEFAULTS.ZONE_SERVICE;
+
+    for (const thermostat of thermostats) {
+      seen.add(this.ensureAccessory(
+        thermostat.name,
+        { kind: 'thermostat', thermostatId: thermostat.id },
+        accessory => new ThermostatAccessory(this, accessory, thermostat)
+      ));
+
+      for (const zone of thermostat.zones) {
+        seen.add(this.ensureAccessory(
+          zone.name,
+          { kind: 'zone', thermostatId: thermostat.id, zoneId: zone.id },
+          accessory => new ZoneAccessory(this, accessory, zone, zoneService)
+        ));
+
+        if (!exposeSensors) {
+          continue;
+        }
+
+        for (const sensor of zone.sensors) {
+          seen.add(this.ensureAccessory(
+            sensor.name,
+            { kind: 'sensor', thermostatId: thermostat.id, zoneId: zone.id, sensorId: sensor.id },
+            accessory => new SensorAccessory(this, accessory, sensor, zone)
+          ));
+        }
+      }
+    }
+
+    this.removeStaleAccessories(seen);
+  }
+
+  /**
+   * Make sure an accessory and its handler exist, returning its UUID
+   */
+  private ensureAccessory(
+    displayName: string,
+    context: AccessoryContext,
+    createHandler: (accessory: any) => IHomebridgeAccessory
+  ): string {
+    const uuid = this.api.hap.uuid.generate(this.accessoryKey(context));
+
+    const handler = this.handlers.get(uuid);
+    if (handler) {
+      handler.updateCharacteristics();
+      return uuid;
+    }
+
+    let accessory = this.cachedAccessories.get(uuid);
+    if (accessory) {
+      this.log.info(`Restoring ${context.kind} accessory ${displayName}`);
+      accessory.context = context;
+      this.api.updatePlatformAccessories([accessory]);
+    } else {
+      this.log.info(`Adding ${context.kind} accessory ${displayName}`);
+      accessory = new this.api.platformAccessory(displayName, uuid);
+      accessory.context = context;
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.cachedAccessories.set(uuid, accessory);
+    }
+
+    this.handlers.set(uuid, createHandler(accessory));
+    return uuid;
+  }
+
+  /**
+   * Unregister accessories whose devices no longer exist
+   */
+  private removeStaleAccessories(seen: Set<string>): void {
+    const stale = Array.from(this.cachedAccessories.entries())
+      .filter(([uuid]) => !seen.has(uuid));
+
+    if (stale.length === 0) {
+      return;
+    }
+
+    for (const [uuid, accessory] of stale) {
+      this.log.info(`Removing accessory ${accessory.displayName}`);
+      this.cachedAccessories.delete(uuid);
+      this.handlers.delete(uuid);
+    }
+
+    this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, stale.map(([, accessory]) => accessory));
+  }
+
+  private accessoryKey(context: AccessoryContext): string {
+    const parts = [PLUGIN_NAME, context.kind, context.thermostatId];
+    if (context.zoneId !== undefined) {
+      parts.push(context.zoneId);
+    }
+    if (context.sensorId !== undefined) {
+      parts.push(String(context.sensorId));
+    }
+    return parts.join(':');
+  }
+
+  /**
+   * Session file in the Homebridge storage directory, so it lives with the rest of the
+   * Homebridge data rather than in ~/.trane
+   */
+  private getStateFile(): string | undefined {
+    const storagePath: string | undefined = this.api.user?.storagePath?.();
+    return storagePath ? join(storagePath, 'trane-auth-state.json') : undefined;
+  }
+
+  /**
+   * Validate platform configuration
+   */
+  private validateConfig(config: any): TranePlatformConfig {
+    if (!config || typeof config !== 'object') {
+      throw new ConfigurationError('Platform configuration is required');
+    }
+
+    if (!config.username || !config.password) {
+      throw new ConfigurationError('username and password are required', 'username');
+    }
+
+    if (config.zoneService !== undefined && !['thermostat', 'heatercooler'].includes(config.zoneService)) {
+      throw new ConfigurationError(`Invalid zoneService: ${config.zoneService}`, 'zoneService');
+    }
+
+    return config as TranePlatformConfig;
+  }
+}
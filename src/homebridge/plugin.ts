@@ -0,0 +1,14 @@
+/**
+ * Homebridge plugin entry point
+ * The homebridge-trane-thermostat package (homebridge-plugin/) exports registerPlatform as its main
+ */
+
+import { TraneHomebridgePlatform } from './platform';
+import { PLATFORM_NAME } from './settings';
+
+/**
+ * Register the Trane platform with Homebridge
+ */
+export function registerPlatform(api: any): void {
+  api.registerPlatform(PLATFORM_NAME, TraneHomebridgePlatform);
+}
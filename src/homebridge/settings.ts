@@ -0,0 +1,16 @@
+/**
+ * Homebridge registration constants
+ */
+
+// Name users put in the "platform" field of config.json (matches config.schema.json pluginAlias)
+export const PLATFORM_NAME = 'TraneThermostat';
+
+// npm package name of the plugin that registers the platform (homebridge-plugin/)
+export const PLUGIN_NAME = 'homebridge-trane-thermostat';
+
+// Defaults for optional platform configuration
+export const PLATFORM_DEFAULTS = {
+  POLLING_INTERVAL_SECONDS: 60,
+  ZONE_SERVICE: 'thermostat',
+  EXPOSE_SENSORS: true
+} as const;
@@ -5,30 +5,79 @@
 
 // Core client
 export { TraneClient } from './client/trane-client';
-export { AuthManager } from './client/auth';
+export { AuthManager, AuthState } from './client/auth';
+export {
+  SessionStore,
+  FileSessionStore,
+  MemorySessionStore,
+  EncryptedFileSessionStore,
+  getDefaultStateFilePath
+} from './client/session-store';
+export { WriteHandle, PendingWrite, WriteRequest, requestBody } from './client/write-confirmer';
+export { CommandQueue } from './client/command-queue';
+export {
+  HoldStore,
+  TimedHold,
+  FileHoldStore,
+  MemoryHoldStore,
+  getDefaultHoldFilePath
+} from './client/hold-store';
+export { TimedHolds } from './client/timed-holds';
+export {
+  LocalScheduler,
+  LocalSchedulePlan,
+  LocalSchedulerOptions,
+  LocalScheduleStatus
+} from './client/local-scheduler';
+export {
+  SchedulerStore,
+  SchedulerState,
+  AppliedTransition,
+  FileSchedulerStore,
+  MemorySchedulerStore,
+  getDefaultSchedulerFilePath
+} from './client/scheduler-store';
+export { TraneHouse } from './client/trane-house';
+export { ResponseValidator } from './client/response-validator';
 
 // Device classes
 export { TraneThermostat } from './devices/trane-thermostat';
 export { TraneZone } from './devices/trane-zone';
 export { TraneSensor } from './devices/trane-sensor';
 export { TraneAutomation } from './devices/trane-automation';
+export { ZoneSchedule } from './devices/zone-schedule';
+export {
+  ActionRegistry,
+  ActionSource,
+  ZoneAction,
+  ThermostatAction,
+  ZONE_ACTIONS,
+  THERMOSTAT_ACTIONS
+} from './devices/action-registry';
+export { ResponseNormalizer, NormalizedThermostat } from './devices/response-normalizer';
+export { FormatAdapter, FieldReport } from './devices/format-adapter';
+export { CurrentFormatAdapter } from './devices/current-format-adapter';
+export { LegacyFormatAdapter } from './devices/legacy-format-adapter';
+export { Ux360FormatAdapter } from './devices/ux360-format-adapter';
 
 // Types and interfaces
 export * from './types/constants';
 export * from './types/api';
 export * from './types/interfaces';
+export * from './types/schemas';
 
 // Utilities
 export * from './utils/errors';
 export * from './utils/validation';
 export { HttpClient, createHttpClient } from './utils/http-utils';
+export {
+  HttpRecorder,
+  RecordedExchange,
+  createReplayAdapter,
+  loadFixtures,
+  sanitizeFixture
+} from './utils/http-recording';
 export { JsonUtils } from './utils/json-utils';
-
-// Homebridge integration (to be implemented)
-// export { TraneHomebridgePlatform } from './homebridge/platform';
-// export { ThermostatAccessory } from './homebridge/accessories/thermostat-accessory';
-// export { ZoneAccessory } from './homebridge/accessories/zone-accessory';
-// export { SensorAccessory } from './homebridge/accessories/sensor-accessory';
-
-// Version information
-export const VERSION = '1.0.0';
+export { Schema, Schemas, SchemaIssue } from './utils/schema';
+export { TimeZoneUtils, ZonedTime } from './utils/time-zone';
+export { ConsoleLogger, silentLogger, redactSecrets } from './utils/logger';
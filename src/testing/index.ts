@@ -0,0 +1,17 @@
+/**
+ * Testing support
+ * Exported as "trane-thermostat-api/testing", apart from the library itself
+ */
+
+export {
+  MockTraneServer,
+  MockServerOptions,
+  MockHouseState,
+  MockThermostatState,
+  MockZoneState,
+  MockSensorState,
+  MockSchedulePeriod,
+  MockRequest,
+  createMockHouse,
+  createMockSchedule
+} from './mock-server';
@@ -0,0 +1,854 @@
+/**
+ * MockTraneServer
+ * In-process fake of the Trane mobile API for integration tests and demos.
+ * Serves sign-in, session discovery, house data (with ETags) and the thermostat/zone
+ * action endpoints from scriptable in-memory device state
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import {
+  API_ENDPOINTS,
+  API_HEADERS,
+  HTTP_STATUS,
+  HUMIDITY_SETPOINT_VALUES,
+  OperationMode,
+  PresetMode,
+  Weekday
+} from '../types/constants';
+
+export interface MockSensorState {
+  id: number;
+  name: string;
+  type: 'thermostat' | 'wireless';
+  serialNumber: string;
+  weight: number;
+  temperature: number;
+  humidity: number;
+  active: boolean;
+  connected: boolean;
+  batteryLevel?: number; // Omitted for wired sensors
+  batteryLow?: boolean;
+}
+
+export interface MockSchedulePeriod {
+  name: string;
+  startTime: string; // "HH:MM"
+  heatSetpoint: number;
+  coolSetpoint: number;
+}
+
+export interface MockZoneState {
+  id: number;
+  name: string;
+  temperature: number;
+  heatSetpoint: number;
+  coolSetpoint: number;
+  mode: OperationMode;
+  modes?: OperationMode[]; // Modes the zone offers; all of them if omitted
+  runMode: 'run_schedule' | 'permanent_hold';
+  preset: PresetMode;
+  operatingState: 'idle' | 'heating' | 'cooling';
+  damperOpen?: boolean; // Reported by zoned systems only
+  schedule: Partial<Record<Weekday, MockSchedulePeriod[]>>;
+  sensors: MockSensorState[];
+}
+
+export interface MockThermostatState {
+  id: number;
+  name: string;
+  model: string;
+  firmware: string;
+  scale: 'f' | 'c';
+  connected: boolean;
+  systemStatus: string;
+  indoorHumidity: number; // percent
+  outdoorTemperature: number;
+  fanMode: string;
+  fanSpeed: number;
+  dehumidifySetpoint: number;
+  humidifySetpoint: number;
+  airCleanerMode: string;
+  emergencyHeat: boolean;
+  schedulingEnabled: boolean;
+  compressorSpeed?: number; // 0-1, variable speed compressors only
+  zones: MockZoneState[];
+}
+
+export interface MockHouseState {
+  id: number;
+  name: string;
+  thermostats: MockThermostatState[];
+}
+
+export interface MockServerOptions {
+  username?: string;
+  password?: string;
+  houses?: MockHouseState[];
+}
+
+// A request received by the server, recorded for assertions
+export interface MockRequest {
+  method: string;
+  path: string;
+  body: any;
+  rawBody?: string; // Body as sent, before JSON parsing
+}
+
+interface MockFailure {
+  method?: string;
+  path: string | RegExp;
+  status: number;
+  remaining: number;
+}
+
+// Thrown by action handlers to reject a request
+class MockRequestError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const FAN_MODES = ['auto', 'on', 'circulate'];
+const AIR_CLEANER_MODES = ['auto', 'quick', 'allergy'];
+const RUN_MODES = { run_schedule: 'Run Schedule', permanent_hold: 'Permanent Hold' } as const;
+const MODE_LABELS: Record<OperationMode, string> = {
+  [OperationMode.AUTO]: 'Auto',
+  [OperationMode.COOL]: 'Cooling',
+  [OperationMode.HEAT]: 'Heating',
+  [OperationMode.OFF]: 'Off'
+};
+
+/**
+ * Build a typical four-period schedule, starting later on weekends
+ */
+export function createMockSchedule(): Partial<Record<Weekday, MockSchedulePeriod[]>> {
+  const schedule: Partial<Record<Weekday, MockSchedulePeriod[]>> = {};
+
+  for (const day of Object.values(Weekday)) {
+    const weekend = day === Weekday.SATURDAY || day === Weekday.SUNDAY;
+    schedule[day] = [
+      { name: 'Wake', startTime: weekend ? '08:00' : '06:00', heatSetpoint: 68, coolSetpoint: 76 },
+      { name: 'Leave', startTime: weekend ? '10:00' : '08:00', heatSetpoint: 62, coolSetpoint: 82 },
+      { name: 'Return', startTime: '17:00', heatSetpoint: 68, coolSetpoint: 76 },
+      { name: 'Sleep', startTime: '22:00', heatSetpoint: 64, coolSetpoint: 78 }
+    ];
+  }
+
+  return schedule;
+}
+
+/**
+ * Build a house with one single-zone thermostat and two RoomIQ sensors
+ */
+export function createMockHouse(id: number = 123456, name: string = 'Mock Home'): MockHouseState {
+  return {
+    id,
+    name,
+    thermostats: [{
+      id: 2059661,
+      name: 'Hallway',
+      model: 'XL1050',
+      firmware: '5.9.1',
+      scale: 'f',
+      connected: true,
+      systemStatus: 'System Idle',
+      indoorHumidity: 45,
+      outdoorTemperature: 58,
+      fanMode: 'auto',
+      fanSpeed: 0.35,
+      dehumidifySetpoint: 0.5,
+      humidifySetpoint: 0.35,
+      airCleanerMode: 'auto',
+      emergencyHeat: false,
+      schedulingEnabled: true,
+      zones: [{
+        id: 83261002,
+        name: 'Hallway',
+        temperature: 71,
+        heatSetpoint: 68,
+        coolSetpoint: 76,
+        mode: OperationMode.AUTO,
+        runMode: 'run_schedule',
+        preset: PresetMode.NONE,
+        operatingState: 'idle',
+        schedule: createMockSchedule(),
+        sensors: [
+          {
+            id: 17687546,
+            name: 'Hallway',
+            type: 'thermostat',
+            serialNumber: 'NativeIDTUniqueID',
+            weight: 0.5,
+            temperature: 71,
+            humidity: 45,
+            active: true,
+            connected: true
+          },
+          {
+            id: 17687549,
+            name: 'Bedroom',
+            type: 'wireless',
+            serialNumber: '2410R5C53X',
+            weight: 0.5,
+            temperature: 69,
+            humidity: 48,
+            active: true,
+            connected: true,
+            batteryLevel: 92,
+            batteryLow: false
+          }
+        ]
+      }]
+    }]
+  };
+}
+
+export class MockTraneServer {
+  public readonly houses: MockHouseState[];
+  public readonly requests: MockRequest[] = [];
+
+  private readonly username: string;
+  private readonly password: string;
+  private readonly sessions: Map<string, string> = new Map(); // api key -> mobile id
+  private readonly failures: MockFailure[] = [];
+  private server: Server | null = null;
+  private url: string | null = null;
+  private readonly revisions: Map<number, number> = new Map(); // house id -> data revision
+  private nextMobileId: number = 5400000;
+
+  constructor(options: MockServerOptions = {}) {
+    this.username = options.username ?? 'test@example.com';
+    this.password = options.password ?? 'password';
+    this.houses = options.houses ?? [createMockHouse()];
+  }
+
+  /**
+   * Start listening on a local port (random by default), returning the base URL
+   */
+  public async start(port: number = 0): Promise<string> {
+    if (this.url) {
+      return this.url;
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.send(res, HTTP_STATUS.INTERNAL_SERVER_ERROR, { success: false, error: (error as Error).message });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+
+    this.server = server;
+    this.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  /**
+   * Stop the server and drop open connections
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    this.url = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Base URL to pass as TraneClientConfig.baseUrl
+   */
+  public get baseUrl(): string {
+    if (!this.url) {
+      throw new Error('MockTraneServer is not running');
+    }
+    return this.url;
+  }
+
+  /**
+   * Current ETag of a house's data; changes whenever that house's device state changes
+   */
+  public etag(houseId: number): string {
+    return `W/"${houseId}-${this.revisions.get(houseId) ?? 1}"`;
+  }
+
+  /**
+   * Change device state from a test or demo script
+   * Only the given houses get a new ETag; by default every house does
+   */
+  public mutate(mutator: (houses: MockHouseState[]) => void, houseIds?: number[]): void {
+    mutator(this.houses);
+
+    for (const houseId of houseIds ?? this.houses.map(house => house.id)) {
+      this.revisions.set(houseId, (this.revisions.get(houseId) ?? 1) + 1);
+    }
+  }
+
+  public updateThermostat(id: number, changes: Partial<Omit<MockThermostatState, 'id' | 'zones'>>): void {
+    const thermostat = this.findThermostat(id);
+    this.mutate(() => Object.assign(thermostat, changes), [this.houseOf(thermostat).id]);
+  }
+
+  public updateZone(id: number, changes: Partial<Omit<MockZoneState, 'id' | 'sensors'>>): void {
+    const { thermostat, zone } = this.findZone(id);
+    this.mutate(() => Object.assign(zone, changes), [this.houseOf(thermostat).id]);
+  }
+
+  public updateSensor(id: number, changes: Partial<Omit<MockSensorState, 'id'>>): void {
+    const match = this.allZones()
+      .map(({ thermostat, zone }) => ({ thermostat, sensor: zone.sensors.find(candidate => candidate.id === id) }))
+      .find(candidate => candidate.sensor);
+    if (!match) {
+      throw new Error(`Unknown mock sensor ${id}`);
+    }
+
+    this.mutate(() => Object.assign(match.sensor!, changes), [this.houseOf(match.thermostat).id]);
+  }
+
+  /**
+   * Invalidate every API key so the next request gets a 401
+   */
+  public expireSessions(): void {
+    this.sessions.clear();
+  }
+
+  /**
+   * Fail the next matching request(s) with the given HTTP status
+   */
+  public failNext(path: string | RegExp, status: number = 500, count: number = 1, method?: string): void {
+    this.failures.push({ path, status, remaining: count, method });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = req.method ?? 'GET';
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const rawBody = await this.readBody(req);
+    const body = this.parseBody(rawBody);
+    this.requests.push({ method, path, body, rawBody });
+
+    const failure = this.takeFailure(method, path);
+    if (failure) {
+      this.send(res, failure, { success: false, error: `Injected failure (${failure})` });
+      return;
+    }
+
+    if (method === 'POST' && path === API_ENDPOINTS.SIGN_IN) {
+      this.signIn(res, body);
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      this.send(res, HTTP_STATUS.UNAUTHORIZED, { success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      this.route(req, res, method, path, body);
+    } catch (error) {
+      if (error instanceof MockRequestError) {
+        this.send(res, error.status, { success: false, error: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private route(req: IncomingMessage, res: ServerResponse, method: string, path: string, body: any): void {
+    // The client posts to the session endpoint during discovery
+    if (path === API_ENDPOINTS.SESSION) {
+      this.send(res, HTTP_STATUS.OK, this.renderSession());
+      return;
+    }
+
+    const house = path.match(/^\/mobile\/houses\/(\d+)$/);
+    if (method === 'GET' && house) {
+      this.getHouse(req, res, Number(house[1]));
+      return;
+    }
+
+    const thermostat = path.match(/^\/mobile\/xxl_thermostats\/(\d+)(?:\/(\w+))?$/);
+    if (thermostat) {
+      const state = this.findThermostat(Number(thermostat[1]), HTTP_STATUS.NOT_FOUND);
+      if (thermostat[2] && method === 'POST') {
+        this.mutate(() => this.applyThermostatAction(state, thermostat[2]!, body), [this.houseOf(state).id]);
+      } else if (thermostat[2] || method !== 'GET') {
+        throw new MockRequestError(HTTP_STATUS.NOT_FOUND, `Unknown thermostat action ${thermostat[2]}`);
+      }
+      this.send(res, HTTP_STATUS.OK, { success: true, error: null, result: this.renderThermostat(state) });
+      return;
+    }
+
+    const zone = path.match(/^\/mobile\/xxl_zones\/(\d+)\/(\w+)$/);
+    if (zone && method === 'POST') {
+      const { thermostat: owner, zone: state } = this.findZone(Number(zone[1]), HTTP_STATUS.NOT_FOUND);
+      this.mutate(() => this.applyZoneAction(state, zone[2]!, body), [this.houseOf(owner).id]);
+      this.send(res, HTTP_STATUS.OK, { success: true, error: null, result: this.renderThermostat(owner) });
+      return;
+    }
+
+    throw new MockRequestError(HTTP_STATUS.NOT_FOUND, `No route for ${method} ${path}`);
+  }
+
+  private signIn(res: ServerResponse, body: any): void {
+    if (body?.login !== this.username || body?.password !== this.password) {
+      this.send(res, HTTP_STATUS.OK, { success: false, error: 'Invalid login or password', result: null });
+      return;
+    }
+
+    const apiKey = randomBytes(16).toString('hex');
+    const mobileId = String(this.nextMobileId++);
+    this.sessions.set(apiKey, mobileId);
+
+    this.send(res, HTTP_STATUS.OK, {
+      success: true,
+      error: null,
+      result: { mobile_id: Number(mobileId), api_key: apiKey, setup_step: 'done', locale: 'en_us' }
+    });
+  }
+
+  private getHouse(req: IncomingMessage, res: ServerResponse, id: number): void {
+    const house = this.houses.find(candidate => candidate.id === id);
+    if (!house) {
+      throw new MockRequestError(HTTP_STATUS.NOT_FOUND, `Unknown house ${id}`);
+    }
+
+    const etag = this.etag(house.id);
+    if (req.headers[API_HEADERS.IF_NONE_MATCH.toLowerCase()] === etag) {
+      res.writeHead(HTTP_STATUS.NOT_MODIFIED, { ETag: etag });
+      res.end();
+      return;
+    }
+
+    this.send(res, HTTP_STATUS.OK, this.renderHouse(house), { ETag: etag });
+  }
+
+  private applyThermostatAction(thermostat: MockThermostatState, action: string, body: any): void {
+    // Settings take their single value as { value }
+    const value = (): unknown => this.shape(body, ['value'])['value'];
+    const onOff = (field: string): boolean => this.oneOf(value(), ['on', 'off'], field) === 'on';
+
+    switch (action) {
+      case 'fan_mode':
+        thermostat.fanMode = this.oneOf(value(), FAN_MODES, 'fan_mode');
+        break;
+      case 'fan_speed':
+        thermostat.fanSpeed = this.numberIn(value(), 0, 1, 'fan_speed');
+        break;
+      case 'dehumidify':
+        thermostat.dehumidifySetpoint = this.oneOf(value(), [...HUMIDITY_SETPOINT_VALUES], 'dehumidify_setpoint');
+        break;
+      case 'humidify':
+        thermostat.humidifySetpoint = this.oneOf(value(), [...HUMIDITY_SETPOINT_VALUES], 'humidify_setpoint');
+        break;
+      case 'air_cleaner_mode':
+        thermostat.airCleanerMode = this.oneOf(value(), AIR_CLEANER_MODES, 'air_cleaner_mode');
+        break;
+      case 'emergency_heat':
+        thermostat.emergencyHeat = onOff('emergency_heat');
+        break;
+      case 'scheduling_enabled':
+        thermostat.schedulingEnabled = onOff('scheduling_enabled');
+        break;
+      default:
+        throw new MockRequestError(HTTP_STATUS.NOT_FOUND, `Unknown thermostat action ${action}`);
+    }
+  }
+
+  private applyZoneAction(zone: MockZoneState, action: string, body: any): void {
+    // Mode, run mode and preset actions take { value }
+    const value = (): unknown => this.shape(body, ['value'])['value'];
+
+    switch (action) {
+      case 'setpoints':
+        this.applySetpoints(zone, this.shape(body, ['heat', 'cool'], []));
+        break;
+      case 'zone_mode':
+        zone.mode = this.oneOf(value(), zone.modes ?? Object.values(OperationMode), 'zone_mode');
+        break;
+      case 'run_mode':
+        zone.runMode = this.oneOf(value(), Object.keys(RUN_MODES), 'run_mode') as MockZoneState['runMode'];
+        break;
+      case 'return_to_schedule':
+        zone.runMode = this.oneOf(value(), ['run_schedule'], 'run_mode') as MockZoneState['runMode'];
+        break;
+      case 'preset_selected':
+        zone.preset = this.oneOf(value(), Object.values(PresetMode), 'preset');
+        break;
+      case 'schedule':
+        this.applySchedule(zone, this.shape(body, ['days'])['days']);
+        break;
+      case 'update_active_sensors':
+        this.applyActiveSensors(zone, this.shape(body, ['updated_active_sensors'])['updated_active_sensors']);
+        break;
+      case 'request_current_sensor_state':
+        this.shape(body ?? {}, []);
+        break;
+      default:
+        throw new MockRequestError(HTTP_STATUS.NOT_FOUND, `Unknown zone action ${action}`);
+    }
+  }
+
+  /**
+   * Check a request body has the shape its action takes: only the given fields,
+   * every required one, and at least one field when the action takes any
+   */
+  private shape(body: unknown, fields: string[], required: string[] = fields): Record<string, any> {
+    if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+      throw new MockRequestError(HTTP_STATUS.BAD_REQUEST, `Body must be an object with ${fields.join(', ') || 'no fields'}`);
+    }
+
+    const keys = Object.keys(body);
+    const unexpected = keys.filter(key => !fields.includes(key));
+    const missing = required.filter(key => !keys.includes(key));
+    if (unexpected.length > 0 || missing.length > 0 || (fields.length > 0 && keys.length === 0)) {
+      throw new MockRequestError(
+        HTTP_STATUS.BAD_REQUEST,
+        `Body must have ${required.length > 0 ? '' : 'one or more of '}${fields.join(', ')}; got ${keys.join(', ') || 'nothing'}`
+      );
+    }
+
+    return body as Record<string, any>;
+  }
+
+  private applySetpoints(zone: MockZoneState, body: Record<string, any>): void {
+    if (body['heat'] !== undefined) {
+      zone.heatSetpoint = this.numberIn(body['heat'], 40, 99, 'heat');
+    }
+    if (body['cool'] !== undefined) {
+      zone.coolSetpoint = this.numberIn(body['cool'], 40, 99, 'cool');
+    }
+  }
+
+  private applySchedule(zone: MockZoneState, days: unknown): void {
+    if (!Array.isArray(days)) {
+      throw new MockRequestError(HTTP_STATUS.UNPROCESSABLE_ENTITY, 'days must be an array');
+    }
+
+    const schedule: MockZoneState['schedule'] = {};
+    for (const entry of days) {
+      const day = this.oneOf(entry?.day, Object.values(Weekday), 'day');
+      if (!Array.isArray(entry.periods)) {
+        throw new MockRequestError(HTTP_STATUS.UNPROCESSABLE_ENTITY, 'periods must be an array');
+      }
+
+      schedule[day] = entry.periods.map((period: any) => {
+        if (typeof period?.start_time !== 'string' || !/^\d{2}:\d{2}$/.test(period.start_time)) {
+          throw new MockRequestError(HTTP_STATUS.UNPROCESSABLE_ENTITY, 'start_time must be HH:MM');
+        }
+        return {
+          name: String(period.name ?? ''),
+          startTime: period.start_time,
+          heatSetpoint: this.numberIn(period.setpoint_heat, 40, 99, 'setpoint_heat'),
+          coolSetpoint: this.numberIn(period.setpoint_cool, 40, 99, 'setpoint_cool')
+        };
+      });
+    }
+
+    zone.schedule = schedule;
+  }
+
+  private applyActiveSensors(zone: MockZoneState, ids: unknown): void {
+    if (!Array.isArray(ids) || ids.length === 0) {
+      throw new MockRequestError(HTTP_STATUS.UNPROCESSABLE_ENTITY, 'active_sensor_ids must be a non-empty array');
+    }
+
+    const unknown = ids.filter(id => !zone.sensors.some(sensor => sensor.id === id));
+    if (unknown.length > 0) {
+      throw new MockRequestError(HTTP_STATUS.UNPROCESSABLE_ENTITY, `Unknown sensor ids: ${unknown.join(', ')}`);
+    }
+
+    // Active sensors share the weight evenly
+    for (const sensor of zone.sensors) {
+      sensor.active = ids.includes(sensor.id);
+      sensor.weight = sensor.active ? 1 / ids.length : 0;
+    }
+  }
+
+  private renderSession(): Record<string, any> {
+    return {
+      success: true,
+      error: null,
+      result: {
+        _links: {
+          child: this.houses.map(house => ({
+            href: `${this.baseUrl}${API_ENDPOINTS.HOUSES}/${house.id}`,
+            type: 'application/vnd.nexia.location+json',
+            data: { id: house.id, name: house.name }
+          }))
+        }
+      }
+    };
+  }
+
+  private renderHouse(house: MockHouseState): Record<string, any> {
+    const houseUrl = `${this.baseUrl}${API_ENDPOINTS.HOUSES}/${house.id}`;
+
+    return {
+      success: true,
+      error: null,
+      result: {
+        id: house.id,
+        name: house.name,
+        _links: {
+          self: { href: houseUrl },
+          child: [{
+            href: `${houseUrl}/devices`,
+            type: 'application/vnd.nexia.collection+json',
+            data: { items: house.thermostats.map(thermostat => this.renderThermostat(thermostat)) }
+          }]
+        }
+      }
+    };
+  }
+
+  /**
+   * Render a thermostat in the current array-based features/settings format
+   */
+  private renderThermostat(thermostat: MockThermostatState): Record<string, any> {
+    const url = `${this.baseUrl}${API_ENDPOINTS.THERMOSTAT}/${thermostat.id}`;
+    const setting = (type: string, currentValue: unknown, values: unknown[]): Record<string, any> => ({
+      type,
+      current_value: currentValue,
+      values,
+      _links: { self: { href: `${url}/${type}` } }
+    });
+
+    return {
+      id: thermostat.id,
+      name: thermostat.name,
+      type: 'xxl_thermostat',
+      has_outdoor_temperature: true,
+      has_indoor_humidity: true,
+      indoor_humidity: String(thermostat.indoorHumidity),
+      outdoor_temperature: String(thermostat.outdoorTemperature),
+      system_status: thermostat.systemStatus,
+      has_variable_speed_compressor: thermostat.compressorSpeed !== undefined,
+      ...(thermostat.compressorSpeed !== undefined ? { compressor_speed: thermostat.compressorSpeed } : {}),
+      features: [
+        {
+          name: 'advanced_info',
+          items: [
+            { type: 'label_value', label: 'Model', value: thermostat.model },
+            { type: 'label_value', label: 'Firmware Version', value: thermostat.firmware }
+          ]
+        },
+        { name: 'connection', is_connected: thermostat.connected },
+        ...thermostat.zones.flatMap(zone => this.renderZoneFeatures(thermostat, zone))
+      ],
+      settings: [
+        setting('fan_mode', thermostat.fanMode, FAN_MODES),
+        setting('fan_speed', thermostat.fanSpeed, [0.35, 0.5, 0.65, 0.8, 1]),
+        setting('dehumidify', thermostat.dehumidifySetpoint, [...HUMIDITY_SETPOINT_VALUES]),
+        setting('humidify', thermostat.humidifySetpoint, [...HUMIDITY_SETPOINT_VALUES]),
+        setting('air_cleaner_mode', thermostat.airCleanerMode, AIR_CLEANER_MODES),
+        setting('emergency_heat', thermostat.emergencyHeat ? 'on' : 'off', ['on', 'off']),
+        setting('scheduling_enabled', thermostat.schedulingEnabled ? 'on' : 'off', ['on', 'off'])
+      ],
+      _links: { self: { href: url } }
+    };
+  }
+
+  private renderZoneFeatures(thermostat: MockThermostatState, zone: MockZoneState): Record<string, any>[] {
+    const url = `${this.baseUrl}${API_ENDPOINTS.ZONE}/${zone.id}`;
+    const deviceIdentifier = `XxlZone-${zone.id}`;
+
+    return [
+      {
+        name: 'thermostat',
+        device_identifier: deviceIdentifier,
+        zone_name: zone.name,
+        scale: thermostat.scale,
+        temperature: zone.temperature,
+        status: thermostat.systemStatus,
+        system_status: thermostat.systemStatus,
+        operating_state: zone.operatingState,
+        ...(zone.damperOpen !== undefined ? { damper_position: zone.damperOpen ? 'Damper Open' : 'Damper Closed' } : {}),
+        setpoint_delta: 3,
+        setpoint_heat: zone.heatSetpoint,
+        setpoint_cool: zone.coolSetpoint,
+        setpoint_heat_min: 55,
+        setpoint_heat_max: 90,
+        setpoint_cool_min: 60,
+        setpoint_cool_max: 99,
+        setpoint_increment: 1,
+        actions: {
+          set_heat_setpoint: { method: 'POST', href: `${url}/setpoints` },
+          set_cool_setpoint: { method: 'POST', href: `${url}/setpoints` }
+        }
+      },
+      {
+        name: 'thermostat_mode',
+        device_identifier: deviceIdentifier,
+        label: 'System Mode',
+        value: zone.mode,
+        display_value: MODE_LABELS[zone.mode],
+        options: (zone.modes ?? Object.values(OperationMode)).map(mode => ({ value: mode, label: MODE_LABELS[mode] })),
+        actions: { update_thermostat_mode: { method: 'POST', href: `${url}/zone_mode` } }
+      },
+      {
+        name: 'thermostat_run_mode',
+        device_identifier: deviceIdentifier,
+        label: 'Run Mode',
+        value: zone.runMode,
+        display_value: RUN_MODES[zone.runMode],
+        options: Object.entries(RUN_MODES).map(([value, label]) => ({ value, label })),
+        actions: { update_thermostat_run_mode: { method: 'POST', href: `${url}/run_mode` } }
+      },
+      {
+        name: 'preset_selected',
+        device_identifier: deviceIdentifier,
+        value: zone.preset,
+        options: Object.values(PresetMode).map(preset => ({ value: preset, label: preset })),
+        actions: { update_preset: { method: 'POST', href: `${url}/preset_selected` } }
+      },
+      {
+        name: 'schedule',
+        device_identifier: deviceIdentifier,
+        days: Object.entries(zone.schedule).map(([day, periods]) => ({
+          day,
+          periods: periods!.map(period => ({
+            name: period.name,
+            start_time: period.startTime,
+            setpoint_heat: period.heatSetpoint,
+            setpoint_cool: period.coolSetpoint
+          }))
+        })),
+        actions: { update_schedule: { method: 'POST', href: `${url}/schedule` } }
+      },
+      {
+        name: 'room_iq_sensors',
+        device_identifier: deviceIdentifier,
+        sensors: zone.sensors.map(sensor => this.renderSensor(sensor)),
+        actions: {
+          request_current_state: { method: 'POST', href: `${url}/request_current_sensor_state` },
+          update_active_sensors: { method: 'POST', href: `${url}/update_active_sensors` }
+        }
+      }
+    ];
+  }
+
+  private renderSensor(sensor: MockSensorState): Record<string, any> {
+    const hasBattery = sensor.batteryLevel !== undefined;
+
+    return {
+      id: sensor.id,
+      name: sensor.name,
+      type: sensor.type,
+      serial_number: sensor.serialNumber,
+      weight: sensor.active ? sensor.weight : 0,
+      temperature: sensor.temperature,
+      temperature_valid: sensor.connected,
+      humidity: sensor.humidity,
+      humidity_valid: sensor.connected,
+      has_online: sensor.type === 'wireless',
+      connected: sensor.type === 'wireless' ? sensor.connected : null,
+      has_battery: hasBattery,
+      battery_level: hasBattery ? sensor.batteryLevel : null,
+      battery_low: hasBattery ? sensor.batteryLow ?? false : null,
+      battery_valid: hasBattery ? sensor.connected : null
+    };
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const apiKey = req.headers[API_HEADERS.API_KEY.toLowerCase()];
+    const mobileId = req.headers[API_HEADERS.MOBILE_ID.toLowerCase()];
+    return typeof apiKey === 'string' && this.sessions.get(apiKey) === mobileId;
+  }
+
+  private takeFailure(method: string, path: string): number | null {
+    const index = this.failures.findIndex(failure =>
+      (!failure.method || failure.method === method) &&
+      (typeof failure.path === 'string' ? failure.path === path : failure.path.test(path))
+    );
+    if (index === -1) {
+      return null;
+    }
+
+    const failure = this.failures[index]!;
+    if (--failure.remaining <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return failure.status;
+  }
+
+  private houseOf(thermostat: MockThermostatState): MockHouseState {
+    return this.houses.find(house => house.thermostats.includes(thermostat))!;
+  }
+
+  private findThermostat(id: number, status?: number): MockThermostatState {
+    const thermostat = this.houses.flatMap(house => house.thermostats).find(candidate => candidate.id === id);
+    if (!thermostat) {
+      if (status) {
+        throw new MockRequestError(status, `Unknown thermostat ${id}`);
+      }
+      throw new Error(`Unknown mock thermostat ${id}`);
+    }
+    return thermostat;
+  }
+
+  private findZone(id: number, status?: number): { thermostat: MockThermostatState; zone: MockZoneState } {
+    const match = this.allZones().find(({ zone }) => zone.id === id);
+    if (!match) {
+      if (status) {
+        throw new MockRequestError(status, `Unknown zone ${id}`);
+      }
+      throw new Error(`Unknown mock zone ${id}`);
+    }
+    return match;
+  }
+
+  private allZones(): Array<{ thermostat: MockThermostatState; zone: MockZoneState }> {
+    return this.houses
+      .flatMap(house => house.thermostats)
+      .flatMap(thermostat => thermostat.zones.map(zone => ({ thermostat, zone })));
+  }
+
+  private oneOf<T>(value: unknown, allowed: readonly T[], field: string): T {
+    if (!allowed.includes(value as T)) {
+      throw new MockRequestError(HTTP_STATUS.UNPROCESSABLE_ENTITY, `${field} must be one of: ${allowed.join(', ')}`);
+    }
+    return value as T;
+  }
+
+  private numberIn(value: unknown, min: number, max: number, field: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      throw new MockRequestError(HTTP_STATUS.UNPROCESSABLE_ENTITY, `${field} must be a number between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  private async readBody(req: IncomingMessage): Promise<string | undefined> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf8');
+    return text || undefined;
+  }
+
+  private parseBody(text: string | undefined): any {
+    if (text === undefined) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+}
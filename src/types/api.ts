@@ -3,7 +3,12 @@
  * Based on analysis of Python library's JSON response handling
  */
 
-import { BrandType, OperationMode, SystemStatus, PresetMode, AirCleanerMode, TemperatureUnit, ZoneStatus, DamperState } from './constants';
+import { BrandType, OperationMode, SystemStatus, PresetMode, AirCleanerMode, TemperatureUnit, ZoneStatus, DamperState, Weekday } from './constants';
+import type { SessionStore } from '../client/session-store';
+import type { HoldStore } from '../client/hold-store';
+import type { FormatAdapter } from '../devices/format-adapter';
+import type { RecordedExchange } from '../utils/http-recording';
+import type { ILogger } from './interfaces';
 
 // Authentication response types
 export interface AuthTokens {
@@ -27,8 +32,8 @@ export interface LoginResponse {
   result?: {
     api_key: string;
     mobile_id: number;
-    setup_step?: string;
-    locale?: string;
+    setup_step?: string | null;
+    locale?: string | null;
   };
 }
 
@@ -56,7 +61,7 @@ export interface SessionChildLink {
   type: string;
   data?: {
     id: number;
-    name: string;
+    name: string | null;
     postal_code?: string;
     items?: any[];
     _links?: any;
@@ -65,7 +70,7 @@ export interface SessionChildLink {
 
 export interface HomeInfo {
   house_id: number;
-  name: string;
+  name: string | null;
   _links?: {
     self: LinkInfo;
   };
@@ -96,14 +101,21 @@ export interface HouseData {
     _links: {
       child: DeviceLink[];
     };
-    house_id: number;
-    name: string;
+    id?: number;
+    house_id?: number; // Legacy name of id
+    name?: string | null;
     devices?: ThermostatData[];
     automations?: AutomationData[];
     [key: string]: any;
   };
 }
 
+// A home available to the account, from session discovery
+export interface HouseInfo {
+  houseId: number;
+  houseName: string;
+}
+
 // Thermostat feature detection
 export interface ThermostatFeatures {
   has_zones?: boolean;
@@ -133,15 +145,19 @@ export interface ThermostatSettings {
   scheduling_enabled?: boolean;
   humidify_setpoint?: number;
   dehumidify_setpoint?: number;
+  fan_speed_limits?: FanSpeedLimits; // From the fan_speed setting values
+  available_fan_speeds?: number[]; // From the fan_speed setting values
+  available_fan_modes?: string[]; // From the fan_mode setting values
+  available_air_cleaner_modes?: string[]; // From the air_cleaner_mode setting values
   [key: string]: any;
 }
 
 // Setpoint limits for temperature validation
 export interface SetpointLimits {
-  heat_min: number;
-  heat_max: number;
-  cool_min: number;
-  cool_max: number;
+  heatMin: number;
+  heatMax: number;
+  coolMin: number;
+  coolMax: number;
 }
 
 // Available fan speed range
@@ -165,8 +181,7 @@ export interface ThermostatData {
     self?: LinkInfo;
     child?: DeviceLink[];
   };
-  // Raw JSON data for dynamic endpoint discovery
-  [key: string]: any;
+  _rawActions?: Record<string, DeviceAction>; // Write targets found in the raw JSON
 }
 
 // Zone feature detection
@@ -180,15 +195,45 @@ export interface ZoneFeatures {
   preset_selected?: string;
   is_calling?: boolean;
   damper_position?: DamperState;
+  setpoint_limits?: SetpointLimits; // Reported by the zone's thermostat feature
+  schedule?: ScheduleFeatureData;
   [key: string]: any;
 }
 
+// Zone schedule as reported in the 'schedule' feature
+export interface ScheduleFeatureData {
+  days?: Array<{
+    day: string;
+    periods?: Array<{
+      name?: string;
+      start_time: string; // "HH:MM", thermostat local time
+      setpoint_heat: number;
+      setpoint_cool: number;
+    }>;
+  }>;
+}
+
+// One period of a schedule day, running until the next period starts
+export interface SchedulePeriod {
+  name: string; // Preset name shown on the thermostat, e.g. "Wake", "Leave", "Return", "Sleep"
+  startTime: string; // "HH:MM", thermostat local time
+  heatingSetpoint: number;
+  coolingSetpoint: number;
+}
+
+// Periods of one day of a zone schedule
+export interface ScheduleDay {
+  day: Weekday;
+  periods: SchedulePeriod[];
+}
+
 // Zone settings and status
 export interface ZoneSettings {
   temperature?: number;
   status?: ZoneStatus;
   native_zone?: boolean;
   available_presets?: string[];
+  available_modes?: string[]; // From the thermostat_mode feature options
   [key: string]: any;
 }
 
@@ -196,7 +241,6 @@ export interface ZoneSettings {
 export interface ZoneData {
   id: string | number;
   name?: string;
-  zone_id?: string | number; // UX360 uses different naming
   features?: ZoneFeatures;
   settings?: ZoneSettings;
   sensors?: SensorData[];
@@ -204,8 +248,7 @@ export interface ZoneData {
     self?: LinkInfo;
     child?: DeviceLink[];
   };
-  // Raw JSON data for dynamic endpoint discovery
-  [key: string]: any;
+  _rawActions?: Record<string, DeviceAction>; // Write targets found in the raw JSON
 }
 
 // Battery information for sensors
@@ -251,11 +294,24 @@ export interface AutomationData {
 
 // Endpoint mapping data for dynamic API discovery
 export interface EndpointMapData {
-  area: string;
-  area_primary_key: string;
-  key: string;
-  action: string;
-  fallback_endpoint: string;
+  area: string; // Where the device JSON lists the item: 'features' or 'settings'
+  area_primary_key: string; // Field naming the item, e.g. 'name' for features, 'type' for settings
+  key: string; // Value of that field, e.g. 'thermostat_mode'
+  action: string; // Feature action (e.g. 'update_thermostat_mode') or setting link (e.g. 'self')
+  fallback_endpoint: string; // Appended to the device URL when the device lists no link
+  payload: PayloadShape; // Body the action takes
+}
+
+// Request body field each write field is sent as, e.g. { zone_mode: 'value' }
+export type PayloadShape = Record<string, string>;
+
+// HTTP methods device actions use
+export type ActionMethod = 'POST' | 'PUT';
+
+// A write target discovered in device data
+export interface DeviceAction {
+  href: string;
+  method: ActionMethod;
 }
 
 // Temperature setting options
@@ -299,11 +355,24 @@ export interface TraneClientConfig {
   username: string;
   password: string;
   brand?: BrandType;
+  baseUrl?: string; // Overrides the brand URL, e.g. to point at a MockTraneServer
   deviceName?: string;
   houseId?: number;
   stateFile?: string;
+  statePassphrase?: string; // Encrypts the state file (AES-256-GCM)
+  sessionStore?: SessionStore; // Replaces the state file entirely
+  holdFile?: string; // Timed hold end times; defaults to a file next to the state file
+  holdStore?: HoldStore; // Replaces the hold file entirely
+  logger?: ILogger; // Defaults to the console; e.g. pass Homebridge's log
   timeout?: number;
   retryAttempts?: number;
+  polling?: PollingOptions;
+  writeConfirmation?: WriteConfirmationOptions;
+  optimisticUpdates?: boolean; // Show requested values until writes are confirmed
+  formatAdapters?: FormatAdapter[]; // Read response formats the built-in adapters do not know
+  responseValidation?: ResponseValidationMode; // Defaults to 'strict'
+  recordFixtures?: string; // Directory to record sanitized requests and responses to
+  replayFixtures?: string | RecordedExchange[]; // Serve recorded responses instead of calling the API
 }
 
 // Device capability summary
@@ -323,24 +392,42 @@ export interface DeviceCapabilities {
 
 // Update options for various operations
 export interface UpdateOptions {
+  houseId?: number; // Defaults to the client's default house
   forceUpdate?: boolean;
   delayUpdate?: boolean;
   pollingDelay?: number;
   maxPolls?: number;
 }
 
+// How responses that do not match their schema are handled: thrown as ParseError, or logged
+export type ResponseValidationMode = 'strict' | 'lenient';
+
+// Background polling options
+export interface PollingOptions {
+  interval?: number;          // Milliseconds between polls while healthy
+  maxInterval?: number;       // Upper bound for the backoff delay after failures
+  backoffMultiplier?: number; // Growth factor applied per consecutive failure
+  immediate?: boolean;        // Poll right away instead of waiting one interval
+}
+
+// Confirmation of device writes
+export interface WriteConfirmationOptions {
+  interval?: number; // Milliseconds between refreshes while waiting for a write to apply
+  timeout?: number;  // Reject with WriteNotAppliedError after this many milliseconds
+  debounce?: number; // Milliseconds to wait for further writes to the same device before sending
+}
+
 // Sensor selection options for RoomIQ
 export interface SensorSelectionOptions {
   activeSensorIds: number[];
-  pollingDelay?: number;
-  maxPolls?: number;
 }
 
 // Hold/schedule operation options
 export interface HoldOptions {
   temperatures?: TemperatureOptions;
-  duration?: 'permanent' | 'temporary';
-  endTime?: Date;
+  duration?: 'permanent' | 'temporary'; // Temporary without an end: until the next schedule change
+  minutes?: number; // Hold this long, then return to the schedule
+  endTime?: Date; // Hold until then, then return to the schedule
 }
 
 // Fan control options
@@ -374,3 +461,58 @@ export interface ZoneStatusSummary {
   isInPermanentHold: boolean;
   currentPreset: PresetMode | null;
 }
+
+// One HTTP request attempt, for diagnostics
+export interface RequestTiming {
+  time: string; // ISO time the request was sent
+  method: string;
+  path: string;
+  status: number | null; // Null when no response arrived
+  durationMs: number;
+  error?: string;
+}
+
+// An error the client ran into, for diagnostics
+export interface DiagnosticsError {
+  time: string;
+  context: string; // What the client was doing, e.g. "update" or "PUT /mobile/..."
+  name: string;
+  code: string;
+  message: string;
+}
+
+// Session state without its secrets
+export interface AuthStatus {
+  authenticated: boolean;
+  sessionExpiresAt: string | null;
+  loginAttempts: number;
+  lastLoginAttempt: string | null;
+}
+
+// One thermostat in a diagnostics report
+export interface ThermostatDiagnostics {
+  summary: Record<string, any>;
+  dataFormat: string;
+  rawFeatures: string[];
+  unmappedFields: string[];
+  zones: Array<{ summary: Record<string, any>; sensors: Record<string, any>[] }>;
+}
+
+// Report from TraneClient.getDiagnostics(), redacted for sharing
+export interface DiagnosticsReport {
+  generatedAt: string;
+  version: string;
+  brand: BrandType;
+  baseUrl: string;
+  auth: AuthStatus;
+  houses: Array<{
+    id: number;
+    name: string;
+    isDefault: boolean;
+    lastUpdate: string | null;
+    thermostats: ThermostatDiagnostics[];
+  }>;
+  polling: boolean;
+  recentErrors: DiagnosticsError[];
+  requests: RequestTiming[];
+}
@@ -62,6 +62,17 @@ export enum HoldMode {
   RUN_SCHEDULE = 'run_schedule'
 }
 
+// Days of a zone schedule, in schedule order
+export enum Weekday {
+  MONDAY = 'monday',
+  TUESDAY = 'tuesday',
+  WEDNESDAY = 'wednesday',
+  THURSDAY = 'thursday',
+  FRIDAY = 'friday',
+  SATURDAY = 'saturday',
+  SUNDAY = 'sunday'
+}
+
 // Air cleaner modes
 export enum AirCleanerMode {
   AUTO = 'auto',
@@ -110,6 +121,9 @@ export const FAN_SPEED_LIMITS = {
   STEP: 0.1
 } as const;
 
+// Library version, reported in the User-Agent and diagnostics
+export const VERSION = '1.0.0';
+
 // API-specific constants
 export const API_CONSTANTS = {
   APP_VERSION: '6.0.0',
@@ -120,6 +134,31 @@ export const API_CONSTANTS = {
   DEFAULT_MAX_POLLS: 8
 } as const;
 
+// Background polling defaults for TraneClient.startPolling
+export const POLLING_DEFAULTS = {
+  INTERVAL_MS: 60000,       // 1 minute between successful polls
+  MAX_INTERVAL_MS: 600000,  // Back off to at most 10 minutes
+  BACKOFF_MULTIPLIER: 2
+} as const;
+
+// Write confirmation defaults for device commands
+export const WRITE_CONFIRMATION_DEFAULTS = {
+  INTERVAL_MS: 2000,  // Refresh house data every 2 seconds after a write
+  TIMEOUT_MS: 30000,  // Give up and reject after 30 seconds
+  DEBOUNCE_MS: 250    // Wait for further writes (e.g. slider drags) before sending
+} as const;
+
+// Timed hold scheduling
+export const TIMED_HOLD_DEFAULTS = {
+  RETRY_MS: 60000,           // Retry a failed return to schedule after 1 minute
+  MAX_TIMER_MS: 2147483647   // Longest delay setTimeout supports
+} as const;
+
+// Local scheduler
+export const LOCAL_SCHEDULER_DEFAULTS = {
+  RETRY_MS: 60000  // Retry a failed transition after 1 minute
+} as const;
+
 // HTTP headers required for API calls
 export const API_HEADERS = {
   APP_VERSION: 'X-AppVersion',
@@ -178,8 +217,10 @@ export const HTTP_STATUS = {
   OK: 200,
   NOT_MODIFIED: 304,
   REDIRECT: 302,
+  BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   NOT_FOUND: 404,
+  UNPROCESSABLE_ENTITY: 422,
   INTERNAL_SERVER_ERROR: 500
 } as const;
 
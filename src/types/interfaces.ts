@@ -9,7 +9,8 @@ import {
   PresetMode,
   AirCleanerMode,
   TemperatureUnit,
-  SensorType
+  SensorType,
+  DamperState
 } from './constants';
 
 import {
@@ -18,12 +19,25 @@ import {
   FanOptions,
   HoldOptions,
   UpdateOptions,
+  PollingOptions,
   SensorSelectionOptions,
   DeviceCapabilities,
   SystemStatusSummary,
-  ZoneStatusSummary
+  ZoneStatusSummary,
+  WriteConfirmationOptions,
+  ResponseValidationMode,
+  SetpointLimits,
+  FanSpeedLimits,
+  DiagnosticsReport
 } from './api';
 
+import type { SessionStore } from '../client/session-store';
+import type { HoldStore } from '../client/hold-store';
+import type { WriteHandle } from '../client/write-confirmer';
+import type { ZoneSchedule } from '../devices/zone-schedule';
+import type { FormatAdapter } from '../devices/format-adapter';
+import type { RecordedExchange } from '../utils/http-recording';
+
 // Main client interface
 export interface ITraneClient {
   // Authentication
@@ -31,7 +45,11 @@ export interface ITraneClient {
   logout(): Promise<void>;
   isAuthenticated(): boolean;
 
-  // Device discovery
+  // Houses
+  getHouses(): Promise<ITraneHouse[]>;
+  house(houseId: number): ITraneHouse;
+
+  // Device discovery (default house)
   getThermostats(): Promise<ITraneThermostat[]>;
   getAutomations(): Promise<ITraneAutomation[]>;
   getThermostatById(id: string): ITraneThermostat | undefined;
@@ -40,11 +58,39 @@ export interface ITraneClient {
   // Data refresh
   update(options?: UpdateOptions): Promise<void>;
 
+  // Background polling
+  startPolling(options?: PollingOptions): void;
+  stopPolling(): void;
+  readonly isPolling: boolean;
+
+  // Event subscription
+  addEventListener(listener: ITraneEventListener): void;
+  removeEventListener(listener: ITraneEventListener): void;
+
   // Configuration
   readonly brand: BrandType;
   readonly username: string;
   getHouseId(): number | undefined;
   readonly lastUpdate: Date | null;
+
+  // Troubleshooting
+  getDiagnostics(): DiagnosticsReport;
+}
+
+// House interface
+export interface ITraneHouse {
+  readonly id: number;
+  readonly name: string;
+  readonly lastUpdate: Date | null;
+
+  // Device discovery
+  getThermostats(): Promise<ITraneThermostat[]>;
+  getAutomations(): Promise<ITraneAutomation[]>;
+  getThermostatById(id: string): ITraneThermostat | undefined;
+  getAutomationById(id: string): ITraneAutomation | undefined;
+
+  // Data refresh
+  update(options?: UpdateOptions): Promise<void>;
 }
 
 // Thermostat interface
@@ -52,12 +98,16 @@ export interface ITraneThermostat {
   // Identification
   readonly id: string;
   readonly name: string;
+  readonly houseId: number | undefined;
 
   // System information
   readonly model: string;
   readonly firmware: string;
   readonly isOnline: boolean;
   readonly temperatureUnit: TemperatureUnit;
+  readonly dataFormat: string; // Response format the data was read as, e.g. "current@1"
+  readonly unmappedFields: string[];
+  readonly rawFeatureNames: string[]; // Feature names and setting types as the API sent them
   readonly deadband: number;
 
   // Capability detection
@@ -81,20 +131,16 @@ export interface ITraneThermostat {
   readonly outdoorTemperature: number | null;
 
   // Setpoint limits
-  readonly setpointLimits: {
-    heatMin: number;
-    heatMax: number;
-    coolMin: number;
-    coolMax: number;
-  };
+  readonly setpointLimits: SetpointLimits;
 
   // Fan control
   readonly availableFanModes: string[];
   readonly currentFanMode: string | null;
-  readonly fanSpeedLimits: { min: number; max: number };
+  readonly fanSpeedLimits: FanSpeedLimits;
+  readonly availableFanSpeeds: number[] | null;
   readonly currentFanSpeed: number;
-  setFanMode(mode: string): Promise<void>;
-  setFanSpeed(speed: number): Promise<void>;
+  setFanMode(mode: string): WriteHandle<Record<string, any>>;
+  setFanSpeed(speed: number): WriteHandle<Record<string, any>>;
   setFanOptions(options: FanOptions): Promise<void>;
 
   // Humidity control
@@ -103,19 +149,22 @@ export interface ITraneThermostat {
   readonly humiditySetpoints: number[];
   readonly dehumidifySetpoints: number[];
   setHumiditySetpoints(options: HumidityOptions): Promise<void>;
-  setDehumidifySetpoint(value: number): Promise<void>;
-  setHumidifySetpoint(value: number): Promise<void>;
+  setDehumidifySetpoint(value: number): WriteHandle<Record<string, any>>;
+  setHumidifySetpoint(value: number): WriteHandle<Record<string, any>>;
 
   // Air cleaner
   readonly airCleanerMode: string | null;
   readonly availableAirCleanerModes: AirCleanerMode[];
-  setAirCleanerMode(mode: AirCleanerMode): Promise<void>;
+  setAirCleanerMode(mode: AirCleanerMode): WriteHandle<Record<string, any>>;
 
   // Emergency heat
-  setEmergencyHeat(enabled: boolean): Promise<void>;
+  setEmergencyHeat(enabled: boolean): WriteHandle<Record<string, any>>;
 
   // Schedule control
-  setFollowSchedule(follow: boolean): Promise<void>;
+  setFollowSchedule(follow: boolean): WriteHandle<Record<string, any>>;
+
+  // Properties showing optimistic values until their writes are confirmed
+  readonly pendingProperties: string[];
 
   // Zone management
   readonly zones: ITraneZone[];
@@ -124,6 +173,9 @@ export interface ITraneThermostat {
 
   // Data refresh
   refresh(): Promise<void>;
+
+  // Diagnostics
+  getStatusSummary(): Record<string, any>;
 }
 
 // Zone interface
@@ -137,39 +189,50 @@ export interface ITraneZone {
   readonly currentTemperature: number;
   readonly heatingSetpoint: number;
   readonly coolingSetpoint: number;
+  readonly setpointLimits: SetpointLimits;
 
   // Mode control
   readonly currentMode: OperationMode;
   readonly requestedMode: OperationMode;
   readonly availableModes: OperationMode[];
-  setMode(mode: OperationMode): Promise<void>;
+  setMode(mode: OperationMode): WriteHandle<ZoneStatusSummary>;
 
   // Setpoint control
-  setTemperatures(options: TemperatureOptions): Promise<void>;
-  setHeatingSetpoint(temperature: number): Promise<void>;
-  setCoolingSetpoint(temperature: number): Promise<void>;
+  setTemperatures(options: TemperatureOptions): WriteHandle<ZoneStatusSummary>;
+  setHeatingSetpoint(temperature: number): WriteHandle<ZoneStatusSummary>;
+  setCoolingSetpoint(temperature: number): WriteHandle<ZoneStatusSummary>;
 
   // Status
   readonly status: ZoneStatusSummary;
   readonly isCalling: boolean;
+  readonly damperPosition: DamperState | null;
 
   // Hold/schedule control
   readonly setpointStatus: string;
   readonly isInPermanentHold: boolean;
-  setPermanentHold(options?: HoldOptions): Promise<void>;
-  returnToSchedule(): Promise<void>;
+  readonly holdEndTime: Date | null;
+  readonly holdRemainingMinutes: number | null;
+  setPermanentHold(options?: HoldOptions): WriteHandle<ZoneStatusSummary>;
+  returnToSchedule(): WriteHandle<ZoneStatusSummary>;
+
+  // Schedule
+  getSchedule(): ZoneSchedule | null;
+  setSchedule(schedule: ZoneSchedule): WriteHandle<ZoneStatusSummary>;
 
   // Preset control
   readonly availablePresets: PresetMode[];
   readonly currentPreset: PresetMode | null;
-  setPreset(preset: PresetMode): Promise<void>;
+  setPreset(preset: PresetMode): WriteHandle<ZoneStatusSummary>;
+
+  // Properties showing optimistic values until their writes are confirmed
+  readonly pendingProperties: string[];
 
   // RoomIQ sensors
   readonly sensors: ITraneSensor[];
   readonly activeSensorIds: Set<number>;
   readonly sensorIds: number[];
   getSensorById(sensorId: number): ITraneSensor | undefined;
-  selectActiveSensors(options: SensorSelectionOptions): Promise<void>;
+  selectActiveSensors(options: SensorSelectionOptions): WriteHandle<ZoneStatusSummary>;
 
   // Thermostat reference
   readonly thermostat: ITraneThermostat;
@@ -177,6 +240,9 @@ export interface ITraneZone {
   // Validation
   validateTemperatureSetpoints(heatTemp: number, coolTemp: number): boolean;
   roundTemperature(temperature: number): number;
+
+  // Diagnostics
+  getStatusSummary(): Record<string, any>;
 }
 
 // Sensor interface
@@ -212,6 +278,9 @@ export interface ITraneSensor {
 
   // Data validation
   isDataValid(): boolean;
+
+  // Diagnostics
+  getStatusSummary(): Record<string, any>;
 }
 
 // Automation interface
@@ -237,8 +306,20 @@ export interface TraneConfig {
   deviceName?: string;
   houseId?: number;
   stateFile?: string;
+  statePassphrase?: string;
+  sessionStore?: SessionStore;
+  holdFile?: string;
+  holdStore?: HoldStore;
+  logger?: ILogger;
+  optimisticUpdates?: boolean;
   timeout?: number;
   retryAttempts?: number;
+  polling?: PollingOptions;
+  writeConfirmation?: WriteConfirmationOptions;
+  formatAdapters?: FormatAdapter[];
+  responseValidation?: ResponseValidationMode;
+  recordFixtures?: string;
+  replayFixtures?: string | RecordedExchange[];
 }
 
 // Event interface for notifications
@@ -249,12 +330,71 @@ export interface TraneEvent {
   error?: Error;
 }
 
+// Granular device change event types
+export type DeviceChangeEventType =
+  | 'thermostat.systemStatusChanged'
+  | 'thermostat.onlineChanged'
+  | 'thermostat.fanModeChanged'
+  | 'thermostat.humidityChanged'
+  | 'thermostat.outdoorTemperatureChanged'
+  | 'thermostat.emergencyHeatChanged'
+  | 'zone.temperatureChanged'
+  | 'zone.setpointChanged'
+  | 'zone.modeChanged'
+  | 'zone.holdChanged'
+  | 'zone.presetChanged'
+  | 'zone.callingChanged'
+  | 'sensor.temperatureChanged'
+  | 'sensor.humidityChanged'
+  | 'sensor.connectionChanged'
+  | 'sensor.activeChanged'
+  | 'sensor.batteryLow';
+
+// Change notification for a single device property
+export interface DeviceChangeEvent {
+  type: DeviceChangeEventType;
+  timestamp: Date;
+  deviceType: 'thermostat' | 'zone' | 'sensor';
+  deviceId: string;
+  thermostatId: string;
+  zoneId?: string;
+  property: string;
+  oldValue: unknown;
+  newValue: unknown;
+  device: ITraneThermostat | ITraneZone | ITraneSensor;
+}
+
+// Optimistic values dropped because their write failed or was never applied
+export interface RollbackEvent {
+  timestamp: Date;
+  deviceType: 'thermostat' | 'zone';
+  deviceId: string;
+  thermostatId: string;
+  zoneId?: string;
+  requested: Record<string, unknown>; // Property -> value that was shown optimistically
+  error: Error;
+  device: ITraneThermostat | ITraneZone;
+}
+
+// Event map for TraneClient's typed EventEmitter
+export type TraneClientEventMap = {
+  update: [TraneEvent];
+  error: [TraneEvent];
+  connected: [TraneEvent];
+  disconnected: [TraneEvent];
+  change: [DeviceChangeEvent];
+  rollback: [RollbackEvent];
+} & {
+  [K in DeviceChangeEventType]: [DeviceChangeEvent];
+};
+
 // Event listener interface
 export interface ITraneEventListener {
   onUpdate?(data: any): void;
   onError?(error: Error): void;
   onConnected?(): void;
   onDisconnected?(): void;
+  onDeviceChange?(event: DeviceChangeEvent): void;
 }
 
 // Validation interface
@@ -312,6 +452,7 @@ export interface ILogger {
   info(message: string, ...args: any[]): void;
   warn(message: string, ...args: any[]): void;
   error(message: string, error?: Error, ...args: any[]): void;
+  isDebugEnabled?(): boolean; // Lets callers skip building debug output nobody sees
 }
 
 // Homebridge-specific interfaces
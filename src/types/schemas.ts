@@ -0,0 +1,113 @@
+/**
+ * Response schemas
+ * Runtime counterparts of the response types in api.ts, listing the fields the client
+ * relies on. Fields not listed are allowed, and descriptive fields may be null
+ */
+
+import { Schema, Schemas } from '../utils/schema';
+
+// The builders take no state, so they can be used unbound
+const { string, number, boolean, any, object, array, oneOf, optional, nullable } = Schemas;
+
+const error = optional(nullable(string()));
+
+const link = object({
+  href: string(),
+  type: optional(string())
+});
+
+// LoginResponse; failed sign-ins send a null result
+export const LOGIN_RESPONSE_SCHEMA: Schema = object({
+  success: boolean(),
+  error,
+  result: optional(nullable(object({
+    api_key: string(),
+    mobile_id: oneOf(number(), string()),
+    setup_step: optional(nullable(string())),
+    locale: optional(nullable(string()))
+  })))
+});
+
+// SessionResponse; homes come as location links, or as a homes list in the legacy format
+export const SESSION_RESPONSE_SCHEMA: Schema = object({
+  success: boolean(),
+  error,
+  result: optional(nullable(object({
+    _links: optional(object({
+      child: optional(array(object({
+        href: string(),
+        type: string(),
+        data: optional(object({
+          id: optional(number()),
+          name: optional(nullable(string()))
+        }))
+      })))
+    })),
+    homes: optional(array(object({
+      house_id: number(),
+      name: optional(nullable(string()))
+    })))
+  })))
+});
+
+// HouseData; devices are either linked, embedded in collection links or listed directly
+export const HOUSE_DATA_SCHEMA: Schema = object({
+  success: boolean(),
+  error,
+  result: object({
+    id: optional(number()),
+    house_id: optional(number()),
+    name: optional(nullable(string())),
+    _links: optional(object({
+      child: optional(array(object({
+        href: string(),
+        type: optional(string()),
+        id: optional(oneOf(number(), string())),
+        data: optional(object({
+          items: optional(array(any()))
+        }))
+      })))
+    })),
+    devices: optional(array(object({ id: oneOf(number(), string()) }))),
+    automations: optional(array(object({ id: oneOf(number(), string()), _links: optional(object({ self: optional(link) })) })))
+  })
+});
+
+const deviceId = oneOf(number(), string());
+
+// Thermostat JSON in the current format: named features (zone features carry their zone's
+// device identifier) and typed settings, each with its own action links
+export const CURRENT_THERMOSTAT_SCHEMA: Schema = object({
+  id: deviceId,
+  name: optional(nullable(string())),
+  system_status: optional(nullable(string())),
+  features: optional(array(object({
+    name: string(),
+    device_identifier: optional(nullable(string())),
+    sensors: optional(array(object({ id: deviceId }))),
+    actions: optional(object({}))
+  }))),
+  settings: optional(array(object({
+    type: string(),
+    values: optional(nullable(array(any()))),
+    _links: optional(object({}))
+  })))
+});
+
+// Thermostat JSON in the legacy and UX360 formats: feature and setting maps, with zones
+// identified by id (legacy) or zone_id (UX360)
+export const LEGACY_THERMOSTAT_SCHEMA: Schema = object({
+  id: deviceId,
+  name: optional(nullable(string())),
+  model: optional(nullable(string())),
+  firmware: optional(nullable(string())),
+  is_online: optional(boolean()),
+  features: optional(object({})),
+  settings: optional(object({})),
+  zones: optional(array(object({
+    id: optional(deviceId),
+    zone_id: optional(deviceId),
+    name: optional(nullable(string())),
+    sensors: optional(array(object({ id: deviceId })))
+  })))
+});
@@ -0,0 +1,62 @@
+/**
+ * Diagnostics log
+ * Keeps the most recent request timings and errors in memory for TraneClient.getDiagnostics()
+ */
+
+import { DiagnosticsError, RequestTiming } from '../types/api';
+import { TraneError } from './errors';
+
+const DEFAULT_CAPACITY = 50;
+
+export class DiagnosticsLog {
+  private readonly capacity: number;
+  private readonly timings: RequestTiming[] = [];
+  private readonly errorList: DiagnosticsError[] = [];
+
+  constructor(capacity: number = DEFAULT_CAPACITY) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * Record a finished request attempt
+   */
+  public recordRequest(timing: RequestTiming): void {
+    this.push(this.timings, timing);
+  }
+
+  /**
+   * Record an error, with what the client was doing when it happened
+   * Returns the error so callers can rethrow it
+   */
+  public recordError<E>(error: E, context: string): E {
+    this.push(this.errorList, {
+      time: new Date().toISOString(),
+      context,
+      name: error instanceof Error ? error.name : typeof error,
+      code: error instanceof TraneError ? error.code : 'UNKNOWN_ERROR',
+      message: error instanceof Error ? error.message : String(error)
+    });
+    return error;
+  }
+
+  // Oldest first
+  public get requests(): RequestTiming[] {
+    return [...this.timings];
+  }
+
+  public get errors(): DiagnosticsError[] {
+    return [...this.errorList];
+  }
+
+  public clear(): void {
+    this.timings.length = 0;
+    this.errorList.length = 0;
+  }
+
+  private push<T>(list: T[], entry: T): void {
+    list.push(entry);
+    if (list.length > this.capacity) {
+      list.splice(0, list.length - this.capacity);
+    }
+  }
+}
@@ -194,6 +194,19 @@ export class OperationNotAllowedError extends TraneError {
   }
 }
 
+// Write accepted by the API but not reflected in house data before the confirmation timeout
+export class WriteNotAppliedError extends TraneError {
+  public readonly write: string;
+  public readonly timeoutMs: number;
+
+  constructor(write: string, timeoutMs: number) {
+    super(`Write '${write}' was not applied within ${timeoutMs}ms`, 'WRITE_NOT_APPLIED');
+    this.name = 'WriteNotAppliedError';
+    this.write = write;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
 // Configuration errors
 export class ConfigurationError extends TraneError {
   public readonly configField?: string;
@@ -208,11 +221,13 @@ export class ConfigurationError extends TraneError {
 // Parsing errors for API responses
 export class ParseError extends TraneError {
   public readonly data?: unknown;
+  public readonly path?: string; // JSON path of the mismatch, e.g. "$.result.name"
 
-  constructor(message: string, data?: unknown) {
+  constructor(message: string, data?: unknown, path?: string) {
     super(message, 'PARSE_ERROR');
     this.name = 'ParseError';
     this.data = data;
+    this.path = path;
   }
 }
 
@@ -0,0 +1,199 @@
+/**
+ * HTTP fixture recording and replay
+ * Records request/response pairs to a fixture directory with account details scrubbed, and
+ * serves them back through an axios adapter, so a customer's house can be loaded offline
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { HTTP_STATUS, API_ENDPOINTS } from '../types/constants';
+import { ILogger } from '../types/interfaces';
+
+/**
+ * One recorded request and its response
+ */
+export interface RecordedExchange {
+  request: {
+    method: string;
+    path: string; // Path and query, without the host
+    data?: unknown;
+  };
+  response: {
+    status: number;
+    etag?: string;
+    data: unknown;
+  };
+}
+
+const REDACTED = '[REDACTED]';
+const PLACEHOLDER_EMAIL = 'user@example.com';
+
+// Keys whose values are scrubbed from fixtures (compared case-insensitively)
+const SECRET_KEYS = new Set(['password', 'api_key', 'apikey', 'x-apikey', 'authorization']);
+const EMAIL_KEYS = new Set(['login', 'email', 'username']);
+const IDENTIFYING_KEYS = new Set(['serial_number', 'serialnumber', 'postal_code', 'zip', 'zip_code']);
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+
+const PLACEHOLDER_SIGN_IN: RecordedExchange = {
+  request: { method: 'POST', path: API_ENDPOINTS.SIGN_IN },
+  response: { status: HTTP_STATUS.OK, data: { success: true, error: null, result: { api_key: REDACTED, mobile_id: 1 } } }
+};
+
+/**
+ * Deep copy of a request or response body with api keys, email addresses, serial
+ * numbers and postal codes replaced
+ */
+export function sanitizeFixture<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value.replace(EMAIL_PATTERN, PLACEHOLDER_EMAIL) as unknown as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => sanitizeFixture(item)) as unknown as T;
+  }
+
+  if (value && typeof value === 'object') {
+    const source = value as Record<string, unknown>;
+    // Label/value items, e.g. { label: 'Serial Number', value: '...' } in advanced_info
+    const labelledSerial = typeof source['label'] === 'string' && /serial/i.test(source['label']);
+
+    const copy: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(source)) {
+      const name = key.toLowerCase();
+      if (SECRET_KEYS.has(name) || IDENTIFYING_KEYS.has(name) || (labelledSerial && name === 'value')) {
+        copy[key] = entry === null || entry === undefined ? entry : REDACTED;
+      } else if (EMAIL_KEYS.has(name) && typeof entry === 'string') {
+        copy[key] = PLACEHOLDER_EMAIL;
+      } else {
+        copy[key] = sanitizeFixture(entry);
+      }
+    }
+    return copy as T;
+  }
+
+  return value;
+}
+
+/**
+ * Path and query of a request URL, which may be relative to the base URL or absolute
+ */
+export function requestPath(url: string | undefined, baseURL?: string): string {
+  const resolved = new URL(url ?? '', baseURL ?? 'http://localhost');
+  return `${resolved.pathname}${resolved.search}`;
+}
+
+/**
+ * Writes each exchange to its own numbered file, e.g. 003-GET-mobile-houses-123456.json
+ */
+export class HttpRecorder {
+  public readonly directory: string;
+  private readonly logger: ILogger;
+  private count: number | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(directory: string, logger: ILogger) {
+    this.directory = directory;
+    this.logger = logger;
+  }
+
+  /**
+   * Record an axios response; recording failures are logged, never thrown
+   */
+  public record(response: AxiosResponse): Promise<void> {
+    const { config } = response;
+    const exchange: RecordedExchange = {
+      request: {
+        method: (config.method ?? 'get').toUpperCase(),
+        path: requestPath(config.url, config.baseURL),
+        data: sanitizeFixture(HttpRecorder.parseBody(config.data))
+      },
+      response: {
+        status: response.status,
+        etag: response.headers?.['etag'],
+        data: sanitizeFixture(response.data)
+      }
+    };
+
+    this.saving = this.saving
+      .then(() => this.write(exchange))
+      .catch(error => this.logger.warn(`Failed to record ${exchange.request.method} ${exchange.request.path}:`, error));
+    return this.saving;
+  }
+
+  private async write(exchange: RecordedExchange): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Continue the numbering of fixtures already in the directory
+    if (this.count === null) {
+      this.count = (await fs.readdir(this.directory)).filter(file => file.endsWith('.json')).length;
+    }
+    this.count++;
+
+    const slug = exchange.request.path.split('?')[0]!.replace(/[^\w]+/g, '-').replace(/^-|-$/g, '');
+    const file = `${String(this.count).padStart(3, '0')}-${exchange.request.method}-${slug}.json`;
+    await fs.writeFile(join(this.directory, file), JSON.stringify(exchange, null, 2), 'utf8');
+  }
+
+  // Axios has already serialized request bodies by the time the response arrives
+  private static parseBody(data: unknown): unknown {
+    if (typeof data !== 'string') {
+      return data;
+    }
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+}
+
+/**
+ * Load the exchanges of a fixture directory, in recording order
+ */
+export async function loadFixtures(directory: string): Promise<RecordedExchange[]> {
+  const files = (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort();
+  return Promise.all(files.map(async file =>
+    JSON.parse(await fs.readFile(join(directory, file), 'utf8')) as RecordedExchange));
+}
+
+/**
+ * Axios adapter that answers requests from recorded exchanges instead of the network
+ * Requests are matched by method and path, in recording order; once a request's recordings
+ * are used up the last one keeps being served, so polling can run indefinitely. Recordings
+ * made with a saved session have no sign-in, so an unrecorded sign-in gets a placeholder session
+ */
+export function createReplayAdapter(fixtures: string | RecordedExchange[]): AxiosAdapter {
+  let exchanges: Promise<RecordedExchange[]> | null = null;
+  const served = new Map<string, number>();
+
+  return async (config: InternalAxiosRequestConfig) => {
+    exchanges ??= typeof fixtures === 'string' ? loadFixtures(fixtures) : Promise.resolve(fixtures);
+
+    const method = (config.method ?? 'get').toUpperCase();
+    const path = requestPath(config.url, config.baseURL);
+    const key = `${method} ${path}`;
+    const matches = (await exchanges).filter(exchange =>
+      exchange.request.method === method && exchange.request.path === path);
+
+    const index = Math.min(served.get(key) ?? 0, matches.length - 1);
+    served.set(key, index + 1);
+    const exchange = matches[index] ?? (method === 'POST' && path === API_ENDPOINTS.SIGN_IN ? PLACEHOLDER_SIGN_IN : undefined);
+
+    const response: AxiosResponse = {
+      data: exchange ? exchange.response.data : { success: false, error: `No recorded response for ${key}` },
+      status: exchange ? exchange.response.status : HTTP_STATUS.NOT_FOUND,
+      statusText: '',
+      headers: exchange?.response.etag ? { etag: exchange.response.etag } : {},
+      config,
+      request: {}
+    };
+
+    const validateStatus = config.validateStatus ?? (status => status >= 200 && status < 300);
+    if (!validateStatus(response.status)) {
+      throw new AxiosError(`Request failed with status code ${response.status}`, AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+    }
+    return response;
+  };
+}
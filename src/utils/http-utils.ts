@@ -3,8 +3,9 @@
  * Provides common HTTP operations and response handling
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError, AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
 import {
+  TraneError,
   ApiError,
   HttpError,
   NetworkError,
@@ -12,7 +13,11 @@ import {
   AuthenticationError,
   ErrorFactory
 } from './errors';
-import { HTTP_STATUS, API_HEADERS } from '../types/constants';
+import { HTTP_STATUS, API_HEADERS, VERSION } from '../types/constants';
+import { ILogger } from '../types/interfaces';
+import { ConsoleLogger, redactSecrets } from './logger';
+import { HttpRecorder, requestPath } from './http-recording';
+import { DiagnosticsLog } from './diagnostics-log';
 
 export interface HttpClientOptions {
   baseURL: string;
@@ -20,6 +25,10 @@ export interface HttpClientOptions {
   retryAttempts?: number;
   retryDelay?: number;
   headers?: Record<string, string>;
+  logger?: ILogger;
+  recorder?: HttpRecorder; // Records sanitized request/response pairs as fixtures
+  adapter?: AxiosAdapter; // Replaces the network, e.g. createReplayAdapter()
+  diagnostics?: DiagnosticsLog; // Receives the timing of every request attempt
 }
 
 export interface ETagCacheEntry {
@@ -40,17 +49,25 @@ export class HttpClient {
   private etagCache: Map<string, ETagCacheEntry> = new Map();
   private readonly retryAttempts: number;
   private readonly retryDelay: number;
+  private readonly logger: ILogger;
+  private readonly recorder?: HttpRecorder;
+  private readonly diagnostics?: DiagnosticsLog;
+  private readonly startTimes: WeakMap<InternalAxiosRequestConfig, number> = new WeakMap();
 
   constructor(options: HttpClientOptions) {
     this.retryAttempts = options.retryAttempts || 3;
     this.retryDelay = options.retryDelay || 1000;
+    this.logger = options.logger ?? new ConsoleLogger();
+    this.recorder = options.recorder;
+    this.diagnostics = options.diagnostics;
 
     this.axiosInstance = axios.create({
       baseURL: options.baseURL,
       timeout: options.timeout || 30000,
+      adapter: options.adapter,
       headers: {
         'Content-Type': 'application/json',
-        'User-Agent': 'trane-thermostat-api/1.0.0',
+        'User-Agent': `trane-thermostat-api/${VERSION}`,
         ...options.headers
       }
     });
@@ -62,6 +79,11 @@ export class HttpClient {
     // Request interceptor for logging and headers
     this.axiosInstance.interceptors.request.use(
       (config) => {
+        this.trace(`HTTP ${config.method?.toUpperCase()} ${config.url}`, () => ({
+          headers: redactSecrets(config.headers?.toJSON?.() ?? config.headers),
+          data: redactSecrets(config.data)
+        }));
+        this.startTimes.set(config, Date.now());
         return config;
       },
       (error) => {
@@ -71,16 +93,63 @@ export class HttpClient {
 
     // Response interceptor for error handling and caching
     this.axiosInstance.interceptors.response.use(
-      (response) => {
+      async (response) => {
+        this.trace(
+          `HTTP ${response.status} ${response.config.method?.toUpperCase()} ${response.config.url}`,
+          () => redactSecrets(response.data)
+        );
         this.handleSuccessResponse(response);
+        this.recordTiming(response.config, response.status);
+        await this.recorder?.record(response);
         return response;
       },
-      (error) => {
+      async (error) => {
+        if (axios.isAxiosError(error)) {
+          this.trace(
+            `HTTP ${error.response?.status ?? error.code} ${error.config?.method?.toUpperCase()} ${error.config?.url}`,
+            () => redactSecrets(error.response?.data)
+          );
+          if (error.config) {
+            // 304 Not Modified is rejected too, but is no failure
+            const status = error.response?.status ?? null;
+            this.recordTiming(error.config, status, status === HTTP_STATUS.NOT_MODIFIED ? undefined : error.message);
+          }
+          if (error.response) {
+            await this.recorder?.record(error.response);
+          }
+        }
         return Promise.reject(this.handleError(error));
       }
     );
   }
 
+  /**
+   * Write a debug trace line; its details are only built (and redacted) when the logger
+   * may show them, since redacting copies every request and response body
+   */
+  private trace(message: string, details: () => unknown): void {
+    if (this.logger.isDebugEnabled?.() === false) {
+      return;
+    }
+    this.logger.debug(message, details());
+  }
+
+  private recordTiming(config: InternalAxiosRequestConfig, status: number | null, error?: string): void {
+    const start = this.startTimes.get(config);
+    if (!this.diagnostics || start === undefined) {
+      return;
+    }
+
+    this.diagnostics.recordRequest({
+      time: new Date(start).toISOString(),
+      method: (config.method ?? 'get').toUpperCase(),
+      path: requestPath(config.url, config.baseURL),
+      status,
+      durationMs: Date.now() - start,
+      ...(error !== undefined && { error })
+    });
+  }
+
   private handleSuccessResponse(response: AxiosResponse): void {
     // Cache ETag responses
     const etag = response.headers['etag'];
@@ -93,9 +162,10 @@ export class HttpClient {
     }
   }
 
-  private handleError(error: any): ApiError {
-    // If already a Trane API error type, return as-is (prevents double-wrapping)
-    if (error instanceof ApiError) {
+  private handleError(error: any): TraneError {
+    // If already a Trane error type, return as-is (prevents double-wrapping, which would
+    // otherwise turn a 401 AuthenticationError into a retried NetworkError)
+    if (error instanceof TraneError) {
       return error;
     }
 
@@ -110,7 +180,7 @@ export class HttpClient {
     return new ApiError('Unknown error occurred');
   }
 
-  private handleAxiosError(error: AxiosError): ApiError {
+  private handleAxiosError(error: AxiosError): TraneError {
     // Handle timeout errors
     if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
       const timeout = error.config?.timeout || 30000;
@@ -215,7 +285,7 @@ export class HttpClient {
       ...config
     };
 
-    let lastError: ApiError;
+    let lastError: TraneError;
 
     for (let attempt = 0; attempt <= this.retryAttempts; attempt++) {
       try {
@@ -244,6 +314,7 @@ export class HttpClient {
         }
 
         // Wait before retrying
+        this.logger.debug(`Retrying ${method} ${url} after error: ${lastError.message}`);
         await this.delay(this.calculateRetryDelay(attempt));
       }
     }
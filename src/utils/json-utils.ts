@@ -4,6 +4,7 @@
  */
 
 import { ValidationError } from './errors';
+import { Schema, Schemas } from './schema';
 
 export interface JsonTraversalOptions {
   caseSensitive?: boolean;
@@ -403,6 +404,13 @@ export class JsonUtils {
     }
   }
 
+  /**
+   * Whether JSON matches a declarative schema (see Schemas.check for the mismatches)
+   */
+  public static matchesSchema(data: unknown, schema: Schema): boolean {
+    return Schemas.check(data, schema).length === 0;
+  }
+
   /**
    * Private helper to check if object has key-value pair
    */
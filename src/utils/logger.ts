@@ -0,0 +1,74 @@
+/**
+ * Logging utilities
+ * Default console logger and redaction of secrets in traced requests
+ */
+
+import { ILogger } from '../types/interfaces';
+
+/**
+ * Logs to the console; debug output is off unless enabled
+ */
+export class ConsoleLogger implements ILogger {
+  private readonly debugEnabled: boolean;
+
+  constructor(options: { debug?: boolean } = {}) {
+    this.debugEnabled = options.debug ?? false;
+  }
+
+  public debug(message: string, ...args: any[]): void {
+    if (this.debugEnabled) {
+      console.debug(message, ...args);
+    }
+  }
+
+  public isDebugEnabled(): boolean {
+    return this.debugEnabled;
+  }
+
+  public info(message: string, ...args: any[]): void {
+    console.info(message, ...args);
+  }
+
+  public warn(message: string, ...args: any[]): void {
+    console.warn(message, ...args);
+  }
+
+  public error(message: string, error?: Error, ...args: any[]): void {
+    console.error(message, ...(error === undefined ? args : [error, ...args]));
+  }
+}
+
+/**
+ * Discards everything
+ */
+export const silentLogger: ILogger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  isDebugEnabled: () => false
+};
+
+// Header and body keys whose values must never reach the log (compared case-insensitively)
+const SECRET_KEYS = new Set(['password', 'api_key', 'apikey', 'x-apikey', 'authorization']);
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Deep copy of a header map or payload with secret values replaced
+ */
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item)) as unknown as T;
+  }
+
+  if (value && typeof value === 'object') {
+    const copy: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+      copy[key] = SECRET_KEYS.has(key.toLowerCase()) ? REDACTED : redactSecrets(entry);
+    }
+    return copy as T;
+  }
+
+  return value;
+}
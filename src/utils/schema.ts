@@ -0,0 +1,112 @@
+/**
+ * Declarative JSON schemas
+ * Describe the shape of an API response and check data against it, reporting the
+ * JSON path of every mismatch (e.g. "$.result._links.child[0].href")
+ */
+
+interface SchemaFlags {
+  optional?: boolean; // May be missing
+  nullable?: boolean; // May be null
+}
+
+export type Schema = SchemaFlags & (
+  | { type: 'string' | 'number' | 'boolean' | 'any' }
+  | { type: 'object'; properties: Record<string, Schema> } // Properties not listed are allowed
+  | { type: 'array'; items: Schema }
+  | { type: 'oneOf'; options: Schema[] }
+);
+
+// A mismatch between data and its schema
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export class Schemas {
+  public static string(): Schema {
+    return { type: 'string' };
+  }
+
+  public static number(): Schema {
+    return { type: 'number' };
+  }
+
+  public static boolean(): Schema {
+    return { type: 'boolean' };
+  }
+
+  public static any(): Schema {
+    return { type: 'any' };
+  }
+
+  public static object(properties: Record<string, Schema>): Schema {
+    return { type: 'object', properties };
+  }
+
+  public static array(items: Schema): Schema {
+    return { type: 'array', items };
+  }
+
+  public static oneOf(...options: Schema[]): Schema {
+    return { type: 'oneOf', options };
+  }
+
+  public static optional(schema: Schema): Schema {
+    return { ...schema, optional: true };
+  }
+
+  public static nullable(schema: Schema): Schema {
+    return { ...schema, nullable: true };
+  }
+
+  /**
+   * Every mismatch between data and a schema; empty if the data matches
+   */
+  public static check(data: unknown, schema: Schema, path: string = '$'): SchemaIssue[] {
+    if (data === null && schema.nullable) {
+      return [];
+    }
+
+    switch (schema.type) {
+      case 'any':
+        return [];
+
+      case 'string':
+      case 'number':
+      case 'boolean':
+        return typeof data === schema.type && !(schema.type === 'number' && !Number.isFinite(data))
+          ? []
+          : [this.mismatch(path, schema.type, data)];
+
+      case 'array':
+        if (!Array.isArray(data)) {
+          return [this.mismatch(path, 'array', data)];
+        }
+        return data.flatMap((item, index) => this.check(item, schema.items, `${path}[${index}]`));
+
+      case 'object': {
+        if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+          return [this.mismatch(path, 'object', data)];
+        }
+
+        const record = data as Record<string, unknown>;
+        return Object.entries(schema.properties).flatMap(([key, property]) => {
+          if (record[key] === undefined) {
+            return property.optional ? [] : [{ path: `${path}.${key}`, message: 'missing' }];
+          }
+          return this.check(record[key], property, `${path}.${key}`);
+        });
+      }
+
+      case 'oneOf':
+        return schema.options.some(option => this.check(data, option, path).length === 0)
+          ? []
+          : [this.mismatch(path, schema.options.map(option => option.type).join(' or '), data)];
+    }
+  }
+
+  private static mismatch(path: string, expected: string, data: unknown): SchemaIssue {
+    const actual = data === null ? 'null' : Array.isArray(data) ? 'array' : typeof data;
+    return { path, message: `expected ${expected}, got ${actual}` };
+  }
+}
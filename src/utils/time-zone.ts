@@ -0,0 +1,135 @@
+/**
+ * Time zone utilities
+ * Converts between instants and wall-clock time in an IANA time zone, including
+ * the gaps and overlaps around DST changes
+ */
+
+import { Weekday } from '../types/constants';
+import { ValidationError } from './errors';
+
+// Wall-clock time in a time zone
+export interface ZonedTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: Weekday;
+}
+
+const WEEKDAY_NAMES: Record<string, Weekday> = {
+  Mon: Weekday.MONDAY,
+  Tue: Weekday.TUESDAY,
+  Wed: Weekday.WEDNESDAY,
+  Thu: Weekday.THURSDAY,
+  Fri: Weekday.FRIDAY,
+  Sat: Weekday.SATURDAY,
+  Sun: Weekday.SUNDAY
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class TimeZoneUtils {
+  private static readonly formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+  /**
+   * The time zone this process runs in
+   */
+  public static systemTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+
+  /**
+   * Validates an IANA time zone name (e.g. "America/Denver")
+   */
+  public static validateTimeZone(timeZone: string, fieldName: string = 'timeZone'): string {
+    try {
+      this.formatter(timeZone);
+      return timeZone;
+    } catch {
+      throw new ValidationError(`${fieldName} must be an IANA time zone, e.g. America/New_York`, fieldName, timeZone);
+    }
+  }
+
+  /**
+   * Wall-clock time of an instant in a time zone
+   */
+  public static toZonedTime(instant: number, timeZone: string): ZonedTime {
+    const parts: Record<string, string> = {};
+    for (const part of this.formatter(timeZone).formatToParts(new Date(instant))) {
+      parts[part.type] = part.value;
+    }
+
+    return {
+      year: Number(parts['year']),
+      month: Number(parts['month']),
+      day: Number(parts['day']),
+      hour: Number(parts['hour']) % 24, // Some runtimes report midnight as 24
+      minute: Number(parts['minute']),
+      weekday: WEEKDAY_NAMES[parts['weekday']!]!
+    };
+  }
+
+  /**
+   * Instant of a wall-clock time in a time zone
+   * A time skipped by a DST change resolves to the same offset past the gap (02:30 -> 03:30);
+   * a time that occurs twice resolves to its first occurrence
+   */
+  public static fromZonedTime(
+    local: { year: number; month: number; day: number; hour: number; minute: number },
+    timeZone: string
+  ): number {
+    const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+
+    // The offsets a day either side cover both sides of any DST change on this date
+    const candidates = [
+      asUtc - this.offset(asUtc - DAY_MS, timeZone),
+      asUtc - this.offset(asUtc + DAY_MS, timeZone)
+    ];
+
+    const exact = candidates.filter(candidate => {
+      const zoned = this.toZonedTime(candidate, timeZone);
+      return zoned.day === local.day && zoned.hour === local.hour && zoned.minute === local.minute;
+    });
+
+    return exact.length > 0 ? Math.min(...exact) : Math.max(...candidates);
+  }
+
+  /**
+   * Calendar date a number of days after a wall-clock date
+   */
+  public static addDays(
+    local: { year: number; month: number; day: number },
+    days: number
+  ): { year: number; month: number; day: number } {
+    const date = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+  }
+
+  /**
+   * Offset of a time zone from UTC at an instant, in milliseconds
+   */
+  private static offset(instant: number, timeZone: string): number {
+    const zoned = this.toZonedTime(instant, timeZone);
+    const wallClock = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+    return wallClock - Math.floor(instant / 60000) * 60000;
+  }
+
+  private static formatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = this.formatters.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        weekday: 'short'
+      });
+      this.formatters.set(timeZone, formatter);
+    }
+    return formatter;
+  }
+}
@@ -5,11 +5,13 @@
 
 import {
   TemperatureUnit,
+  Weekday,
   TEMPERATURE_LIMITS,
   HUMIDITY_LIMITS,
   FAN_SPEED_LIMITS,
   HUMIDITY_SETPOINT_VALUES
 } from '../types/constants';
+import type { SetpointLimits, FanSpeedLimits } from '../types/api';
 
 import {
   ValidationError,
@@ -20,23 +22,39 @@ import {
 export class TemperatureValidator {
   /**
    * Validates heating and cooling setpoints with deadband check
+   * and, when known, the device's setpoint limits
    */
   public static validateSetpoints(
     heatTemp: number,
     coolTemp: number,
     deadband: number,
-    unit: TemperatureUnit
+    unit: TemperatureUnit,
+    limits?: SetpointLimits
   ): void {
     // Validate individual temperatures
     this.validateTemperature(heatTemp, unit);
     this.validateTemperature(coolTemp, unit);
 
+    if (limits) {
+      this.validateWithinLimits(heatTemp, limits.heatMin, limits.heatMax, unit);
+      this.validateWithinLimits(coolTemp, limits.coolMin, limits.coolMax, unit);
+    }
+
     // Validate deadband
     if (coolTemp - heatTemp < deadband) {
       throw ErrorFactory.createDeadbandError(heatTemp, coolTemp, deadband, unit);
     }
   }
 
+  /**
+   * Validates a temperature against a device-reported range
+   */
+  public static validateWithinLimits(temperature: number, min: number, max: number, unit: TemperatureUnit): void {
+    if (temperature < min || temperature > max) {
+      throw ErrorFactory.createTemperatureError(temperature, unit, min, max);
+    }
+  }
+
   /**
    * Validates a single temperature value
    */
@@ -213,16 +231,33 @@ export class HumidityValidator {
 
 export class FanSpeedValidator {
   /**
-   * Validates fan speed (0-1 range)
+   * Validates fan speed (0-1 range, or the device's range when known)
    */
-  public static validateFanSpeed(speed: number): void {
+  public static validateFanSpeed(speed: number, limits?: FanSpeedLimits): void {
     if (!Number.isFinite(speed)) {
       throw new ValidationError('Fan speed must be a finite number', 'fanSpeed', speed);
     }
 
-    if (speed < FAN_SPEED_LIMITS.MIN || speed > FAN_SPEED_LIMITS.MAX) {
+    const min = limits?.min ?? FAN_SPEED_LIMITS.MIN;
+    const max = limits?.max ?? FAN_SPEED_LIMITS.MAX;
+    if (speed < min || speed > max) {
+      throw new ValidationError(
+        `Fan speed must be between ${min} and ${max}`,
+        'fanSpeed',
+        speed
+      );
+    }
+  }
+
+  /**
+   * Validates fan speed against the speeds the device lists
+   */
+  public static validateListedFanSpeed(speed: number, speeds: number[]): void {
+    this.validateFanSpeed(speed);
+
+    if (!speeds.includes(speed)) {
       throw new ValidationError(
-        `Fan speed must be between ${FAN_SPEED_LIMITS.MIN} and ${FAN_SPEED_LIMITS.MAX}`,
+        `Invalid fan speed ${speed}. Available speeds: ${speeds.join(', ')}`,
         'fanSpeed',
         speed
       );
@@ -422,22 +457,37 @@ export class TraneValidator {
     deadband: number;
     unit: TemperatureUnit;
     setTemp?: number;
+    limits?: SetpointLimits;
   }): void {
-    const { heatTemp, coolTemp, deadband, unit, setTemp } = config;
+    const { heatTemp, coolTemp, deadband, unit, setTemp, limits } = config;
 
     if (setTemp !== undefined) {
-      // Single setpoint mode
+      // Single setpoint mode; it may apply to either side
       TemperatureValidator.validateTemperature(setTemp, unit);
+      if (limits) {
+        TemperatureValidator.validateWithinLimits(
+          setTemp,
+          Math.min(limits.heatMin, limits.coolMin),
+          Math.max(limits.heatMax, limits.coolMax),
+          unit
+        );
+      }
     } else if (heatTemp !== undefined && coolTemp !== undefined) {
       // Dual setpoint mode
-      TemperatureValidator.validateSetpoints(heatTemp, coolTemp, deadband, unit);
+      TemperatureValidator.validateSetpoints(heatTemp, coolTemp, deadband, unit, limits);
     } else if (heatTemp !== undefined || coolTemp !== undefined) {
       // Only one setpoint provided
       if (heatTemp !== undefined) {
         TemperatureValidator.validateTemperature(heatTemp, unit);
+        if (limits) {
+          TemperatureValidator.validateWithinLimits(heatTemp, limits.heatMin, limits.heatMax, unit);
+        }
       }
       if (coolTemp !== undefined) {
         TemperatureValidator.validateTemperature(coolTemp, unit);
+        if (limits) {
+          TemperatureValidator.validateWithinLimits(coolTemp, limits.coolMin, limits.coolMax, unit);
+        }
       }
     } else {
       throw new ValidationError('At least one temperature setpoint must be provided');
@@ -471,6 +521,56 @@ export class TraneValidator {
     }
   }
 
+  /**
+   * Validates a zone schedule: known days, "HH:MM" start times in order, and
+   * setpoints within the unit's and thermostat's limits with the deadband between them
+   */
+  public static validateSchedule(config: {
+    days: Array<{ day: string; periods: Array<{ name: string; startTime: string; heatingSetpoint: number; coolingSetpoint: number }> }>;
+    deadband: number;
+    unit: TemperatureUnit;
+    limits: SetpointLimits;
+  }): void {
+    const { days, deadband, unit, limits } = config;
+    const weekdays: string[] = Object.values(Weekday);
+
+    if (!Array.isArray(days) || days.length === 0) {
+      throw new ValidationError('A schedule must have at least one day', 'days', days);
+    }
+
+    const seen = new Set<string>();
+    for (const { day, periods } of days) {
+      if (!weekdays.includes(day)) {
+        throw new ValidationError(`day must be one of: ${weekdays.join(', ')}`, 'day', day);
+      }
+      if (seen.has(day)) {
+        throw new ValidationError(`Schedule has more than one entry for ${day}`, 'day', day);
+      }
+      seen.add(day);
+
+      if (!Array.isArray(periods) || periods.length === 0) {
+        throw new ValidationError(`Schedule for ${day} must have at least one period`, 'periods', periods);
+      }
+
+      let previousStart = -1;
+      for (const period of periods) {
+        GeneralValidator.validateRequiredString(period.name, 'name');
+
+        const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(String(period.startTime));
+        if (!match) {
+          throw new ValidationError('startTime must be HH:MM (00:00-23:59)', 'startTime', period.startTime);
+        }
+        const start = Number(match[1]) * 60 + Number(match[2]);
+        if (start <= previousStart) {
+          throw new ValidationError(`Periods on ${day} must start in order`, 'startTime', period.startTime);
+        }
+        previousStart = start;
+
+        TemperatureValidator.validateSetpoints(period.heatingSetpoint, period.coolingSetpoint, deadband, unit, limits);
+      }
+    }
+  }
+
   /**
    * Validates sensor selection configuration
    */
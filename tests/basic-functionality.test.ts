@@ -10,7 +10,12 @@ import {
   SystemStatus,
   PresetMode,
   TemperatureUnit,
-  TraneSensor
+  TraneSensor,
+  TraneThermostat,
+  ActionRegistry,
+  ZONE_ACTIONS,
+  ValidationError,
+  requestBody
 } from '../src/index';
 
 import { testUtils } from './setup';
@@ -124,6 +129,143 @@ describe('Trane Library Basic Functionality', () => {
     });
   });
 
+  describe('Device Reconciliation', () => {
+    const client = new TraneClient({ username: 'user@example.com', password: 'password' });
+
+    const createThermostatData = (zoneIds: string[]): any => {
+      const data = testUtils.createMockThermostatData() as any;
+      data.zones = zoneIds.map(id => ({
+        ...testUtils.createMockZoneData(),
+        id,
+        sensors: [testUtils.createMockSensorData()]
+      }));
+      return data;
+    };
+
+    test('should update zones and sensors in place', () => {
+      const thermostat = new TraneThermostat(client, createThermostatData(['zone-1']));
+      const zone = thermostat.getZoneById('zone-1')!;
+      const sensor = zone.sensors[0];
+
+      const updated = createThermostatData(['zone-1']);
+      updated.zones[0].features.heating_setpoint = 66;
+      updated.zones[0].sensors[0].temperature = 69;
+      thermostat.updateData(updated);
+
+      expect(thermostat.getZoneById('zone-1')).toBe(zone);
+      expect(zone.heatingSetpoint).toBe(66);
+      expect(zone.sensors[0]).toBe(sensor);
+      expect(sensor.temperature).toBe(69);
+    });
+
+    test('should add and remove zones that appear or disappear', () => {
+      const thermostat = new TraneThermostat(client, createThermostatData(['zone-1', 'zone-2']));
+      const zone2 = thermostat.getZoneById('zone-2');
+
+      thermostat.updateData(createThermostatData(['zone-2', 'zone-3']));
+
+      expect(thermostat.zoneIds.sort()).toEqual(['zone-2', 'zone-3']);
+      expect(thermostat.getZoneById('zone-2')).toBe(zone2);
+    });
+
+    test('should reject data for a different thermostat', () => {
+      const thermostat = new TraneThermostat(client, createThermostatData([]));
+      const other = createThermostatData([]);
+      other.id = 'other-thermostat';
+
+      expect(() => thermostat.updateData(other)).toThrow();
+    });
+  });
+
+  describe('Setpoint Limits', () => {
+    const client = new TraneClient({ username: 'user@example.com', password: 'password' });
+
+    const createThermostatData = (zoneLimits: Array<Record<string, number>>): any => {
+      const data = testUtils.createMockThermostatData() as any;
+      data.zones = zoneLimits.map((limits, index) => {
+        const zone = testUtils.createMockZoneData() as any;
+        return { ...zone, id: `zone-${index + 1}`, features: { ...zone.features, setpoint_limits: limits } };
+      });
+      return data;
+    };
+
+    test('should limit the thermostat to the overlap of its zones', () => {
+      const thermostat = new TraneThermostat(client, createThermostatData([
+        { heatMin: 55, heatMax: 90, coolMin: 60, coolMax: 99 },
+        { heatMin: 60, heatMax: 85, coolMin: 65, coolMax: 95 }
+      ]));
+
+      expect(thermostat.setpointLimits).toEqual({ heatMin: 60, heatMax: 85, coolMin: 65, coolMax: 95 });
+    });
+
+    test('should fall back to the unit limits when the zones do not overlap', () => {
+      const thermostat = new TraneThermostat(client, createThermostatData([
+        { heatMin: 55, heatMax: 65, coolMin: 60, coolMax: 99 },
+        { heatMin: 70, heatMax: 90, coolMin: 60, coolMax: 99 }
+      ]));
+
+      expect(thermostat.setpointLimits).toEqual(TraneThermostat.unitSetpointLimits(thermostat.temperatureUnit));
+      expect(thermostat.getZoneById('zone-2')!.setpointLimits).toEqual({ heatMin: 70, heatMax: 90, coolMin: 60, coolMax: 99 });
+    });
+  });
+
+  describe('Action Registry', () => {
+    test('should resolve writes from device links and fall back without them', () => {
+      const actions = ActionRegistry.resolve(ZONE_ACTIONS, {
+        features: [{ name: 'thermostat_mode', actions: { update_thermostat_mode: { method: 'put', href: 'https://example.com/modes/1' } } }]
+      });
+      const registry = new ActionRegistry(ZONE_ACTIONS, actions, '/mobile/xxl_zones/1');
+
+      expect(registry.request('zone_mode', { zone_mode: 'HEAT' }))
+        .toMatchObject({ endpoint: 'https://example.com/modes/1', method: 'PUT', payload: { zone_mode: 'HEAT' } });
+      expect(registry.request('setpoints', { heating_setpoint: 68 }))
+        .toMatchObject({ endpoint: '/mobile/xxl_zones/1/setpoints', payload: { heating_setpoint: 68 } });
+    });
+
+    test('should send each write in the body shape its action takes', () => {
+      const registry = new ActionRegistry(ZONE_ACTIONS, {}, '/mobile/xxl_zones/1');
+
+      expect(requestBody(registry.request('zone_mode', { zone_mode: 'HEAT' }))).toEqual({ value: 'HEAT' });
+      expect(requestBody(registry.request('setpoints', { heating_setpoint: 68, cooling_setpoint: 75 })))
+        .toEqual({ heat: 68, cool: 75 });
+      expect(() => registry.request('zone_mode', { mode: 'HEAT' })).toThrow(ValidationError);
+    });
+  });
+
+  describe('Fixture Sanitizing', () => {
+    test('should scrub account details from recorded fixtures', () => {
+      const { sanitizeFixture } = require('../src/utils/http-recording');
+
+      expect(sanitizeFixture({
+        login: 'jane@example.org',
+        password: 'secret',
+        result: {
+          api_key: 'abc123',
+          message: 'Invite sent to jane@example.org',
+          data: { id: 7, name: 'Home', postal_code: '80202' },
+          items: [
+            { label: 'Model', value: 'XL1050' },
+            { label: 'Serial Number', value: '1234ABCD' }
+          ],
+          sensors: [{ id: 1, serial_number: '2410R5C53X', battery_level: null }]
+        }
+      })).toEqual({
+        login: 'user@example.com',
+        password: '[REDACTED]',
+        result: {
+          api_key: '[REDACTED]',
+          message: 'Invite sent to user@example.com',
+          data: { id: 7, name: 'Home', postal_code: '[REDACTED]' },
+          items: [
+            { label: 'Model', value: 'XL1050' },
+            { label: 'Serial Number', value: '[REDACTED]' }
+          ],
+          sensors: [{ id: 1, serial_number: '[REDACTED]', battery_level: null }]
+        }
+      });
+    });
+  });
+
   describe('Temperature Validation', () => {
     test('should validate Fahrenheit temperatures', () => {
       const { TemperatureValidator } = require('../src/utils/validation');
@@ -169,6 +311,21 @@ describe('Trane Library Basic Functionality', () => {
       }).toThrow();
     });
 
+    test('should enforce device setpoint limits when given', () => {
+      const { TemperatureValidator, TraneValidator } = require('../src/utils/validation');
+      const limits = { heatMin: 55, heatMax: 80, coolMin: 65, coolMax: 90 };
+
+      expect(() => {
+        TemperatureValidator.validateSetpoints(50, 75, 3, TemperatureUnit.FAHRENHEIT);
+      }).not.toThrow();
+      expect(() => {
+        TemperatureValidator.validateSetpoints(50, 75, 3, TemperatureUnit.FAHRENHEIT, limits);
+      }).toThrow('outside valid range');
+      expect(() => {
+        TraneValidator.validateTemperatureConfig({ coolTemp: 62, deadband: 3, unit: TemperatureUnit.FAHRENHEIT, limits });
+      }).toThrow('outside valid range');
+    });
+
     test('should round temperatures correctly', () => {
       const { TemperatureValidator } = require('../src/utils/validation');
 
@@ -248,6 +405,36 @@ describe('Trane Library Basic Functionality', () => {
       expect(JsonUtils.isNumber('abc')).toBe(false);
       expect(JsonUtils.isNumber('')).toBe(false);
     });
+
+    test('should validate structure against example values and predicates', () => {
+      const { JsonUtils } = require('../src/utils/json-utils');
+
+      const schema = { id: 0, name: '', tags: [''], online: (value: unknown) => typeof value === 'boolean' };
+
+      expect(JsonUtils.validateStructure({ id: 1, name: 'Hall', tags: ['a'], online: true }, schema)).toBe(true);
+      expect(JsonUtils.validateStructure({ id: '1', name: 'Hall', tags: [], online: true }, schema)).toBe(false);
+      expect(JsonUtils.validateStructure({ id: 1, name: 'Hall', tags: [], online: 'yes' }, schema)).toBe(false);
+    });
+
+    test('should report the JSON path of schema mismatches', () => {
+      const { JsonUtils } = require('../src/utils/json-utils');
+      const { Schemas } = require('../src/utils/schema');
+
+      const schema = Schemas.object({
+        success: Schemas.boolean(),
+        result: Schemas.object({
+          name: Schemas.optional(Schemas.string()),
+          devices: Schemas.array(Schemas.object({ id: Schemas.oneOf(Schemas.number(), Schemas.string()) }))
+        })
+      });
+
+      expect(JsonUtils.matchesSchema({ success: true, result: { devices: [{ id: 1 }, { id: 'b' }] } }, schema)).toBe(true);
+      expect(Schemas.check({ success: 'yes', result: { name: null, devices: [{ id: 1 }, {}] } }, schema)).toEqual([
+        { path: '$.success', message: 'expected boolean, got string' },
+        { path: '$.result.name', message: 'expected string, got null' },
+        { path: '$.result.devices[1].id', message: 'missing' }
+      ]);
+    });
   });
 });
 
@@ -0,0 +1,69 @@
+/**
+ * Device change detection tests
+ */
+
+import { TraneClient, TraneThermostat, DeviceChangeEvent } from '../src/index';
+import { ChangeDetector } from '../src/client/change-detector';
+import { testUtils } from './setup';
+
+describe('ChangeDetector', () => {
+  const client = new TraneClient({ username: 'test@example.com', password: 'password' });
+
+  const buildThermostat = (mutate: (data: any) => void = () => undefined): TraneThermostat => {
+    const data = testUtils.createMockThermostatData() as any;
+    const zone = testUtils.createMockZoneData() as any;
+    zone.sensors = [testUtils.createMockSensorData()];
+    data.zones = [zone];
+    mutate(data);
+    return new TraneThermostat(client, data);
+  };
+
+  test('should report nothing when state is unchanged', () => {
+    const before = ChangeDetector.capture([buildThermostat()]);
+    expect(ChangeDetector.diff(before, [buildThermostat()])).toEqual([]);
+  });
+
+  test('should report old and new values for changed properties', () => {
+    const before = ChangeDetector.capture([buildThermostat()]);
+    const after = buildThermostat((data) => {
+      data.settings.system_status = 'Heating';
+      data.zones[0].features.heating_setpoint = 68;
+      data.zones[0].features.current_mode = 'HEAT';
+    });
+
+    const changes = ChangeDetector.diff(before, [after]);
+    const byType = (type: string): DeviceChangeEvent | undefined => changes.find(c => c.type === type);
+
+    expect(byType('thermostat.systemStatusChanged')).toMatchObject({
+      deviceType: 'thermostat',
+      oldValue: 'System Idle',
+      newValue: 'Heating'
+    });
+    expect(byType('zone.setpointChanged')).toMatchObject({
+      deviceId: 'test-zone-1',
+      property: 'heatingSetpoint',
+      oldValue: 70,
+      newValue: 68
+    });
+    expect(byType('zone.modeChanged')).toMatchObject({ oldValue: 'AUTO', newValue: 'HEAT' });
+    expect(changes).toHaveLength(3);
+  });
+
+  test('should only report batteryLow when the battery worsens', () => {
+    const lowBattery = (data: any): void => {
+      data.zones[0].sensors[0].battery = { level: 15, low: true, valid: true };
+    };
+
+    const before = ChangeDetector.capture([buildThermostat()]);
+    const low = buildThermostat(lowBattery);
+    expect(ChangeDetector.diff(before, [low]).map(c => c.type)).toEqual(['sensor.batteryLow']);
+
+    const recovered = ChangeDetector.diff(ChangeDetector.capture([low]), [buildThermostat()]);
+    expect(recovered).toEqual([]);
+  });
+
+  test('should ignore devices that were not in the previous snapshot', () => {
+    const before = ChangeDetector.capture([]);
+    expect(ChangeDetector.diff(before, [buildThermostat()])).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Command-line interface tests
+ */
+
+import { main } from '../src/cli/index';
+import { TraneClient, TraneThermostat, TraneZone, OperationMode, WriteHandle, VERSION } from '../src/index';
+import { TraneClientConfig, ZoneStatusSummary } from '../src/types/api';
+import { testUtils } from './setup';
+
+describe('trane CLI', () => {
+  const env = { TRANE_USERNAME: 'test@example.com', TRANE_PASSWORD: 'password' };
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+  let configs: TraneClientConfig[];
+
+  const createClient = (config: TraneClientConfig): TraneClient => {
+    configs.push(config);
+    const client = new TraneClient(config);
+    jest.spyOn(client, 'getThermostats').mockImplementation(async () => {
+      const data = testUtils.createMockThermostatData() as any;
+      data.zones = [{ ...testUtils.createMockZoneData(), sensors: [testUtils.createMockSensorData()] }];
+      return [new TraneThermostat(client, data)];
+    });
+    return client;
+  };
+
+  const output = (spy: jest.SpyInstance): string => spy.mock.calls.map(call => call[0]).join('');
+
+  beforeEach(() => {
+    configs = [];
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  test('should print status as JSON', async () => {
+    const code = await main(['status', '--json'], env, createClient);
+
+    expect(code).toBe(0);
+    const status = JSON.parse(output(stdout));
+    expect(status[0].id).toBe('test-thermostat-1');
+    expect(status[0].zones[0].name).toBe('Living Room');
+    expect(status[0].zones[0].sensors).toHaveLength(1);
+  });
+
+  test('should pass credentials, house and state file to the client', async () => {
+    await main(['status', '--house', '42', '--state-file', '/tmp/state.json'], env, createClient);
+
+    expect(configs[0]).toMatchObject({
+      username: 'test@example.com',
+      password: 'password',
+      houseId: 42,
+      stateFile: '/tmp/state.json'
+    });
+  });
+
+  test('should route zone subcommands with their options', async () => {
+    const confirmed = (): WriteHandle<ZoneStatusSummary> =>
+      new WriteHandle('write', Promise.resolve(), Promise.resolve({} as ZoneStatusSummary));
+    const setTemperatures = jest.spyOn(TraneZone.prototype, 'setTemperatures').mockImplementation(confirmed);
+    const setMode = jest.spyOn(TraneZone.prototype, 'setMode').mockImplementation(confirmed);
+
+    expect(await main(['zone', 'set', '--heat', '68', '--cool', '76'], env, createClient)).toBe(0);
+    expect(await main(['zone', 'mode', 'heat'], env, createClient)).toBe(0);
+
+    expect(setTemperatures).toHaveBeenCalledWith({ heatingSetpoint: 68, coolingSetpoint: 76 });
+    expect(setMode).toHaveBeenCalledWith(OperationMode.HEAT);
+  });
+
+  test('should print a diagnostics report even when loading fails', async () => {
+    const failing = (config: TraneClientConfig): TraneClient => {
+      const client = createClient(config);
+      jest.spyOn(client, 'getThermostats').mockRejectedValue(new Error('offline'));
+      return client;
+    };
+
+    expect(await main(['diagnostics'], env, failing)).toBe(0);
+
+    const report = JSON.parse(output(stdout));
+    expect(report.version).toBe(VERSION);
+    expect(report.auth.authenticated).toBe(false);
+    expect(report.houses).toEqual([]);
+  });
+
+  test('should reject invalid arguments with a usage exit code', async () => {
+    expect(await main(['zone', 'mode', 'turbo'], env, createClient)).toBe(2);
+    expect(output(stderr)).toContain('mode must be one of');
+
+    expect(await main(['zone', 'set', '--zone', 'missing', '--heat', '68'], env, createClient)).toBe(1);
+    expect(await main(['bogus'], env, createClient)).toBe(2);
+  });
+
+  test('should require credentials', async () => {
+    const code = await main(['status', '--json'], {}, createClient);
+
+    expect(code).toBe(2);
+    expect(JSON.parse(output(stderr)).error.code).toBe('CONFIG_ERROR');
+  });
+});
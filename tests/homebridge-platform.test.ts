@@ -0,0 +1,302 @@
+/**
+ * Homebridge platform tests against a minimal fake HAP API
+ */
+
+import { EventEmitter } from 'events';
+import {
+  TraneClient,
+  TraneThermostat,
+  TraneZone,
+  OperationMode
+} from '../src/index';
+import registerPlugin, { TraneHomebridgePlatform, PLATFORM_NAME, PLUGIN_NAME } from '../src/homebridge';
+import * as library from '../src/index';
+import { testUtils } from './setup';
+
+// Characteristic "classes" are plain objects carrying their enum constants
+const characteristic = <T extends Record<string, number>>(name: string, constants?: T): { name: string } & T =>
+  ({ name, ...constants } as { name: string } & T);
+
+const Characteristic = {
+  Name: characteristic('Name'),
+  Manufacturer: characteristic('Manufacturer'),
+  Model: characteristic('Model'),
+  SerialNumber: characteristic('SerialNumber'),
+  FirmwareRevision: characteristic('FirmwareRevision'),
+  CurrentTemperature: characteristic('CurrentTemperature'),
+  TargetTemperature: characteristic('TargetTemperature'),
+  HeatingThresholdTemperature: characteristic('HeatingThresholdTemperature'),
+  CoolingThresholdTemperature: characteristic('CoolingThresholdTemperature'),
+  CurrentRelativeHumidity: characteristic('CurrentRelativeHumidity'),
+  StatusActive: characteristic('StatusActive'),
+  BatteryLevel: characteristic('BatteryLevel'),
+  TemperatureDisplayUnits: characteristic('TemperatureDisplayUnits', { CELSIUS: 0, FAHRENHEIT: 1 }),
+  CurrentHeatingCoolingState: characteristic('CurrentHeatingCoolingState', { OFF: 0, HEAT: 1, COOL: 2 }),
+  TargetHeatingCoolingState: characteristic('TargetHeatingCoolingState', { OFF: 0, HEAT: 1, COOL: 2, AUTO: 3 }),
+  Active: characteristic('Active', { INACTIVE: 0, ACTIVE: 1 }),
+  CurrentHeaterCoolerState: characteristic('CurrentHeaterCoolerState', { INACTIVE: 0, IDLE: 1, HEATING: 2, COOLING: 3 }),
+  TargetHeaterCoolerState: characteristic('TargetHeaterCoolerState', { AUTO: 0, HEAT: 1, COOL: 2 }),
+  TargetFanState: characteristic('TargetFanState', { MANUAL: 0, AUTO: 1 }),
+  CurrentFanState: characteristic('CurrentFanState', { INACTIVE: 0, IDLE: 1, BLOWING_AIR: 2 }),
+  StatusLowBattery: characteristic('StatusLowBattery', { BATTERY_LEVEL_NORMAL: 0, BATTERY_LEVEL_LOW: 1 }),
+  ChargingState: characteristic('ChargingState', { NOT_CHARGING: 0, CHARGING: 1, NOT_CHARGEABLE: 2 })
+};
+
+const Service = {
+  AccessoryInformation: 'AccessoryInformation',
+  Thermostat: 'Thermostat',
+  HeaterCooler: 'HeaterCooler',
+  TemperatureSensor: 'TemperatureSensor',
+  HumiditySensor: 'HumiditySensor',
+  Battery: 'Battery',
+  Fanv2: 'Fanv2'
+};
+
+class FakeCharacteristic {
+  public value: unknown;
+  public props: Record<string, unknown> = {};
+  public setHandler?: (value: unknown) => void;
+
+  public onGet(): this {
+    return this;
+  }
+
+  public onSet(handler: (value: unknown) => void): this {
+    this.setHandler = handler;
+    return this;
+  }
+
+  public setProps(props: Record<string, unknown>): this {
+    Object.assign(this.props, props);
+    return this;
+  }
+}
+
+class FakeService {
+  private readonly characteristics: Map<unknown, FakeCharacteristic> = new Map();
+
+  constructor(public readonly type: string, public readonly displayName?: string, public readonly subtype?: string) {}
+
+  public getCharacteristic(type: unknown): FakeCharacteristic {
+    if (!this.characteristics.has(type)) {
+      this.characteristics.set(type, new FakeCharacteristic());
+    }
+    return this.characteristics.get(type)!;
+  }
+
+  public setCharacteristic(type: unknown, value: unknown): this {
+    this.getCharacteristic(type).value = value;
+    return this;
+  }
+
+  public updateCharacteristic(type: unknown, value: unknown): this {
+    return this.setCharacteristic(type, value);
+  }
+}
+
+class FakeAccessory {
+  public context: any = {};
+  public readonly services: FakeService[] = [];
+
+  constructor(public readonly displayName: string, public readonly UUID: string) {}
+
+  public getService(type: string): FakeService | undefined {
+    return this.services.find(service => service.type === type);
+  }
+
+  public getServiceById(type: string, subtype: string): FakeService | undefined {
+    return this.services.find(service => service.type === type && service.subtype === subtype);
+  }
+
+  public addService(type: string, name?: string, subtype?: string): FakeService {
+    const service = new FakeService(type, name, subtype);
+    this.services.push(service);
+    return service;
+  }
+
+  public removeService(service: FakeService): void {
+    this.services.splice(this.services.indexOf(service), 1);
+  }
+}
+
+class HapStatusError extends Error {
+  constructor(public readonly hapStatus: number) {
+    super(`HAP status ${hapStatus}`);
+  }
+}
+
+const createApi = (): any => Object.assign(new EventEmitter(), {
+  hap: {
+    Service,
+    Characteristic,
+    HapStatusError,
+    HAPStatus: { READ_ONLY_CHARACTERISTIC: -70404 },
+    uuid: { generate: (key: string) => `uuid:${key}` }
+  },
+  platformAccessory: FakeAccessory,
+  registerPlatformAccessories: jest.fn(),
+  unregisterPlatformAccessories: jest.fn(),
+  updatePlatformAccessories: jest.fn()
+});
+
+const createLog = (): any => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() });
+
+describe('TraneHomebridgePlatform', () => {
+  const config = { platform: PLATFORM_NAME, username: 'test@example.com', password: 'password' };
+
+  const mockDevices = (): void => {
+    jest.spyOn(TraneClient.prototype, 'startPolling').mockImplementation(() => undefined);
+    jest.spyOn(TraneClient.prototype, 'getThermostats').mockImplementation(async function (this: TraneClient) {
+      const data = testUtils.createMockThermostatData() as any;
+      data.zones = [{ ...testUtils.createMockZoneData(), sensors: [testUtils.createMockSensorData()] }];
+      return [new TraneThermostat(this, data)];
+    });
+  };
+
+  const zoneAccessory = (api: any): FakeAccessory => {
+    const registered: FakeAccessory[] = api.registerPlatformAccessories.mock.calls.map((call: any[]) => call[2][0]);
+    return registered.find(accessory => accessory.context.kind === 'zone')!;
+  };
+
+  test('should register thermostat, zone and sensor accessories', async () => {
+    mockDevices();
+    const api = createApi();
+    const platform = new TraneHomebridgePlatform(createLog(), config, api);
+
+    await platform.discoverDevices();
+
+    expect(api.registerPlatformAccessories).toHaveBeenCalledTimes(3);
+    expect(api.registerPlatformAccessories).toHaveBeenCalledWith(PLUGIN_NAME, PLATFORM_NAME, expect.any(Array));
+    expect(platform.accessoryCount).toBe(3);
+
+    const thermostatService = zoneAccessory(api).getService(Service.Thermostat)!;
+    expect(thermostatService.getCharacteristic(Characteristic.CurrentTemperature).value).toBe(22.2);
+    expect(thermostatService.getCharacteristic(Characteristic.TargetHeatingCoolingState).value)
+      .toBe(Characteristic.TargetHeatingCoolingState.AUTO);
+    expect(thermostatService.getCharacteristic(Characteristic.TemperatureDisplayUnits).value)
+      .toBe(Characteristic.TemperatureDisplayUnits.FAHRENHEIT);
+  });
+
+  test('should reuse cached accessories and remove stale ones', async () => {
+    mockDevices();
+    const api = createApi();
+    const platform = new TraneHomebridgePlatform(createLog(), config, api);
+
+    const cached = new FakeAccessory('Thermostat', `uuid:${PLUGIN_NAME}:thermostat:test-thermostat-1`);
+    const stale = new FakeAccessory('Old Zone', `uuid:${PLUGIN_NAME}:zone:test-thermostat-1:removed`);
+    platform.configureAccessory(cached);
+    platform.configureAccessory(stale);
+
+    await platform.discoverDevices();
+
+    expect(api.updatePlatformAccessories).toHaveBeenCalledWith([cached]);
+    expect(api.registerPlatformAccessories).toHaveBeenCalledTimes(2);
+    expect(api.unregisterPlatformAccessories).toHaveBeenCalledWith(PLUGIN_NAME, PLATFORM_NAME, [stale]);
+  });
+
+  test('should forward HomeKit mode changes to the zone', async () => {
+    mockDevices();
+    const setMode = jest.spyOn(TraneZone.prototype, 'setMode').mockResolvedValue(undefined as any);
+    const api = createApi();
+    const platform = new TraneHomebridgePlatform(createLog(), config, api);
+
+    await platform.discoverDevices();
+
+    const service = zoneAccessory(api).getService(Service.Thermostat)!;
+    service.getCharacteristic(Characteristic.TargetHeatingCoolingState)
+      .setHandler!(Characteristic.TargetHeatingCoolingState.HEAT);
+
+    expect(setMode).toHaveBeenCalledWith(OperationMode.HEAT);
+  });
+
+  test('should move both thresholds with the target temperature in AUTO', async () => {
+    mockDevices();
+    const setTemperatures = jest.spyOn(TraneZone.prototype, 'setTemperatures').mockResolvedValue(undefined as any);
+    const api = createApi();
+    const platform = new TraneHomebridgePlatform(createLog(), config, api);
+
+    await platform.discoverDevices();
+
+    // The zone is in AUTO at 70-75°F; 24°C is 75°F
+    zoneAccessory(api).getService(Service.Thermostat)!.getCharacteristic(Characteristic.TargetTemperature).setHandler!(24);
+
+    expect(setTemperatures).toHaveBeenCalledWith({ heatingSetpoint: 73, coolingSetpoint: 78 });
+  });
+
+  test('should reject target temperature writes while the zone is off', async () => {
+    mockDevices();
+    jest.spyOn(TraneZone.prototype, 'currentMode', 'get').mockReturnValue(OperationMode.OFF);
+    const setHeatingSetpoint = jest.spyOn(TraneZone.prototype, 'setHeatingSetpoint');
+    const api = createApi();
+    const platform = new TraneHomebridgePlatform(createLog(), config, api);
+
+    await platform.discoverDevices();
+
+    const target = zoneAccessory(api).getService(Service.Thermostat)!.getCharacteristic(Characteristic.TargetTemperature);
+    expect(() => target.setHandler!(22)).toThrow(HapStatusError);
+    expect(setHeatingSetpoint).not.toHaveBeenCalled();
+  });
+
+  test('should offer only the modes the zone supports', async () => {
+    mockDevices();
+    jest.spyOn(TraneZone.prototype, 'availableModes', 'get').mockReturnValue([OperationMode.HEAT, OperationMode.OFF]);
+    const api = createApi();
+    const platform = new TraneHomebridgePlatform(createLog(), config, api);
+
+    await platform.discoverDevices();
+
+    const service = zoneAccessory(api).getService(Service.Thermostat)!;
+    expect(service.getCharacteristic(Characteristic.TargetHeatingCoolingState).props['validValues'])
+      .toEqual([Characteristic.TargetHeatingCoolingState.OFF, Characteristic.TargetHeatingCoolingState.HEAT]);
+  });
+
+  test('should expose zones as HeaterCooler when configured', async () => {
+    mockDevices();
+    const api = createApi();
+    const platform = new TraneHomebridgePlatform(createLog(), { ...config, zoneService: 'heatercooler' }, api);
+
+    await platform.discoverDevices();
+
+    const accessory = zoneAccessory(api);
+    expect(accessory.getService(Service.Thermostat)).toBeUndefined();
+    expect(accessory.getService(Service.HeaterCooler)!.getCharacteristic(Characteristic.Active).value)
+      .toBe(Characteristic.Active.ACTIVE);
+  });
+
+  test('should register the platform from the default export', () => {
+    const api = { registerPlatform: jest.fn() };
+
+    registerPlugin(api);
+
+    expect(api.registerPlatform).toHaveBeenCalledWith(PLATFORM_NAME, TraneHomebridgePlatform);
+  });
+
+  test('should ship as a Homebridge plugin package apart from the library', () => {
+    const plugin = require('../homebridge-plugin/package.json');
+
+    expect(plugin.name).toBe(PLUGIN_NAME);
+    expect(PLUGIN_NAME).toMatch(/^homebridge-/);
+    expect(plugin.keywords).toContain('homebridge-plugin');
+    expect(plugin.engines.homebridge).toBeDefined();
+    expect(library).not.toHaveProperty('TraneHomebridgePlatform');
+    expect(library).not.toHaveProperty('MockTraneServer');
+  });
+
+  test('should keep polling when the first discovery fails', async () => {
+    const startPolling = jest.spyOn(TraneClient.prototype, 'startPolling').mockImplementation(() => undefined);
+    jest.spyOn(TraneClient.prototype, 'getThermostats').mockRejectedValue(new Error('offline'));
+    const api = createApi();
+    const log = createLog();
+    const platform = new TraneHomebridgePlatform(log, config, api);
+
+    await platform.discoverDevices();
+
+    expect(log.error).toHaveBeenCalled();
+    expect(startPolling).toHaveBeenCalled();
+    expect(platform.accessoryCount).toBe(0);
+  });
+
+  test('should reject missing credentials', () => {
+    expect(() => new TraneHomebridgePlatform(createLog(), { platform: PLATFORM_NAME }, createApi())).toThrow();
+  });
+});
@@ -0,0 +1,788 @@
+/**
+ * End-to-end client tests against the in-process mock API server
+ */
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promises as fs } from 'fs';
+import {
+  TraneClient,
+  OperationMode,
+  PresetMode,
+  AirCleanerMode,
+  DamperState,
+  SensorType,
+  Weekday,
+  ValidationError,
+  AuthenticationError,
+  ParseError,
+  WriteNotAppliedError,
+  MemoryHoldStore,
+  MemorySessionStore,
+  HoldStore,
+  VERSION
+} from '../src/index';
+import { MockTraneServer, createMockHouse } from '../src/testing';
+
+describe('TraneClient against MockTraneServer', () => {
+  let server: MockTraneServer;
+  let client: TraneClient;
+  let stateFile: string;
+
+  const createClient = (
+    overrides: { password?: string; optimisticUpdates?: boolean; holdStore?: HoldStore } = {}
+  ): TraneClient => {
+    const instance = new TraneClient({
+      username: 'test@example.com',
+      password: overrides.password ?? 'password',
+      optimisticUpdates: overrides.optimisticUpdates,
+      holdStore: overrides.holdStore ?? new MemoryHoldStore(),
+      baseUrl: server.baseUrl,
+      stateFile,
+      // The mock applies writes immediately, so confirm them without waiting long
+      writeConfirmation: { interval: 10, timeout: 200, debounce: 5 }
+    });
+    return instance;
+  };
+
+  beforeEach(async () => {
+    server = new MockTraneServer();
+    await server.start();
+    stateFile = join(tmpdir(), `trane-auth-${process.pid}-${Date.now()}.json`);
+    client = createClient();
+  });
+
+  const waitFor = async (condition: () => Promise<boolean>, timeoutMs: number = 2000): Promise<void> => {
+    const deadline = Date.now() + timeoutMs;
+    while (!(await condition())) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  afterEach(async () => {
+    client.stopPolling();
+    await server.stop();
+    await fs.rm(stateFile, { force: true });
+  });
+
+  test('should sign in, discover the house and load devices', async () => {
+    const thermostats = await client.getThermostats();
+
+    expect(client.getHouseId()).toBe(123456);
+    expect(client.getHouseName()).toBe('Mock Home');
+    expect(thermostats).toHaveLength(1);
+    expect(thermostats[0]!.model).toBe('XL1050');
+    expect(thermostats[0]!.relativeHumidity).toBe(0.45);
+    expect(thermostats[0]!.zones[0]!.id).toBe('83261002');
+    expect(thermostats[0]!.zones[0]!.currentTemperature).toBe(71);
+  });
+
+  test('should reuse the saved session without signing in again', async () => {
+    await client.getThermostats();
+
+    const second = createClient();
+    const thermostats = await second.getThermostats();
+
+    expect(thermostats).toHaveLength(1);
+    expect(server.requests.filter(request => request.path === '/mobile/accounts/sign_in')).toHaveLength(1);
+  });
+
+  test('should use ETags and skip unchanged house data', async () => {
+    await client.getThermostats();
+    const updates = jest.fn();
+    client.on('update', updates);
+
+    await client.update();
+    expect(updates).not.toHaveBeenCalled();
+
+    server.updateZone(83261002, { heatSetpoint: 70 });
+    await client.update();
+
+    expect(updates).toHaveBeenCalledTimes(1);
+    const [thermostat] = await client.getThermostats();
+    expect(thermostat!.zones[0]!.heatingSetpoint).toBe(70);
+  });
+
+  test('should emit change events for device changes found on refresh', async () => {
+    const [thermostat] = await client.getThermostats();
+    const previous = thermostat!.zones[0]!.heatingSetpoint;
+    const setpointChanges = jest.fn();
+    const changes = jest.fn();
+    client.on('zone.setpointChanged', setpointChanges);
+    client.on('change', changes);
+
+    server.updateZone(83261002, { heatSetpoint: previous - 2 });
+    await client.update();
+
+    expect(setpointChanges).toHaveBeenCalledTimes(1);
+    expect(setpointChanges).toHaveBeenCalledWith(expect.objectContaining({
+      deviceType: 'zone',
+      zoneId: '83261002',
+      property: 'heatingSetpoint',
+      oldValue: previous,
+      newValue: previous - 2
+    }));
+    expect(changes).toHaveBeenCalledWith(setpointChanges.mock.calls[0]![0]);
+  });
+
+  test('should load every zone of a zoned system', async () => {
+    const [mockThermostat] = server.houses[0]!.thermostats;
+    mockThermostat!.zones.push({
+      ...mockThermostat!.zones[0]!,
+      id: 83261003,
+      name: 'Upstairs',
+      operatingState: 'heating',
+      damperOpen: false,
+      sensors: []
+    });
+    mockThermostat!.zones[0]!.damperOpen = true;
+
+    const [thermostat] = await client.getThermostats();
+    expect(thermostat!.hasZones).toBe(true);
+    expect(thermostat!.zones.map(zone => [zone.id, zone.name, zone.isNativeZone])).toEqual([
+      ['83261002', 'Hallway', true],
+      ['83261003', 'Upstairs', false]
+    ]);
+
+    const upstairs = thermostat!.getZoneById('83261003')!;
+    expect(upstairs.damperPosition).toBe(DamperState.CLOSED);
+    expect(upstairs.isCalling).toBe(false);
+    expect(thermostat!.getZoneById('83261002')!.damperPosition).toBe(DamperState.OPEN);
+
+    await upstairs.setMode(OperationMode.HEAT);
+    expect(mockThermostat!.zones.map(zone => zone.mode)).toEqual([OperationMode.AUTO, OperationMode.HEAT]);
+  });
+
+  test('should load RoomIQ sensors and select the active ones', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    expect(zone.sensors.map(sensor => sensor.getStatusSummary())).toEqual([
+      expect.objectContaining({
+        id: 17687546, name: 'Hallway', type: SensorType.THERMOSTAT, weight: 0.5,
+        isConnected: null, hasBattery: false, humidity: 45, humidityValid: true
+      }),
+      expect.objectContaining({
+        id: 17687549, name: 'Bedroom', type: SensorType.ROOMIQ, weight: 0.5,
+        isConnected: true, hasBattery: true, batteryLevel: 92, batteryStatus: 'good', serialNumber: '2410R5C53X'
+      })
+    ]);
+
+    const selection = zone.selectActiveSensors({ activeSensorIds: [17687549] });
+    await selection.sent;
+    expect(server.requests.map(request => request.path)).toContain('/mobile/xxl_zones/83261002/request_current_sensor_state');
+    await selection;
+
+    expect(server.requests).toContainEqual(expect.objectContaining({
+      path: '/mobile/xxl_zones/83261002/update_active_sensors',
+      body: { updated_active_sensors: [17687549] }
+    }));
+    expect(Array.from(zone.activeSensorIds)).toEqual([17687549]);
+    expect(zone.getSensorById(17687549)!.weight).toBe(1);
+
+    // The zone temperature is the thermostat's weighted reading, not the first sensor's
+    server.updateSensor(17687546, { temperature: 60 });
+    await client.update();
+    expect(zone.currentTemperature).toBe(71);
+  });
+
+  test('should send zone commands and reflect the new state', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    await zone.setTemperatures({ heatingSetpoint: 66, coolingSetpoint: 78 });
+    await zone.setMode(OperationMode.HEAT);
+    await zone.setPermanentHold();
+
+    expect(server.houses[0]!.thermostats[0]!.zones[0]).toMatchObject({
+      heatSetpoint: 66,
+      coolSetpoint: 78,
+      mode: OperationMode.HEAT,
+      runMode: 'permanent_hold'
+    });
+    expect(zone.heatingSetpoint).toBe(66);
+    expect(zone.currentMode).toBe(OperationMode.HEAT);
+    expect(zone.isInPermanentHold).toBe(true);
+  });
+
+  test('should send thermostat commands', async () => {
+    const [thermostat] = await client.getThermostats();
+
+    await thermostat!.setFanMode('circulate');
+    await thermostat!.setDehumidifySetpoint(0.55);
+
+    expect(server.houses[0]!.thermostats[0]).toMatchObject({ fanMode: 'circulate', dehumidifySetpoint: 0.55 });
+  });
+
+  test('should offer only the options the device reports', async () => {
+    server.houses[0]!.thermostats[0]!.zones[0]!.modes = [OperationMode.HEAT, OperationMode.OFF];
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    expect(zone.availableModes).toEqual([OperationMode.HEAT, OperationMode.OFF]);
+    expect(thermostat!.availableFanModes).toEqual(['auto', 'on', 'circulate']);
+    expect(thermostat!.availableAirCleanerModes).toEqual([AirCleanerMode.AUTO, AirCleanerMode.QUICK, AirCleanerMode.ALLERGY]);
+
+    await expect(zone.setMode(OperationMode.COOL)).rejects.toThrow(ValidationError);
+    expect(server.requests.some(request => request.path.endsWith('/zone_mode'))).toBe(false);
+  });
+
+  test('should send writes to the action links the device lists', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    await thermostat!.setFanMode('on');
+    await zone.setPreset(PresetMode.AWAY);
+
+    // Settings and feature actions each take the body shape of their action
+    expect(server.requests).toContainEqual(expect.objectContaining({
+      method: 'POST',
+      path: '/mobile/xxl_thermostats/2059661/fan_mode',
+      body: { value: 'on' }
+    }));
+    expect(server.requests).toContainEqual(expect.objectContaining({
+      method: 'POST',
+      path: '/mobile/xxl_zones/83261002/preset_selected',
+      body: { value: PresetMode.AWAY }
+    }));
+  });
+
+  test('should send settings as the values the device lists', async () => {
+    const [thermostat] = await client.getThermostats();
+
+    await thermostat!.setEmergencyHeat(true);
+    await thermostat!.setFanSpeed(0.65);
+
+    const raw = (path: string): Array<string | undefined> =>
+      server.requests.filter(request => request.path === path).map(request => request.rawBody);
+    expect(raw('/mobile/xxl_thermostats/2059661/emergency_heat')).toEqual(['{"value":"on"}']);
+    expect(raw('/mobile/xxl_thermostats/2059661/fan_speed')).toEqual(['{"value":0.65}']);
+  });
+
+  test('should reject write bodies that do not have the shape of their action', async () => {
+    const [thermostat] = await client.getThermostats();
+
+    // Named fields instead of { value }, and a boolean where the setting lists "on"/"off"
+    await expect(client.send({ endpoint: '/mobile/xxl_thermostats/2059661/emergency_heat', payload: { emergency_heat: 'on' } }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(client.send({ endpoint: '/mobile/xxl_thermostats/2059661/emergency_heat', payload: { value: true } }))
+      .rejects.toMatchObject({ statusCode: 422 });
+    await expect(client.send({ endpoint: '/mobile/xxl_zones/83261002/setpoints', payload: { heating_setpoint: 66 } }))
+      .rejects.toMatchObject({ statusCode: 400 });
+
+    await client.update({ forceUpdate: true });
+    expect(thermostat!.isEmergencyHeatActive).toBe(false);
+    expect(thermostat!.zones[0]!.heatingSetpoint).toBe(68);
+  });
+
+  test('should read fan, air cleaner, emergency heat and compressor state', async () => {
+    server.houses[0]!.thermostats[0]!.compressorSpeed = 0.6;
+    const [thermostat] = await client.getThermostats();
+
+    expect(thermostat!.capabilities).toMatchObject({
+      hasVariableFanSpeed: true,
+      hasEmergencyHeat: true,
+      hasAirCleaner: true,
+      hasVariableSpeedCompressor: true
+    });
+    expect(thermostat!.currentFanMode).toBe('auto');
+    expect(thermostat!.currentFanSpeed).toBe(0.35);
+    expect(thermostat!.fanSpeedLimits).toEqual({ min: 0.35, max: 1 });
+    expect(thermostat!.availableFanSpeeds).toEqual([0.35, 0.5, 0.65, 0.8, 1]);
+    expect(thermostat!.airCleanerMode).toBe('auto');
+    expect(thermostat!.isEmergencyHeatActive).toBe(false);
+    expect(thermostat!.currentCompressorSpeed).toBe(0.6);
+
+    // 0.4 is within the range, but not a speed the blower lists
+    await expect(thermostat!.setFanSpeed(0.4)).rejects.toThrow(ValidationError);
+    await expect(thermostat!.setFanOptions({ mode: 'on', speed: 0.4 })).rejects.toThrow(ValidationError);
+    expect(server.requests.map(request => request.path)).not.toContain('/mobile/xxl_thermostats/2059661/fan_mode');
+    await thermostat!.setFanSpeed(0.5);
+    await thermostat!.setEmergencyHeat(true);
+
+    expect(thermostat!.currentFanSpeed).toBe(0.5);
+    expect(thermostat!.isEmergencyHeatActive).toBe(true);
+  });
+
+  test('should resolve writes with the confirmed state', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    const handle = zone.setMode(OperationMode.COOL);
+    await handle.sent;
+    const confirmed = await handle;
+
+    expect(confirmed.currentMode).toBe(OperationMode.COOL);
+    expect(server.requests.filter(request => request.path === '/mobile/houses/123456').length).toBeGreaterThan(1);
+  });
+
+  test('should coalesce rapid writes to the same endpoint', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    const handles = [
+      zone.setHeatingSetpoint(64),
+      zone.setHeatingSetpoint(65),
+      zone.setCoolingSetpoint(79),
+      zone.setHeatingSetpoint(66),
+      zone.setMode(OperationMode.HEAT)
+    ];
+    const results = await Promise.all(handles);
+
+    const setpointPosts = server.requests.filter(request => request.path.endsWith('/setpoints'));
+    expect(setpointPosts).toHaveLength(1);
+    expect(setpointPosts[0]!.body).toEqual({ heat: 66, cool: 79 });
+    expect(results[0]).toMatchObject({ heatingSetpoint: 66, coolingSetpoint: 79 });
+    expect(zone.currentMode).toBe(OperationMode.HEAT);
+  });
+
+  test('should confirm merged writes that overwrite part of an earlier write', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    const setpoints = [zone.setTemperatures({ heatingSetpoint: 66, coolingSetpoint: 78 }), zone.setHeatingSetpoint(67)];
+    await expect(Promise.all(setpoints)).resolves.toEqual([
+      expect.objectContaining({ heatingSetpoint: 67, coolingSetpoint: 78 }),
+      expect.objectContaining({ heatingSetpoint: 67, coolingSetpoint: 78 })
+    ]);
+
+    // Hold and resume share the run mode link, so the resume replaces the hold
+    const runMode = [zone.setPermanentHold(), zone.returnToSchedule()];
+    await expect(Promise.all(runMode)).resolves.toEqual([
+      expect.objectContaining({ isInPermanentHold: false }),
+      expect.objectContaining({ isInPermanentHold: false })
+    ]);
+    expect(server.requests.filter(request => request.path.endsWith('/run_mode')).map(request => request.body))
+      .toEqual([{ value: 'run_schedule' }]);
+  });
+
+  test('should send queued writes while an earlier write is still being confirmed', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    // The device accepts the mode change but is slow to apply it
+    server.failNext('/mobile/xxl_zones/83261002/zone_mode', 200);
+    const mode = zone.setMode(OperationMode.HEAT);
+    await mode.sent;
+
+    const setpoint = await zone.setHeatingSetpoint(65);
+    expect(setpoint.heatingSetpoint).toBe(65);
+    expect(zone.currentMode).toBe(OperationMode.AUTO);
+
+    server.updateZone(83261002, { mode: OperationMode.HEAT });
+    await expect(mode).resolves.toMatchObject({ currentMode: OperationMode.HEAT });
+  });
+
+  test('should let a later write take over an endpoint that is still being confirmed', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    server.failNext('/mobile/xxl_zones/83261002/zone_mode', 200);
+    const heat = zone.setMode(OperationMode.HEAT);
+    await heat.sent;
+
+    // HEAT never shows up, but COOL replaced it, so neither write fails
+    const cool = zone.setMode(OperationMode.COOL);
+    await expect(Promise.all([heat, cool])).resolves.toEqual([
+      expect.objectContaining({ currentMode: OperationMode.COOL }),
+      expect.objectContaining({ currentMode: OperationMode.COOL })
+    ]);
+  });
+
+  test('should reject writes the device does not apply', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    // Accept the write but keep reporting the old mode
+    server.failNext('/mobile/xxl_zones/83261002/zone_mode', 200);
+
+    await expect(zone.setMode(OperationMode.HEAT)).rejects.toThrow(WriteNotAppliedError);
+    expect(zone.currentMode).toBe(OperationMode.AUTO);
+  });
+
+  test('should show requested values while optimistic writes are pending', async () => {
+    client = createClient({ optimisticUpdates: true });
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    const handle = zone.setMode(OperationMode.HEAT);
+    await handle.sent;
+
+    expect(zone.currentMode).toBe(OperationMode.HEAT);
+    expect(zone.pendingProperties).toEqual(['currentMode']);
+
+    await handle;
+    expect(zone.currentMode).toBe(OperationMode.HEAT);
+    expect(zone.pendingProperties).toEqual([]);
+  });
+
+  test('should roll back optimistic values the device does not apply', async () => {
+    client = createClient({ optimisticUpdates: true });
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+    const rollbacks = jest.fn();
+    client.on('rollback', rollbacks);
+
+    server.failNext('/mobile/xxl_zones/83261002/zone_mode', 200);
+    const handle = zone.setMode(OperationMode.HEAT);
+    await handle.sent;
+    expect(zone.currentMode).toBe(OperationMode.HEAT);
+
+    await expect(handle).rejects.toThrow(WriteNotAppliedError);
+    expect(zone.currentMode).toBe(OperationMode.AUTO);
+    expect(zone.pendingProperties).toEqual([]);
+    expect(rollbacks).toHaveBeenCalledTimes(1);
+    expect(rollbacks.mock.calls[0]![0]).toMatchObject({
+      deviceType: 'zone',
+      deviceId: '83261002',
+      requested: { currentMode: OperationMode.HEAT }
+    });
+  });
+
+  test('should return to schedule when a timed hold ends', async () => {
+    const holdStore = new MemoryHoldStore();
+    client = createClient({ holdStore });
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    const endTime = new Date(Date.now() + 300);
+    await zone.setPermanentHold({ temperatures: { heatingSetpoint: 66 }, endTime });
+
+    expect(zone.isInPermanentHold).toBe(true);
+    expect(zone.holdEndTime).toEqual(endTime);
+    expect(zone.holdRemainingMinutes).toBe(1);
+    expect(await holdStore.load()).toEqual([
+      { zoneId: '83261002', thermostatId: '2059661', houseId: 123456, endTime: endTime.toISOString() }
+    ]);
+
+    await waitFor(async () => (await holdStore.load()).length === 0);
+    expect(zone.isInPermanentHold).toBe(false);
+    expect(zone.holdEndTime).toBeNull();
+    expect(server.requests).toContainEqual(expect.objectContaining({
+      method: 'POST',
+      path: '/mobile/xxl_zones/83261002/run_mode',
+      body: { value: 'run_schedule' }
+    }));
+  });
+
+  test('should save a timed hold once it is sent and keep it unless the write is rejected', async () => {
+    const holdStore = new MemoryHoldStore();
+    client = createClient({ holdStore });
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+    const endTime = new Date(Date.now() + 3600000);
+    const saved = [{ zoneId: '83261002', thermostatId: '2059661', houseId: 123456, endTime: endTime.toISOString() }];
+
+    const hold = zone.setPermanentHold({ endTime });
+    await hold.sent;
+    expect(await holdStore.load()).toEqual(saved);
+    await hold;
+
+    // A rejected extension leaves the current hold in place
+    server.failNext('/mobile/xxl_zones/83261002/run_mode', 422);
+    await expect(zone.setPermanentHold({ minutes: 120 })).rejects.toThrow();
+    expect(await holdStore.load()).toEqual(saved);
+
+    // Accepted but not seen applied in time: the device may still apply it, so the hold is kept
+    await zone.returnToSchedule();
+    expect(await holdStore.load()).toEqual([]);
+    server.failNext('/mobile/xxl_zones/83261002/run_mode', 200);
+    await expect(zone.setPermanentHold({ endTime })).rejects.toThrow(WriteNotAppliedError);
+    await client.update({ forceUpdate: true });
+    expect(await holdStore.load()).toEqual(saved);
+    expect(zone.holdEndTime).toEqual(endTime);
+  });
+
+  test('should end timed holds that expired while the client was not running', async () => {
+    server.updateZone(83261002, { runMode: 'permanent_hold' });
+    const holdStore = new MemoryHoldStore([
+      { zoneId: '83261002', thermostatId: '2059661', houseId: 123456, endTime: new Date(Date.now() - 60000).toISOString() }
+    ]);
+    client = createClient({ holdStore });
+
+    const [thermostat] = await client.getThermostats();
+
+    await waitFor(async () => (await holdStore.load()).length === 0);
+    expect(thermostat!.zones[0]!.isInPermanentHold).toBe(false);
+  });
+
+  test('should hold until the next schedule change without a timer', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    await zone.setPermanentHold({ temperatures: { coolingSetpoint: 77 }, duration: 'temporary' });
+
+    expect(zone.coolingSetpoint).toBe(77);
+    expect(zone.isInPermanentHold).toBe(false);
+    expect(zone.holdEndTime).toBeNull();
+    expect(server.requests.filter(request => request.path.endsWith('/run_mode'))).toHaveLength(0);
+    const setpointPosts = server.requests.filter(request => request.path.endsWith('/setpoints'));
+    expect(setpointPosts.map(request => request.body)).toEqual([{ cool: 77 }]);
+
+    // A permanent hold has no next schedule change to end at
+    await zone.setPermanentHold();
+    await expect(zone.setPermanentHold({ temperatures: { coolingSetpoint: 76 }, duration: 'temporary' }))
+      .rejects.toThrow(ValidationError);
+  });
+
+  test('should read and replace the zone schedule', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    const schedule = zone.getSchedule()!;
+    expect(schedule.days).toHaveLength(7);
+    expect(schedule.getPeriods(Weekday.SATURDAY)[0]).toEqual({
+      name: 'Wake',
+      startTime: '08:00',
+      heatingSetpoint: 68,
+      coolingSetpoint: 76
+    });
+
+    const updated = schedule.withDay(Weekday.MONDAY, [
+      { name: 'Wake', startTime: '05:30', heatingSetpoint: 70, coolingSetpoint: 75 },
+      { name: 'Sleep', startTime: '21:00', heatingSetpoint: 63, coolingSetpoint: 79 }
+    ]);
+    await zone.setSchedule(updated);
+
+    expect(server.houses[0]!.thermostats[0]!.zones[0]!.schedule[Weekday.MONDAY]).toEqual([
+      { name: 'Wake', startTime: '05:30', heatSetpoint: 70, coolSetpoint: 75 },
+      { name: 'Sleep', startTime: '21:00', heatSetpoint: 63, coolSetpoint: 79 }
+    ]);
+    expect(zone.getSchedule()!.equals(updated)).toBe(true);
+  });
+
+  test('should reject schedules that break the deadband or period order', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+    const schedule = zone.getSchedule()!;
+
+    await expect(zone.setSchedule(schedule.withDay(Weekday.MONDAY, [
+      { name: 'Wake', startTime: '06:00', heatingSetpoint: 74, coolingSetpoint: 75 }
+    ]))).rejects.toThrow(ValidationError);
+    await expect(zone.setSchedule(schedule.withDay(Weekday.MONDAY, [
+      { name: 'Wake', startTime: '06:00', heatingSetpoint: 68, coolingSetpoint: 76 },
+      { name: 'Leave', startTime: '05:00', heatingSetpoint: 62, coolingSetpoint: 82 }
+    ]))).rejects.toThrow(ValidationError);
+    expect(server.requests.some(request => request.path.endsWith('/schedule'))).toBe(false);
+  });
+
+  test('should validate setpoints against the limits the device reports', async () => {
+    const [thermostat] = await client.getThermostats();
+    const zone = thermostat!.zones[0]!;
+
+    expect(zone.setpointLimits).toEqual({ heatMin: 55, heatMax: 90, coolMin: 60, coolMax: 99 });
+    expect(thermostat!.setpointLimits).toEqual(zone.setpointLimits);
+
+    // 50°F is a valid Fahrenheit temperature, but below the zone's heating minimum
+    await expect(zone.setHeatingSetpoint(50)).rejects.toThrow('outside valid range');
+    expect(server.requests.some(request => request.path.endsWith('/setpoints'))).toBe(false);
+  });
+
+  test('should sign in again when the session expires', async () => {
+    await client.getThermostats();
+    server.expireSessions();
+    server.updateZone(83261002, { coolSetpoint: 74 });
+
+    await client.update();
+
+    const [thermostat] = await client.getThermostats();
+    expect(thermostat!.zones[0]!.coolingSetpoint).toBe(74);
+    expect(server.requests.filter(request => request.path === '/mobile/accounts/sign_in')).toHaveLength(2);
+  });
+
+  test('should load and refresh each house independently', async () => {
+    await server.stop();
+    const cabin = createMockHouse(654321, 'Cabin');
+    cabin.thermostats[0]!.id = 3001;
+    cabin.thermostats[0]!.zones[0]!.id = 4001;
+    server = new MockTraneServer({ houses: [createMockHouse(), cabin] });
+    await server.start();
+    client = createClient();
+
+    const houses = await client.getHouses();
+    expect(houses.map(house => house.name)).toEqual(['Mock Home', 'Cabin']);
+
+    const [cabinThermostat] = await client.house(654321).getThermostats();
+    expect(cabinThermostat!.id).toBe('3001');
+    expect(cabinThermostat!.houseId).toBe(654321);
+    expect((await client.getThermostats())[0]!.id).toBe('2059661');
+
+    const updates = jest.fn();
+    client.on('update', updates);
+    server.updateZone(4001, { heatSetpoint: 60 });
+
+    await client.house(123456).update();
+    await client.house(654321).update();
+
+    // Only the cabin's ETag changed, so only the cabin is reprocessed
+    expect(updates.mock.calls.map(([event]) => event.data.houseId)).toEqual([654321]);
+    expect(cabinThermostat!.zones[0]!.heatingSetpoint).toBe(60);
+
+    await cabinThermostat!.zones[0]!.setMode(OperationMode.COOL);
+    expect(cabinThermostat!.zones[0]!.currentMode).toBe(OperationMode.COOL);
+  });
+
+  test('should reload a non-default house after logging out and back in', async () => {
+    await server.stop();
+    const cabin = createMockHouse(654321, 'Cabin');
+    cabin.thermostats[0]!.id = 3001;
+    server = new MockTraneServer({ houses: [createMockHouse(), cabin] });
+    await server.start();
+    client = createClient();
+
+    await client.getHouses();
+    expect(await client.house(654321).getThermostats()).toHaveLength(1);
+
+    await client.logout();
+    await client.login();
+
+    // The cabin is unchanged, so a conditional request would be answered with 304
+    const [cabinThermostat] = await client.house(654321).getThermostats();
+    expect(cabinThermostat!.id).toBe('3001');
+  });
+
+  test('should trace requests to the configured logger without secrets', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const traced = new TraneClient({
+      username: 'test@example.com',
+      password: 'password',
+      baseUrl: server.baseUrl,
+      stateFile,
+      logger
+    });
+
+    await traced.getThermostats();
+
+    const trace = JSON.stringify(logger.debug.mock.calls);
+    expect(trace).toContain('HTTP POST /mobile/accounts/sign_in');
+    expect(trace).toContain('HTTP 200 GET /mobile/houses/123456');
+    expect(trace).toContain('[REDACTED]');
+
+    const { apiKey } = JSON.parse(await fs.readFile(stateFile, 'utf8'));
+    expect(apiKey).toBeDefined();
+    expect(trace).not.toContain(apiKey);
+  });
+
+  test('should not build request traces for a logger with debug output off', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), isDebugEnabled: () => false };
+    const quiet = new TraneClient({
+      username: 'test@example.com',
+      password: 'password',
+      baseUrl: server.baseUrl,
+      stateFile,
+      logger
+    });
+
+    await quiet.getThermostats();
+
+    expect(logger.debug.mock.calls.filter(([message]) => String(message).startsWith('HTTP '))).toEqual([]);
+  });
+
+  test('should reject responses that do not match their schema unless lenient', async () => {
+    server.houses[0]!.name = 42 as any;
+
+    const error = await client.getThermostats().catch(caught => caught);
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error.path).toBe('$.result._links.child[0].data.name');
+
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const lenient = new TraneClient({
+      username: 'test@example.com',
+      password: 'password',
+      baseUrl: server.baseUrl,
+      stateFile,
+      logger,
+      responseValidation: 'lenient'
+    });
+
+    expect(await lenient.getThermostats()).toHaveLength(1);
+    await lenient.update({ forceUpdate: true });
+    expect(logger.warn.mock.calls.map(call => call[0])).toEqual([
+      'API drift in session response at $.result._links.child[0].data.name: expected string, got number',
+      'API drift in house response at $.result.name: expected string, got number'
+    ]);
+  });
+
+  test('should accept null descriptive fields in strict mode', async () => {
+    server.houses[0]!.name = null as any;
+
+    expect(await client.getThermostats()).toHaveLength(1);
+    expect(client.getHouseName()).toBe('Home');
+  });
+
+  test('should record sanitized fixtures and replay them offline', async () => {
+    const fixtureDir = join(tmpdir(), `trane-fixtures-${process.pid}-${Date.now()}`);
+    const recording = new TraneClient({
+      username: 'test@example.com',
+      password: 'password',
+      baseUrl: server.baseUrl,
+      stateFile,
+      recordFixtures: fixtureDir
+    });
+
+    try {
+      await recording.getThermostats();
+
+      const files = await fs.readdir(fixtureDir);
+      expect(files).toEqual(['001-POST-mobile-accounts-sign_in.json', '002-POST-mobile-session.json', '003-GET-mobile-houses-123456.json']);
+      const recorded = (await Promise.all(files.map(file => fs.readFile(join(fixtureDir, file), 'utf8')))).join('\n');
+      const { apiKey } = JSON.parse(await fs.readFile(stateFile, 'utf8'));
+      expect(recorded).not.toContain('test@example.com');
+      expect(recorded).not.toContain('"password": "password"');
+      expect(recorded).not.toContain(apiKey);
+      expect(recorded).not.toContain(server.houses[0]!.thermostats[0]!.zones[0]!.sensors[0]!.serialNumber);
+
+      await server.stop();
+      const replayed = new TraneClient({
+        username: 'someone@example.com',
+        password: 'anything',
+        sessionStore: new MemorySessionStore(),
+        replayFixtures: fixtureDir
+      });
+      const [thermostat] = await replayed.getThermostats();
+      await replayed.update({ forceUpdate: true });
+
+      expect(thermostat!.model).toBe('XL1050');
+      expect(thermostat!.zones[0]!.currentTemperature).toBe(71);
+      expect(thermostat!.zones[0]!.sensors[0]!.serialNumber).toBe('[REDACTED]');
+    } finally {
+      await fs.rm(fixtureDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should report redacted diagnostics with recent errors and request timings', async () => {
+    const [thermostat] = await client.getThermostats();
+    await expect(client.get('/mobile/missing')).rejects.toThrow();
+
+    const report = client.getDiagnostics();
+    const serialized = JSON.stringify(report);
+    const { apiKey } = JSON.parse(await fs.readFile(stateFile, 'utf8'));
+
+    expect(report.version).toBe(VERSION);
+    expect(report.auth.authenticated).toBe(true);
+    expect(serialized).not.toContain(apiKey);
+    expect(serialized).not.toContain('test@example.com');
+
+    const [house] = report.houses;
+    expect(house!.isDefault).toBe(true);
+    expect(house!.thermostats[0]!.summary['id']).toBe(thermostat!.id);
+    expect(house!.thermostats[0]!.dataFormat).toBe('current@1');
+    expect(house!.thermostats[0]!.rawFeatures).toEqual(expect.arrayContaining(['thermostat', 'fan_mode']));
+    expect(house!.thermostats[0]!.zones[0]!.sensors.length).toBeGreaterThan(0);
+
+    expect(report.recentErrors).toEqual([expect.objectContaining({ context: 'GET /mobile/missing', code: 'HTTP_404' })]);
+    expect(report.requests.map(request => `${request.method} ${request.path} ${request.status}`)).toEqual(
+      expect.arrayContaining(['POST /mobile/accounts/sign_in 200', 'GET /mobile/houses/123456 200', 'GET /mobile/missing 404'])
+    );
+    expect(report.requests.every(request => request.durationMs >= 0)).toBe(true);
+  });
+
+  test('should reject invalid credentials', async () => {
+    const rejected = createClient({ password: 'wrong' });
+
+    await expect(rejected.getThermostats()).rejects.toThrow(AuthenticationError);
+  });
+});
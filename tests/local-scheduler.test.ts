@@ -0,0 +1,159 @@
+/**
+ * Local scheduler tests: time zones, DST and catch-up after downtime
+ */
+
+import {
+  TraneClient,
+  LocalScheduler,
+  MemorySchedulerStore,
+  ScheduleDay,
+  TemperatureUnit,
+  Weekday,
+  ValidationError
+} from '../src/index';
+
+describe('LocalScheduler', () => {
+  const everyDay = (periods: ScheduleDay['periods']): ScheduleDay[] =>
+    Object.values(Weekday).map(day => ({ day, periods }));
+
+  const plan = everyDay([
+    { name: 'Wake', startTime: '06:00', heatingSetpoint: 68, coolingSetpoint: 76 },
+    { name: 'Away', startTime: '09:00', heatingSetpoint: 60, coolingSetpoint: 85 },
+    { name: 'Sleep', startTime: '22:00', heatingSetpoint: 64, coolingSetpoint: 78 }
+  ]);
+
+  let client: TraneClient;
+  let zone: {
+    id: string;
+    name: string;
+    isInPermanentHold: boolean;
+    setpointLimits: Record<string, number>;
+    thermostat: Record<string, unknown>;
+    setPermanentHold: jest.Mock;
+    setTemperatures: jest.Mock;
+  };
+
+  beforeEach(() => {
+    client = new TraneClient({
+      username: 'test@example.com',
+      password: 'password',
+      logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+    });
+    zone = {
+      id: '83261002',
+      name: 'Hallway',
+      isInPermanentHold: false,
+      setpointLimits: { heatMin: 55, heatMax: 90, coolMin: 60, coolMax: 99 },
+      thermostat: {
+        deadband: 3,
+        temperatureUnit: TemperatureUnit.FAHRENHEIT
+      },
+      setPermanentHold: jest.fn().mockResolvedValue(undefined),
+      setTemperatures: jest.fn().mockResolvedValue(undefined)
+    };
+    jest.spyOn(client, 'getThermostats').mockResolvedValue([
+      { getZoneById: (id: string) => (id === zone.id ? zone : undefined) } as any
+    ]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should follow the plan time zone', () => {
+    const scheduler = new LocalScheduler(client, {
+      plans: [{ zoneId: '83261002', timeZone: 'America/Denver', schedule: plan }],
+      store: new MemorySchedulerStore()
+    });
+
+    // 15:00 UTC is 09:00 in Denver (MDT, UTC-6)
+    const [status] = scheduler.getStatus(new Date('2025-07-01T15:00:00Z'));
+
+    expect(status!.period!.name).toBe('Away');
+    expect(status!.startedAt).toEqual(new Date('2025-07-01T15:00:00Z'));
+    expect(status!.nextPeriod.name).toBe('Sleep');
+    expect(status!.nextTransition).toEqual(new Date('2025-07-02T04:00:00Z'));
+  });
+
+  test('should move periods skipped by DST past the gap and run repeated times once', () => {
+    const scheduler = new LocalScheduler(client, {
+      plans: [{
+        zoneId: '83261002',
+        timeZone: 'America/New_York',
+        schedule: everyDay([
+          { name: 'Night', startTime: '01:30', heatingSetpoint: 62, coolingSetpoint: 80 },
+          { name: 'Early', startTime: '02:30', heatingSetpoint: 64, coolingSetpoint: 78 }
+        ])
+      }],
+      store: new MemorySchedulerStore()
+    });
+
+    // Spring forward: 02:30 does not exist on 9 March 2025 and runs at 03:30 EDT
+    const [spring] = scheduler.getStatus(new Date('2025-03-09T06:45:00Z'));
+    expect(spring!.period!.name).toBe('Night');
+    expect(spring!.nextTransition).toEqual(new Date('2025-03-09T07:30:00Z'));
+
+    // Fall back: 01:30 happens twice on 2 November 2025; only the first (EDT) counts
+    const [fall] = scheduler.getStatus(new Date('2025-11-02T05:00:00Z'));
+    expect(fall!.nextPeriod.name).toBe('Night');
+    expect(fall!.nextTransition).toEqual(new Date('2025-11-02T05:30:00Z'));
+    const [repeated] = scheduler.getStatus(new Date('2025-11-02T06:45:00Z'));
+    expect(repeated!.period!.name).toBe('Night');
+    expect(repeated!.startedAt).toEqual(new Date('2025-11-02T05:30:00Z'));
+    expect(repeated!.nextTransition).toEqual(new Date('2025-11-02T07:30:00Z'));
+  });
+
+  test('should catch up on the current period after downtime and then follow transitions', async () => {
+    jest.useFakeTimers({ now: new Date('2025-07-01T12:00:00Z') });
+    const store = new MemorySchedulerStore({
+      '83261002': { at: '2025-06-30T22:00:00.000Z', period: 'Sleep' }
+    });
+    const scheduler = new LocalScheduler(client, {
+      plans: [{ zoneId: '83261002', timeZone: 'UTC', schedule: plan }],
+      store
+    });
+
+    await scheduler.start();
+
+    // Wake (06:00) and Away (09:00) were missed; only the current period is applied
+    expect(zone.setPermanentHold).toHaveBeenCalledTimes(1);
+    expect(zone.setPermanentHold).toHaveBeenCalledWith({ temperatures: { heatingSetpoint: 60, coolingSetpoint: 85 } });
+    expect(await store.load()).toEqual({ '83261002': { at: '2025-07-01T09:00:00.000Z', period: 'Away' } });
+
+    zone.isInPermanentHold = true;
+    await jest.advanceTimersByTimeAsync(10 * 60 * 60 * 1000);
+
+    expect(zone.setTemperatures).toHaveBeenCalledWith({ heatingSetpoint: 64, coolingSetpoint: 78 });
+    expect((await store.load())['83261002']!.period).toBe('Sleep');
+    scheduler.stop();
+  });
+
+  test('should not reapply a period that was already applied', async () => {
+    jest.useFakeTimers({ now: new Date('2025-07-01T12:00:00Z') });
+    const scheduler = new LocalScheduler(client, {
+      plans: [{ zoneId: '83261002', timeZone: 'UTC', schedule: plan }],
+      store: new MemorySchedulerStore({ '83261002': { at: '2025-07-01T09:00:00.000Z', period: 'Away' } })
+    });
+
+    await scheduler.start();
+    scheduler.stop();
+
+    expect(zone.setPermanentHold).not.toHaveBeenCalled();
+  });
+
+  test('should reject invalid plans', async () => {
+    expect(() => new LocalScheduler(client, {
+      plans: [{ zoneId: '83261002', timeZone: 'Mars/Olympus', schedule: plan }]
+    })).toThrow(ValidationError);
+
+    const scheduler = new LocalScheduler(client, {
+      plans: [{
+        zoneId: '83261002',
+        schedule: everyDay([{ name: 'Tight', startTime: '06:00', heatingSetpoint: 70, coolingSetpoint: 71 }])
+      }],
+      store: new MemorySchedulerStore()
+    });
+    await expect(scheduler.start()).rejects.toThrow(ValidationError);
+    expect(scheduler.isRunning).toBe(false);
+  });
+});
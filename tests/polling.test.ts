@@ -0,0 +1,92 @@
+/**
+ * Background polling and event emission tests
+ */
+
+import { TraneClient, TraneEvent } from '../src/index';
+
+describe('TraneClient polling', () => {
+  let client: TraneClient;
+  let updateSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    client = new TraneClient({
+      username: 'test@example.com',
+      password: 'password'
+    });
+    updateSpy = jest.spyOn(client, 'update');
+  });
+
+  afterEach(() => {
+    client.stopPolling();
+    jest.useRealTimers();
+  });
+
+  test('should poll on the configured interval and emit connected once', async () => {
+    updateSpy.mockResolvedValue(undefined);
+    const connected = jest.fn();
+    client.on('connected', connected);
+
+    client.startPolling({ interval: 5000 });
+    expect(client.isPolling).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(updateSpy).toHaveBeenCalledTimes(2);
+    expect(connected).toHaveBeenCalledTimes(1);
+  });
+
+  test('should back off after failures and recover', async () => {
+    updateSpy
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockResolvedValue(undefined);
+
+    const events: string[] = [];
+    const errors: TraneEvent[] = [];
+    client.on('connected', () => events.push('connected'));
+    client.on('disconnected', () => events.push('disconnected'));
+    client.on('error', (event) => errors.push(event));
+
+    client.startPolling({ interval: 1000, backoffMultiplier: 3 });
+
+    await jest.advanceTimersByTimeAsync(1000); // success
+    await jest.advanceTimersByTimeAsync(1000); // failure
+    expect(errors).toHaveLength(1);
+    expect(errors[0].data.nextPollInMs).toBe(3000);
+
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(updateSpy).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(1); // recovery
+    expect(updateSpy).toHaveBeenCalledTimes(3);
+    expect(events).toEqual(['connected', 'disconnected', 'connected']);
+  });
+
+  test('should dispatch to listener objects and tolerate missing error subscribers', async () => {
+    updateSpy.mockRejectedValue(new Error('boom'));
+    const listener = { onError: jest.fn(), onDisconnected: jest.fn() };
+    client.addEventListener(listener);
+
+    client.startPolling({ interval: 1000 });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(listener.onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' }));
+
+    client.removeEventListener(listener);
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(listener.onError).toHaveBeenCalledTimes(1);
+  });
+
+  test('should stop polling', async () => {
+    updateSpy.mockResolvedValue(undefined);
+
+    client.startPolling({ interval: 1000 });
+    client.stopPolling();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(client.isPolling).toBe(false);
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+});
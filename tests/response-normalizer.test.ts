@@ -0,0 +1,131 @@
+/**
+ * Response normalizer tests against recorded responses of each format
+ */
+
+import {
+  TraneClient,
+  TraneThermostat,
+  ResponseNormalizer,
+  FormatAdapter,
+  OperationMode,
+  DamperState,
+  ParseError,
+  ResponseValidator
+} from '../src/index';
+import currentFixture from './fixtures/current-thermostat.json';
+import legacyFixture from './fixtures/legacy-thermostat.json';
+import ux360Fixture from './fixtures/ux360-thermostat.json';
+
+describe('ResponseNormalizer', () => {
+  const normalizer = new ResponseNormalizer();
+
+  test('should read the current format', () => {
+    const { data, format, unmappedFields } = normalizer.normalize(currentFixture);
+
+    expect(format).toBe('current@1');
+    expect(data.model).toBe('XL1050');
+    expect(data.features!.has_zones).toBe(true);
+    expect(data.settings).toMatchObject({ fan_speed: 0.5, emergency_heat_active: false, current_compressor_speed: 0.45 });
+    expect(data.zones!.map(zone => zone.id)).toEqual(['83261002', '83261005']);
+    expect(data.zones![0]!.features).toMatchObject({ cooling_setpoint: 76, current_mode: 'COOL', damper_position: DamperState.OPEN });
+    expect(data.zones![1]!.settings!.available_modes).toEqual(['AUTO', 'OFF']);
+    expect(data.zones![0]!.sensors!.map(sensor => sensor.serial_number)).toEqual(['NativeIDTStat', '2410R5C53X']);
+    expect(unmappedFields).toEqual([
+      'features.gen_2_app',
+      'features.room_iq_sensors.sensors.signal_strength',
+      'features.thermostat.setpoint_increment',
+      'settings.fan_head_speed',
+      'type'
+    ]);
+  });
+
+  test('should read the legacy format', () => {
+    const { data, format, unmappedFields } = normalizer.normalize(legacyFixture);
+
+    expect(format).toBe('legacy@1');
+    expect(data.zones![0]!.features).toMatchObject({ heating_setpoint: 67, cooling_setpoint: 77, current_mode: 'HEAT' });
+    expect(data.zones![0]!.settings!.temperature).toBe(69);
+    expect(data.zones![0]!.sensors![0]).toMatchObject({ serial_number: 'ABC123DEF456', battery_level: 64, battery_low: false });
+    expect(unmappedFields).toEqual(['settings.away_mode']);
+  });
+
+  test('should read UX360 zone naming', () => {
+    const { data, format, unmappedFields } = normalizer.normalize(ux360Fixture);
+
+    expect(format).toBe('ux360@1');
+    expect(data.zones!.map(zone => zone.id)).toEqual([7710, 7711]);
+    expect(data.zones!.map(zone => zone.features!.current_mode)).toEqual(['HEAT', 'OFF']);
+    expect(unmappedFields).toEqual(['zones.humidity_sensor']);
+  });
+
+  test('should give devices the same view of every format', () => {
+    const client = new TraneClient({ username: 'test@example.com', password: 'password' });
+    const zones = [currentFixture, legacyFixture, ux360Fixture]
+      .map(fixture => new TraneThermostat(client, fixture).zones[0]!);
+
+    expect(zones.map(zone => zone.id)).toEqual(['83261002', '1049805', '7710']);
+    expect(zones.map(zone => zone.heatingSetpoint)).toEqual([68, 67, 70]);
+    expect(zones.map(zone => zone.currentTemperature)).toEqual([73, 69, 67]);
+    expect(zones.map(zone => zone.currentMode)).toEqual([OperationMode.COOL, OperationMode.HEAT, OperationMode.HEAT]);
+  });
+
+  test('should try custom adapters first', () => {
+    const adapter: FormatAdapter = {
+      format: 'bridge',
+      version: 2,
+      matches: raw => raw['source'] === 'bridge',
+      normalize: (raw, fields) => {
+        fields.add('source');
+        return { id: raw['serial'], name: raw['label'] };
+      }
+    };
+
+    const normalized = new ResponseNormalizer([adapter]).normalize({ source: 'bridge', serial: 'B-1', label: 'Attic' });
+
+    expect(normalized).toEqual({ data: { id: 'B-1', name: 'Attic' }, format: 'bridge@2', unmappedFields: ['source'], rawFeatures: [] });
+    expect(new ResponseNormalizer([adapter]).normalize(legacyFixture).format).toBe('legacy@1');
+  });
+
+  test('should reject data it cannot read', () => {
+    expect(() => normalizer.normalize(null)).toThrow(ParseError);
+    expect(() => normalizer.normalize([currentFixture])).toThrow(ParseError);
+    expect(() => normalizer.normalize({ name: 'No id', features: [] })).toThrow('has no id');
+  });
+
+  test('should check thermostat data against the schema of its format', () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const drifted = { ...currentFixture, features: [...currentFixture.features, { name: 7 }] };
+
+    const strict = new ResponseNormalizer([], new ResponseValidator('strict', logger));
+    expect(strict.normalize(currentFixture).format).toBe('current@1');
+    expect(strict.normalize(ux360Fixture).format).toBe('ux360@1');
+    const error = (() => {
+      try {
+        return strict.normalize(drifted);
+      } catch (caught) {
+        return caught;
+      }
+    })();
+    expect(error).toBeInstanceOf(ParseError);
+    expect((error as ParseError).path).toBe(`$.features[${currentFixture.features.length}].name`);
+
+    const lenient = new ResponseNormalizer([], new ResponseValidator('lenient', logger));
+    expect(lenient.normalize(drifted).format).toBe('current@1');
+    expect(logger.warn).toHaveBeenCalledWith(
+      `API drift in thermostat (current format) response at $.features[${currentFixture.features.length}].name: expected string, got number`
+    );
+  });
+
+  test('should log newly unmapped fields once', () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const client = new TraneClient({ username: 'test@example.com', password: 'password', logger });
+
+    const thermostat = new TraneThermostat(client, legacyFixture);
+    thermostat.updateData(legacyFixture);
+
+    expect(thermostat.dataFormat).toBe('legacy@1');
+    expect(thermostat.unmappedFields).toEqual(['settings.away_mode']);
+    expect(logger.debug).toHaveBeenCalledTimes(1);
+    expect(logger.debug).toHaveBeenCalledWith('Thermostat 1049802 (legacy@1) has unmapped fields: settings.away_mode');
+  });
+});
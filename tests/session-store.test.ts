@@ -0,0 +1,120 @@
+/**
+ * Session storage backend tests
+ */
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promises as fs } from 'fs';
+import {
+  TraneClient,
+  AuthState,
+  FileSessionStore,
+  MemorySessionStore,
+  EncryptedFileSessionStore,
+  ConfigurationError
+} from '../src/index';
+import { MockTraneServer } from '../src/testing';
+
+describe('Session stores', () => {
+  const state: AuthState = {
+    deviceUuid: 'device-uuid',
+    apiKey: 'secret-api-key',
+    mobileId: '42',
+    loginAttempts: 0,
+    sessionExpiry: Date.now() + 60000
+  };
+  let filePath: string;
+
+  beforeEach(() => {
+    filePath = join(tmpdir(), `trane-session-${process.pid}-${Date.now()}`, 'state.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(join(filePath, '..'), { recursive: true, force: true });
+  });
+
+  test('file store should round-trip state and return null when missing', async () => {
+    const store = new FileSessionStore(filePath);
+    expect(await store.load()).toBeNull();
+
+    await store.save(state);
+
+    expect(await store.load()).toEqual(state);
+  });
+
+  test('memory store should keep state in process', async () => {
+    const store = new MemorySessionStore();
+    await store.save(state);
+
+    expect(await store.load()).toEqual(state);
+  });
+
+  test('encrypted store should not write the api key in plain text', async () => {
+    const store = new EncryptedFileSessionStore('correct horse', filePath);
+    await store.save(state);
+
+    const contents = await fs.readFile(filePath, 'utf8');
+    expect(contents).not.toContain('secret-api-key');
+    expect(await store.load()).toEqual(state);
+  });
+
+  test('encrypted store should reject the wrong passphrase', async () => {
+    await new EncryptedFileSessionStore('correct horse', filePath).save(state);
+
+    await expect(new EncryptedFileSessionStore('battery staple', filePath).load())
+      .rejects.toThrow(ConfigurationError);
+  });
+
+  test('encrypted store should encrypt a plaintext state file in place', async () => {
+    await new FileSessionStore(filePath).save(state);
+
+    expect(await new EncryptedFileSessionStore('correct horse', filePath).load()).toEqual(state);
+    expect(await fs.readFile(filePath, 'utf8')).not.toContain('secret-api-key');
+    expect(await new EncryptedFileSessionStore('correct horse', filePath).load()).toEqual(state);
+  });
+
+  test('encrypted store should back up a file it cannot decrypt before replacing it', async () => {
+    await new EncryptedFileSessionStore('correct horse', filePath).save(state);
+    const saved = await fs.readFile(filePath, 'utf8');
+
+    await new EncryptedFileSessionStore('battery staple', filePath).save({ ...state, apiKey: 'new-api-key' });
+
+    const backups = (await fs.readdir(join(filePath, '..'))).filter(name => name.endsWith('.bak'));
+    expect(backups).toHaveLength(1);
+    expect(await fs.readFile(join(filePath, '..', backups[0]!), 'utf8')).toBe(saved);
+    expect(await new EncryptedFileSessionStore('battery staple', filePath).load())
+      .toEqual({ ...state, apiKey: 'new-api-key' });
+  });
+
+  test('client should leave a session it cannot decrypt untouched', async () => {
+    await new EncryptedFileSessionStore('correct horse', filePath).save(state);
+    const saved = await fs.readFile(filePath, 'utf8');
+
+    const client = new TraneClient({
+      username: 'test@example.com',
+      password: 'password',
+      stateFile: filePath,
+      statePassphrase: 'battery staple'
+    });
+
+    await expect(client.getThermostats()).rejects.toThrow(ConfigurationError);
+    expect(await fs.readFile(filePath, 'utf8')).toBe(saved);
+  });
+
+  test('client should use an injected session store', async () => {
+    const server = new MockTraneServer();
+    await server.start();
+    const sessionStore = new MemorySessionStore();
+
+    try {
+      const options = { username: 'test@example.com', password: 'password', baseUrl: server.baseUrl, sessionStore };
+      await new TraneClient(options).getThermostats();
+      await new TraneClient(options).getThermostats();
+
+      expect((await sessionStore.load())?.apiKey).toBeDefined();
+      expect(server.requests.filter(request => request.path === '/mobile/accounts/sign_in')).toHaveLength(1);
+    } finally {
+      await server.stop();
+    }
+  });
+});